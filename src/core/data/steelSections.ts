@@ -0,0 +1,105 @@
+import type { SteelSection, SteelSectionFamily } from '../entities/SteelSection';
+
+// Strong-axis properties as printed in the producers' tables:
+// AISC W shapes in US units  [d (in), A (in²), Ix (in⁴), Sx (in³), Zx (in³), w (lb/ft), tw (in)]
+// European IPE/HEA/HEB       [h (mm), A (cm²), Iy (cm⁴), Wel,y (cm³), Wpl,y (cm³), G (kg/m), tw (mm)]
+type Row = [name: string, depth: number, A: number, I: number, S: number, Z: number, weight: number, tw: number];
+
+const W_SHAPES: Row[] = [
+    ['W8X31', 8.00, 9.13, 110, 27.5, 30.4, 31, 0.285],
+    ['W10X33', 9.73, 9.71, 171, 35.0, 38.8, 33, 0.290],
+    ['W12X26', 12.2, 7.65, 204, 33.4, 37.2, 26, 0.230],
+    ['W14X30', 13.8, 8.85, 291, 42.0, 47.3, 30, 0.270],
+    ['W16X26', 15.7, 7.68, 301, 38.4, 44.2, 26, 0.250],
+    ['W16X40', 16.0, 11.8, 518, 64.7, 73.0, 40, 0.305],
+    ['W18X35', 17.7, 10.3, 510, 57.6, 66.5, 35, 0.300],
+    ['W18X50', 18.0, 14.7, 800, 88.9, 101, 50, 0.355],
+    ['W21X44', 20.7, 13.0, 843, 81.6, 95.4, 44, 0.350],
+    ['W21X62', 21.0, 18.3, 1330, 127, 144, 62, 0.400],
+    ['W24X55', 23.6, 16.2, 1350, 114, 134, 55, 0.395],
+    ['W24X76', 23.9, 22.4, 2100, 176, 200, 76, 0.440],
+    ['W27X84', 26.7, 24.7, 2850, 213, 244, 84, 0.460],
+    ['W30X99', 29.7, 29.1, 3990, 269, 312, 99, 0.520],
+    ['W33X118', 32.9, 34.7, 5900, 359, 415, 118, 0.550],
+    ['W36X135', 35.6, 39.9, 7800, 439, 509, 135, 0.600]
+];
+
+const IPE: Row[] = [
+    ['IPE 100', 100, 10.3, 171, 34.2, 39.4, 8.1, 4.1],
+    ['IPE 120', 120, 13.2, 318, 53.0, 60.7, 10.4, 4.4],
+    ['IPE 140', 140, 16.4, 541, 77.3, 88.3, 12.9, 4.7],
+    ['IPE 160', 160, 20.1, 869, 109, 124, 15.8, 5.0],
+    ['IPE 180', 180, 23.9, 1317, 146, 166, 18.8, 5.3],
+    ['IPE 200', 200, 28.5, 1943, 194, 221, 22.4, 5.6],
+    ['IPE 220', 220, 33.4, 2772, 252, 285, 26.2, 5.9],
+    ['IPE 240', 240, 39.1, 3892, 324, 367, 30.7, 6.2],
+    ['IPE 270', 270, 45.9, 5790, 429, 484, 36.1, 6.6],
+    ['IPE 300', 300, 53.8, 8356, 557, 628, 42.2, 7.1],
+    ['IPE 330', 330, 62.6, 11770, 713, 804, 49.1, 7.5],
+    ['IPE 360', 360, 72.7, 16270, 904, 1019, 57.1, 8.0],
+    ['IPE 400', 400, 84.5, 23130, 1156, 1307, 66.3, 8.6],
+    ['IPE 450', 450, 98.8, 33740, 1500, 1702, 77.6, 9.4],
+    ['IPE 500', 500, 116, 48200, 1928, 2194, 90.7, 10.2],
+    ['IPE 550', 550, 134, 67120, 2441, 2787, 106, 11.1],
+    ['IPE 600', 600, 156, 92080, 3069, 3512, 122, 12.0]
+];
+
+const HEA: Row[] = [
+    ['HEA 100', 96, 21.2, 349, 72.8, 83.0, 16.7, 5.0],
+    ['HEA 120', 114, 25.3, 606, 106, 119, 19.9, 5.0],
+    ['HEA 140', 133, 31.4, 1033, 155, 173, 24.7, 5.5],
+    ['HEA 160', 152, 38.8, 1673, 220, 245, 30.4, 6.0],
+    ['HEA 180', 171, 45.3, 2510, 294, 325, 35.5, 6.0],
+    ['HEA 200', 190, 53.8, 3692, 389, 430, 42.3, 6.5],
+    ['HEA 220', 210, 64.3, 5410, 515, 568, 50.5, 7.0],
+    ['HEA 240', 230, 76.8, 7763, 675, 745, 60.3, 7.5],
+    ['HEA 260', 250, 86.8, 10450, 836, 920, 68.2, 7.5],
+    ['HEA 280', 270, 97.3, 13670, 1013, 1112, 76.4, 8.0],
+    ['HEA 300', 290, 112, 18260, 1260, 1383, 88.3, 8.5],
+    ['HEA 320', 310, 124, 22930, 1479, 1628, 97.6, 9.0],
+    ['HEA 340', 330, 133, 27690, 1678, 1850, 105, 9.5],
+    ['HEA 360', 350, 143, 33090, 1891, 2088, 112, 10.0],
+    ['HEA 400', 390, 159, 45070, 2311, 2562, 125, 11.0],
+    ['HEA 450', 440, 178, 63720, 2896, 3216, 140, 11.5],
+    ['HEA 500', 490, 198, 86970, 3550, 3949, 155, 12.0]
+];
+
+const HEB: Row[] = [
+    ['HEB 100', 100, 26.0, 450, 89.9, 104, 20.4, 6.0],
+    ['HEB 120', 120, 34.0, 864, 144, 165, 26.7, 6.5],
+    ['HEB 140', 140, 43.0, 1509, 216, 246, 33.7, 7.0],
+    ['HEB 160', 160, 54.3, 2492, 311, 354, 42.6, 8.0],
+    ['HEB 180', 180, 65.3, 3831, 426, 482, 51.2, 8.5],
+    ['HEB 200', 200, 78.1, 5696, 570, 643, 61.3, 9.0],
+    ['HEB 220', 220, 91.0, 8091, 736, 827, 71.5, 9.5],
+    ['HEB 240', 240, 106, 11260, 938, 1053, 83.2, 10.0],
+    ['HEB 260', 260, 118, 14920, 1148, 1283, 93.0, 10.0],
+    ['HEB 280', 280, 131, 19270, 1376, 1534, 103, 10.5],
+    ['HEB 300', 300, 149, 25170, 1678, 1869, 117, 11.0],
+    ['HEB 320', 320, 161, 30820, 1926, 2149, 127, 11.5],
+    ['HEB 340', 340, 171, 36660, 2156, 2408, 134, 12.0],
+    ['HEB 360', 360, 181, 43190, 2400, 2683, 142, 12.5],
+    ['HEB 400', 400, 198, 57680, 2884, 3232, 155, 13.5],
+    ['HEB 450', 450, 218, 79890, 3551, 3982, 171, 14.0],
+    ['HEB 500', 500, 239, 107200, 4287, 4815, 187, 14.5]
+];
+
+const INCH = 0.0254;
+const POUND_PER_FOOT = 0.45359237 / 0.3048;
+
+// Factors from table units to m, m², m⁴, m³, m³, kg/m, m
+const US_UNITS = [INCH, INCH ** 2, INCH ** 4, INCH ** 3, INCH ** 3, POUND_PER_FOOT, INCH];
+const EN_UNITS = [1e-3, 1e-4, 1e-8, 1e-6, 1e-6, 1, 1e-3];
+
+const toSections = (family: SteelSectionFamily, rows: Row[], units: number[]): SteelSection[] =>
+    rows.map(([name, ...values]) => {
+        const [depth, A, I, S, Z, weight, tw] = values.map((v, i) => v * units[i]);
+        return { name, family, depth, A, I, S, Z, weight, tw };
+    });
+
+export const STEEL_SECTIONS: SteelSection[] = [
+    ...toSections('W', W_SHAPES, US_UNITS),
+    ...toSections('IPE', IPE, EN_UNITS),
+    ...toSections('HEA', HEA, EN_UNITS),
+    ...toSections('HEB', HEB, EN_UNITS)
+];
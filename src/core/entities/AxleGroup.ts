@@ -0,0 +1,29 @@
+/** One wheel or axle of a moving load train */
+export interface Axle {
+    offset: number; // m behind the first axle, which leads the train in +x
+    load: number;   // kN, downward positive
+}
+
+/** Vehicle or crane wheel group that travels along the beam as a rigid train */
+export interface AxleGroup {
+    name: string;
+    axles: Axle[];
+}
+
+/** Distance from the first to the last axle */
+export const axleGroupLength = (group: AxleGroup): number =>
+    group.axles.reduce((max, a) => Math.max(max, a.offset), 0);
+
+/** Sum of the axle loads */
+export const axleGroupTotal = (group: AxleGroup): number =>
+    group.axles.reduce((sum, a) => sum + a.load, 0);
+
+export const AXLE_GROUP_PRESETS: AxleGroup[] = [
+    { name: 'Crane end truck (2 wheels)', axles: [{ offset: 0, load: 100 }, { offset: 3, load: 100 }] },
+    {
+        name: 'Two cranes buffer to buffer (4 wheels)',
+        axles: [{ offset: 0, load: 100 }, { offset: 3, load: 100 }, { offset: 4.5, load: 100 }, { offset: 7.5, load: 100 }]
+    },
+    // HS20-44: 8, 32 y 32 kips a 14 ft
+    { name: 'HS20-44 truck', axles: [{ offset: 0, load: 35.6 }, { offset: 4.27, load: 142.3 }, { offset: 8.54, load: 142.3 }] }
+];
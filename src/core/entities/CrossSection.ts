@@ -0,0 +1,34 @@
+/** Closed outline in section coordinates (m): x across the width, y up from the bottom fibre */
+export interface SectionPolygon {
+    points: [number, number][];
+    hole?: boolean; // Subtracted from the section (box voids, openings)
+}
+
+/**
+ * Cross-section defined by its dimensions (m), bent about the horizontal axis.
+ * I and T sections have flanges of width bf and thickness tf and a web of thickness tw;
+ * circular sections are solid unless a wall thickness t is given.
+ */
+export type CrossSectionShape =
+    | { kind: 'rectangle', b: number, h: number }
+    | { kind: 'I', h: number, bf: number, tf: number, tw: number }
+    | { kind: 'T', h: number, bf: number, tf: number, tw: number }
+    | { kind: 'box', h: number, b: number, t: number }
+    | { kind: 'circular', d: number, t?: number }
+    | { kind: 'polygon', polygons: SectionPolygon[] };
+
+export type CrossSectionKind = CrossSectionShape['kind'];
+
+/** Geometric properties about the horizontal centroidal axis */
+export interface CrossSectionProperties {
+    A: number;          // m²
+    I: number;          // m⁴
+    centroid: number;   // m above the bottom fibre
+    depth: number;      // m
+    Stop: number;       // m³, elastic modulus to the top fibre
+    Sbottom: number;    // m³, elastic modulus to the bottom fibre
+    Z: number;          // m³, plastic modulus
+    plasticAxis: number; // m above the bottom fibre, splits the area in halves
+    Q: number;          // m³, first moment of the area above the centroid
+    widthAtCentroid: number; // m, width cut by the centroidal axis (for τ = VQ/(It))
+}
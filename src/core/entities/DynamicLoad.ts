@@ -0,0 +1,33 @@
+/**
+ * Point load varying in time at x. Forces are in kN and positive upward, like the
+ * static point loads.
+ */
+export type DynamicLoad =
+    | { kind: 'harmonic', x: number, amplitude: number, frequency: number, phase?: number }
+    | { kind: 'timeHistory', x: number, points: Array<{ t: number, value: number }> };
+
+/** Force of a dynamic load at time t; time histories are linear between points and zero outside them */
+export const dynamicLoadAt = (load: DynamicLoad, t: number): number => {
+    if (load.kind === 'harmonic') {
+        return load.amplitude * Math.sin(2 * Math.PI * load.frequency * t + (load.phase ?? 0));
+    }
+    const points = load.points;
+    if (points.length === 0 || t < points[0].t || t > points[points.length - 1].t) return 0;
+    const i = points.findIndex(p => p.t >= t);
+    if (i <= 0) return points[0].value;
+    const a = points[i - 1];
+    const b = points[i];
+    return b.t === a.t ? b.value : a.value + (b.value - a.value) * (t - a.t) / (b.t - a.t);
+};
+
+/** Dynamic load factors of the first walking harmonics (AISC Design Guide 11) */
+export const WALKING_HARMONICS = [0.5, 0.2, 0.1];
+
+/**
+ * Walking on the spot at x as its Fourier harmonics: a downward force α·W at each
+ * multiple of the step frequency. The static body weight is left out.
+ * @param weight Walker weight (kN), 0.7 kN in Design Guide 11
+ * @param stepFrequency Pace (Hz), 1.6 to 2.2 for normal walking
+ */
+export const walkingLoads = (x: number, weight: number = 0.7, stepFrequency: number = 2): DynamicLoad[] =>
+    WALKING_HARMONICS.map((alpha, i) => ({ kind: 'harmonic', x, amplitude: -alpha * weight, frequency: (i + 1) * stepFrequency }));
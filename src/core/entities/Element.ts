@@ -1,5 +1,6 @@
 import { Node } from './Node';
 import { StiffnessMatrix } from '../logic/StiffnessMatrix'; 
+import { DEFAULT_SECTION_AREA, type SectionTaper, type ShearProperties } from './Section';
 
 export class Element {
     public readonly id: string;
@@ -7,19 +8,42 @@ export class Element {
     public readonly endNode: Node;
     public readonly E: number; 
     public readonly I: number; 
+    // Moment releases: the element end rotates freely from its node (hinge)
+    public readonly releaseStart: boolean;
+    public readonly releaseEnd: boolean;
+    // Winkler foundation modulus under the element (kN/m per m), 0 when unsupported
+    public readonly foundationModulus: number;
+    // Tapered elements: I varies from I at the start node to taper.IEnd at the end node
+    public readonly taper?: SectionTaper;
+    // Timoshenko elements include shear deformation; Bernoulli-Euler when omitted
+    public readonly shear?: ShearProperties;
+    // Cross-section area for the axial stiffness EA
+    public readonly A: number;
 
     constructor(
         id: string, 
         startNode: Node, 
         endNode: Node, 
         E: number, 
-        I: number
+        I: number,
+        releaseStart: boolean = false,
+        releaseEnd: boolean = false,
+        foundationModulus: number = 0,
+        taper?: SectionTaper,
+        shear?: ShearProperties,
+        A: number = DEFAULT_SECTION_AREA
     ) {
         this.id = id;
         this.startNode = startNode;
         this.endNode = endNode;
         this.E = E;
         this.I = I;
+        this.releaseStart = releaseStart;
+        this.releaseEnd = releaseEnd;
+        this.foundationModulus = foundationModulus;
+        this.taper = taper;
+        this.shear = shear;
+        this.A = A;
         
         if (this.length <= 1e-6) {
             throw new Error(`Element ${id} has zero length.`);
@@ -31,7 +55,103 @@ export class Element {
         return Math.abs(dx);
     }
 
+    /** Local rotation DOFs released at the element ends, in [u1, v1, θ1, u2, v2, θ2] order */
+    get releasedDofs(): number[] {
+        const released: number[] = [];
+        if (this.releaseStart) released.push(2);
+        if (this.releaseEnd) released.push(5);
+        return released;
+    }
+
+    /** Frame stiffness [u1, v1, θ1, u2, v2, θ2] before releases */
+    private get baseStiffness(): number[][] {
+        return StiffnessMatrix.frame2D(this.bendingStiffness, (this.E * this.A) / this.length);
+    }
+
+    /** Bending stiffness plus the consistent stiffness of the foundation */
+    private get bendingStiffness(): number[][] {
+        const k = this.memberBendingStiffness;
+        if (this.foundationModulus <= 0) return k;
+        const kw = StiffnessMatrix.winkler(this.foundationModulus, this.length);
+        return k.map((row, i) => row.map((value, j) => value + kw[i][j]));
+    }
+
+    /** Bending stiffness of the member alone, in the element's own formulation */
+    private get memberBendingStiffness(): number[][] {
+        return this.taper
+            ? StiffnessMatrix.tapered(this.E, this.I, this.taper.IEnd, this.length, this.taper.exponent, this.shearRigidity)
+            : this.shear
+                ? StiffnessMatrix.timoshenko2D(this.E, this.I, this.shear.G, this.shear.As, this.length)
+                : StiffnessMatrix.beam2D(this.E, this.I, this.length);
+    }
+
+    private get shearRigidity(): number | undefined {
+        return this.shear ? this.shear.G * this.shear.As : undefined;
+    }
+
+    /**
+     * Shape functions of this element's own formulation at local x (from the start node):
+     * deflections n and section rotations slopes for [v1, θ1, v2, θ2].
+     */
+    shapeFunctions(x: number): { n: number[], slopes: number[] } {
+        if (this.taper) {
+            return StiffnessMatrix.taperedShapeFunctions(
+                this.E, this.I, this.taper.IEnd, this.length, x, this.taper.exponent, this.shearRigidity
+            );
+        }
+        const phi = this.shear ? (12 * this.E * this.I) / (this.shear.G * this.shear.As * this.length ** 2) : 0;
+        return StiffnessMatrix.shapeFunctions(this.length, x, phi);
+    }
+
+    /**
+     * Equivalent nodal loads [u1, v1, θ1, u2, v2, θ2] of a free thermal strain and curvature
+     * acting from `from` to `to` (local x): the end forces that impose the unrestrained thermal
+     * shape with the start node held. The heated stretch rotates the rest of the element rigidly.
+     * Only the member stiffness takes part; the foundation reacts to the solved deflection.
+     */
+    thermalLoads(strain: number, curvature: number, from: number = 0, to: number = this.length): number[] {
+        const L = this.length;
+        const heated = to - from;
+        const freeShape = [0, 0, 0, strain * heated, curvature * heated * (L - to + heated / 2), curvature * heated];
+        const k = StiffnessMatrix.frame2D(this.memberBendingStiffness, (this.E * this.A) / L);
+        return k.map(row => row.reduce((sum, kij, j) => sum + kij * freeShape[j], 0));
+    }
+
+    /**
+     * Consistent bending mass [v1, θ1, v2, θ2] for a mass per unit length m (t/m against
+     * moduli in kN/m²), condensed like the stiffness at released ends. Hermite shapes are
+     * used for every formulation, which is adequate for the lower modes of tapered and
+     * Timoshenko members.
+     */
+    massMatrix(m: number): number[][] {
+        const mass = StiffnessMatrix.consistentMass(m, this.length);
+        // Released rotations θ1 / θ2 sit at 1 / 3 in the bending DOF order
+        const released = this.releasedDofs.map(dof => dof === 2 ? 1 : 3);
+        if (released.length === 0) return mass;
+        return StiffnessMatrix.condenseMass(this.bendingStiffness, mass, released);
+    }
+
     get stiffnessMatrix(): number[][] {
-        return StiffnessMatrix.beam2D(this.E, this.I, this.length);
+        const k = this.baseStiffness;
+        if (this.releasedDofs.length === 0) return k;
+        return StiffnessMatrix.condense(k, [0, 0, 0, 0, 0, 0], this.releasedDofs).k;
+    }
+
+    /** Fixed-end actions with the released end moments redistributed by static condensation */
+    condenseLoads(f: number[]): number[] {
+        if (this.releasedDofs.length === 0) return f;
+        const k = this.baseStiffness;
+        return StiffnessMatrix.condense(k, f, this.releasedDofs).f;
+    }
+
+    /**
+     * End rotations [θ1, θ2] of the element itself. At a released end this differs
+     * from the node rotation, which is what produces the kink at a hinge.
+     */
+    endRotations(d: number[], f: number[]): [number, number] {
+        if (this.releasedDofs.length === 0) return [d[2], d[5]];
+        const k = this.baseStiffness;
+        const full = StiffnessMatrix.recoverReleased(k, f, d, this.releasedDofs);
+        return [full[2], full[5]];
     }
-}
\ No newline at end of file
+}
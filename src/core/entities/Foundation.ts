@@ -0,0 +1,16 @@
+/**
+ * Winkler elastic foundation under part of the beam.
+ * The modulus is the subgrade reaction per unit length of beam (kN/m per m of
+ * deflection), i.e. the soil modulus already multiplied by the contact width.
+ */
+export interface ElasticFoundation {
+    startX: number;
+    endX: number;
+    modulus: number;
+}
+
+/** Foundation modulus at x, adding overlapping ranges */
+export const foundationModulusAt = (foundations: ElasticFoundation[], x: number): number =>
+    foundations
+        .filter(f => x >= f.startX && x <= f.endX)
+        .reduce((sum, f) => sum + f.modulus, 0);
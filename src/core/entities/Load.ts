@@ -1,6 +1,28 @@
-export type LoadType = 'PointForce' | 'DistributedForce' | 'PointMoment';
+export type LoadType = 'PointForce' | 'DistributedForce' | 'PointMoment' | 'SupportDisplacement' | 'Temperature';
 
-export type LoadCategory = 'Dead' | 'Live' | 'Wind' | 'Snow' | 'Seismic';
+export type LoadCategory = 'Dead' | 'Live' | 'Wind' | 'Snow' | 'Seismic' | 'Settlement' | 'Thermal';
+
+export const LOAD_CATEGORIES: LoadCategory[] = ['Dead', 'Live', 'Wind', 'Snow', 'Seismic', 'Settlement', 'Thermal'];
+
+/**
+ * Categories offered for force loads; imposed support movements always go to Settlement
+ * and temperature changes to Thermal
+ */
+export const FORCE_LOAD_CATEGORIES: LoadCategory[] = LOAD_CATEGORIES.filter(c => c !== 'Settlement' && c !== 'Thermal');
+
+/** Thermal expansion coefficient of structural steel (1/°C) */
+export const DEFAULT_THERMAL_EXPANSION = 12e-6;
+
+/** Code symbols used in combination labels (1.2D + 1.6L, 0.9D + 1.0W, ...) */
+export const LOAD_CATEGORY_SYMBOLS: Record<LoadCategory, string> = {
+    Dead: 'D',
+    Live: 'L',
+    Wind: 'W',
+    Snow: 'S',
+    Seismic: 'E',
+    Settlement: 'Δ',
+    Thermal: 'T'
+};
 
 export interface LoadBase {
     id: string;
@@ -9,16 +31,22 @@ export interface LoadBase {
     category: LoadCategory; 
 }
 
+/**
+ * Point force with a vertical `magnitude` (negative downward) and a `horizontal`
+ * component along the beam axis (positive to the right). Inclined loads set both.
+ */
 export class PointForceLoad implements LoadBase {
     public readonly id: string;
     public readonly type: LoadType = 'PointForce';
     public readonly magnitude: number;
+    public readonly horizontal: number;
     public readonly x: number;
     public readonly category: LoadCategory;
 
-    constructor(id: string, magnitude: number, x: number, category: LoadCategory = 'Dead') {
+    constructor(id: string, magnitude: number, x: number, category: LoadCategory = 'Dead', horizontal: number = 0) {
         this.id = id;
         this.magnitude = magnitude;
+        this.horizontal = horizontal;
         this.x = x;
         this.category = category;
     }
@@ -39,21 +67,128 @@ export class PointMomentLoad implements LoadBase {
     }
 }
 
+/**
+ * Distributed force varying linearly from `magnitude` at startX to `endMagnitude` at endX.
+ * Uniform when endMagnitude is omitted; triangular when one of the ends is zero.
+ * Inclined loads add an axial intensity, `horizontal` to `endHorizontal` (positive to the right).
+ */
 export class DistributedForceLoad implements LoadBase {
     public readonly id: string;
     public readonly type: LoadType = 'DistributedForce';
     public readonly magnitude: number;
+    public readonly endMagnitude: number;
+    public readonly horizontal: number;
+    public readonly endHorizontal: number;
+    public readonly startX: number;
+    public readonly endX: number;
+    public readonly category: LoadCategory;
+
+    constructor(
+        id: string,
+        magnitude: number,
+        startX: number,
+        endX: number,
+        category: LoadCategory = 'Dead',
+        endMagnitude: number = magnitude,
+        horizontal: number = 0,
+        endHorizontal: number = horizontal
+    ) {
+        this.id = id;
+        this.magnitude = magnitude;
+        this.endMagnitude = endMagnitude;
+        this.horizontal = horizontal;
+        this.endHorizontal = endHorizontal;
+        this.startX = startX;
+        this.endX = endX;
+        this.category = category;
+    }
+
+    get isUniform(): boolean {
+        return Math.abs(this.endMagnitude - this.magnitude) < 1e-12;
+    }
+
+    intensityAt(x: number): number {
+        const span = this.endX - this.startX;
+        if (span <= 0) return this.magnitude;
+        return this.magnitude + (this.endMagnitude - this.magnitude) * (x - this.startX) / span;
+    }
+
+    /** Axial intensity at x, linear like the vertical one */
+    horizontalAt(x: number): number {
+        const span = this.endX - this.startX;
+        if (span <= 0) return this.horizontal;
+        return this.horizontal + (this.endHorizontal - this.horizontal) * (x - this.startX) / span;
+    }
+}
+
+/**
+ * Prescribed movement of a support: vertical settlement `magnitude` (negative downward)
+ * and imposed rotation. Only restrained DOFs (or spring supports) can be moved.
+ */
+export class SupportDisplacementLoad implements LoadBase {
+    public readonly id: string;
+    public readonly type: LoadType = 'SupportDisplacement';
+    public readonly magnitude: number;
+    public readonly rotation: number;
+    public readonly x: number;
+    public readonly category: LoadCategory;
+
+    constructor(id: string, magnitude: number, x: number, rotation: number = 0, category: LoadCategory = 'Settlement') {
+        this.id = id;
+        this.magnitude = magnitude;
+        this.rotation = rotation;
+        this.x = x;
+        this.category = category;
+    }
+}
+
+/**
+ * Temperature change over [startX, endX]: a uniform `magnitude` ΔT (°C) at the centroid and a
+ * through-depth `gradient` ΔT = T_top - T_bottom across the section depth. Unrestrained, the
+ * beam takes the strain α·ΔT and the curvature -α·gradient/depth (a hotter top hogs).
+ */
+export class TemperatureLoad implements LoadBase {
+    public readonly id: string;
+    public readonly type: LoadType = 'Temperature';
+    public readonly magnitude: number;
+    public readonly gradient: number;
+    public readonly alpha: number;
+    public readonly depth: number;
     public readonly startX: number;
     public readonly endX: number;
     public readonly category: LoadCategory;
 
-    constructor(id: string, magnitude: number, startX: number, endX: number, category: LoadCategory = 'Dead') {
+    constructor(
+        id: string,
+        magnitude: number,
+        startX: number,
+        endX: number,
+        gradient: number = 0,
+        alpha: number = DEFAULT_THERMAL_EXPANSION,
+        depth: number = 0,
+        category: LoadCategory = 'Thermal'
+    ) {
         this.id = id;
         this.magnitude = magnitude;
         this.startX = startX;
         this.endX = endX;
+        this.gradient = gradient;
+        this.alpha = alpha;
+        this.depth = depth;
         this.category = category;
+
+        if (gradient !== 0 && depth <= 0) {
+            throw new Error(`Temperature load ${id} needs a positive section depth for its gradient.`);
+        }
+    }
+
+    get strain(): number {
+        return this.alpha * this.magnitude;
+    }
+
+    get curvature(): number {
+        return this.gradient === 0 ? 0 : -this.alpha * this.gradient / this.depth;
     }
 }
 
-export type Load = PointForceLoad | PointMomentLoad | DistributedForceLoad;
\ No newline at end of file
+export type Load = PointForceLoad | PointMomentLoad | DistributedForceLoad | SupportDisplacementLoad | TemperatureLoad;
\ No newline at end of file
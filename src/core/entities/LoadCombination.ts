@@ -0,0 +1,33 @@
+import { LOAD_CATEGORY_SYMBOLS, type LoadCategory } from './Load';
+
+export type LoadFactors = Partial<Record<LoadCategory, number>>;
+
+export class LoadCombination {
+    public readonly id: string;
+    public readonly name: string;
+    public readonly factors: LoadFactors;
+
+    constructor(id: string, factors: LoadFactors, name?: string) {
+        this.id = id;
+        this.factors = factors;
+        this.name = name ?? LoadCombination.describe(factors);
+    }
+
+    factorFor(category: LoadCategory): number {
+        return this.factors[category] ?? 0;
+    }
+
+    get categories(): LoadCategory[] {
+        return (Object.keys(this.factors) as LoadCategory[]).filter(c => this.factorFor(c) !== 0);
+    }
+
+    /**
+     * Builds the code-style label of a combination, e.g. { Dead: 1.2, Live: 1.6 } → "1.2D + 1.6L"
+     */
+    private static describe(factors: LoadFactors): string {
+        return (Object.entries(factors) as [LoadCategory, number][])
+            .filter(([, factor]) => factor !== 0)
+            .map(([category, factor]) => `${factor === 1 ? '' : factor}${LOAD_CATEGORY_SYMBOLS[category]}`)
+            .join(' + ');
+    }
+}
@@ -1,18 +1,27 @@
-export type SupportType = 'Free' | 'Roller' | 'Pin' | 'Fixed';
+export type SupportType = 'Free' | 'Roller' | 'Pin' | 'Fixed' | 'Spring';
+
+/** Elastic support stiffness: vertical k_y (kN/m) and rotational k_θ (kNm/rad), like the loads in kN */
+export interface SpringStiffness {
+    ky: number;
+    kTheta: number;
+}
 
 export class Node {
     public readonly id: string;
     public readonly x: number;
     public support: SupportType;
+    public spring?: SpringStiffness;
 
-    constructor(id: string, x: number, support: SupportType = 'Free') {
+    constructor(id: string, x: number, support: SupportType = 'Free', spring?: SpringStiffness) {
         this.id = id;
         this.x = x;
         this.support = support;
+        this.spring = support === 'Spring' ? spring : undefined;
     }
 
     get isRestrainedY(): boolean {
-        return this.support !== 'Free';
+        // Springs add stiffness to the DOF instead of fixing it
+        return this.support !== 'Free' && this.support !== 'Spring';
     }
 
     get isRestrainedRotation(): boolean {
@@ -23,7 +32,11 @@ export class Node {
         return this.support === 'Pin' || this.support === 'Fixed';
     }
 
+    get isSpring(): boolean {
+        return this.support === 'Spring' && this.spring !== undefined;
+    }
+
     clone(): Node {
-        return new Node(this.id, this.x, this.support);
+        return new Node(this.id, this.x, this.support, this.spring);
     }
-}
\ No newline at end of file
+}
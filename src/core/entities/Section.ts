@@ -0,0 +1,58 @@
+import { StiffnessMatrix } from '../logic/StiffnessMatrix';
+
+/**
+ * Linear depth variation along a segment: I goes from the segment's I at startX
+ * to IEnd at endX following I ∝ depthⁿ (n = exponent).
+ */
+export interface SectionTaper {
+    IEnd: number;     // Moment of Inertia at endX (m⁴)
+    exponent: number; // 1 = linear I, 2 = flange-dominated I-section, 3 = solid rectangle
+}
+
+/** Cross-section area (m²) used for the axial stiffness EA when none is given */
+export const DEFAULT_SECTION_AREA = 0.01;
+
+/** Density of structural steel (kg/m³) */
+export const STEEL_DENSITY = 7850;
+
+const GRAVITY = 9.81; // m/s²
+
+/** Self-weight per metre of beam (kN/m) of a section of area A (m²) and density (kg/m³) */
+export const selfWeightPerLength = (A: number, density: number): number => density * GRAVITY * A / 1000;
+
+/**
+ * Moduli (E, G) are given in Pa, but the solver works in kN and m like the loads, springs
+ * and foundations, so element stiffness is built from moduli in kN/m².
+ */
+export const modulusInKilonewtons = (modulus: number): number => modulus / 1000;
+
+/** Shear properties for Timoshenko beams */
+export interface ShearProperties {
+    G: number;  // Shear Modulus (Pa)
+    As: number; // Effective shear area (m²)
+}
+
+/**
+ * Beam segment with its own material and section properties.
+ * Outside every segment the beam keeps the global E and I of the input.
+ */
+export interface SectionSegment {
+    startX: number;
+    endX: number;
+    E: number; // Young's Modulus (Pa)
+    I: number; // Moment of Inertia (m⁴), at startX when tapered
+    taper?: SectionTaper;
+    A?: number;       // Cross-section area (m²), the global A when omitted
+    density?: number; // Material density (kg/m³), the global density when omitted
+}
+
+/** Segment governing x; where segments overlap the one defined last wins */
+export const segmentAt = (segments: SectionSegment[], x: number): SectionSegment | undefined =>
+    [...segments].reverse().find(s => x >= s.startX && x <= s.endX);
+
+/** Moment of inertia of a segment at x */
+export const segmentInertiaAt = (segment: SectionSegment, x: number): number => {
+    if (!segment.taper) return segment.I;
+    const xi = (x - segment.startX) / (segment.endX - segment.startX);
+    return StiffnessMatrix.taperedInertia(segment.I, segment.taper.IEnd, xi, segment.taper.exponent);
+};
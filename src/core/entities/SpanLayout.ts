@@ -0,0 +1,61 @@
+import type { SupportType } from './Node';
+
+/**
+ * Continuous beam described span by span. Supports sit on the span boundaries:
+ * the end conditions at both ends ('Free' leaves the end span as a cantilever)
+ * and the interior type between consecutive spans.
+ */
+export interface SpanLayout {
+    lengths: number[];
+    leftEnd: SupportType;
+    rightEnd: SupportType;
+    interior: SupportType;
+}
+
+/** Position inside a span: span index and distance from the span start */
+export interface SpanCoordinate {
+    span: number;
+    offset: number;
+}
+
+/** Span boundary positions, from 0 to the total length */
+export const spanBoundaries = (lengths: number[]): number[] =>
+    lengths.reduce((bounds, l) => [...bounds, bounds[bounds.length - 1] + l], [0]);
+
+/** Supports on the span boundaries; free ends get none */
+export const spanSupports = (layout: SpanLayout): { x: number, type: SupportType }[] => {
+    const bounds = spanBoundaries(layout.lengths);
+    return bounds
+        .map((x, i) => ({
+            x,
+            type: i === 0 ? layout.leftEnd : i === bounds.length - 1 ? layout.rightEnd : layout.interior
+        }))
+        .filter(s => s.type !== 'Free');
+};
+
+/** Distance within which a point counts as sitting on a span boundary (m) */
+const BOUNDARY_TOLERANCE = 1e-4;
+
+/** Span holding x; a point on a boundary belongs to the span that begins there */
+export const toSpanCoordinate = (lengths: number[], x: number): SpanCoordinate => {
+    const bounds = spanBoundaries(lengths);
+    const span = lengths.findIndex((_, i) => x < bounds[i + 1] - BOUNDARY_TOLERANCE);
+    const index = span === -1 ? lengths.length - 1 : span;
+    return { span: index, offset: x - bounds[index] };
+};
+
+/** Absolute position of a span coordinate, clamped to the span */
+export const fromSpanCoordinate = (lengths: number[], coordinate: SpanCoordinate): number =>
+    spanBoundaries(lengths)[coordinate.span] + Math.min(Math.max(coordinate.offset, 0), lengths[coordinate.span]);
+
+/**
+ * Moves x with its span when the span lengths change from `from` to `to`.
+ * Both layouts must have the same number of spans: resizing one span shifts
+ * everything downstream and clamps points that no longer fit in it. A point on
+ * a boundary moves with the support there, so ranges that fill a span keep
+ * filling it and settlements stay under their support.
+ */
+export const remapToSpans = (from: number[], to: number[], x: number): number => {
+    const boundary = spanBoundaries(from).findIndex(b => Math.abs(b - x) <= BOUNDARY_TOLERANCE);
+    return boundary === -1 ? fromSpanCoordinate(to, toSpanCoordinate(from, x)) : spanBoundaries(to)[boundary];
+};
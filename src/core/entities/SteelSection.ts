@@ -0,0 +1,17 @@
+export type SteelSectionFamily = 'W' | 'IPE' | 'HEA' | 'HEB';
+
+/**
+ * Rolled steel section bent about its strong axis, in SI units.
+ * S is the elastic section modulus (I / (depth/2)) and Z the plastic one.
+ */
+export interface SteelSection {
+    name: string;
+    family: SteelSectionFamily;
+    depth: number;  // m
+    A: number;      // m²
+    I: number;      // m⁴
+    S: number;      // m³
+    Z: number;      // m³
+    weight: number; // kg/m
+    tw: number;     // m, web thickness for shear stresses
+}
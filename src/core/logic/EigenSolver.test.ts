@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { EigenSolver } from './EigenSolver';
+
+describe('EigenSolver - Generalized symmetric eigenproblem', () => {
+
+    it('Should solve a two-mass spring chain', () => {
+        const k = 1000;
+        const m = 2;
+        const pairs = EigenSolver.generalized([[2 * k, -k], [-k, k]], [[m, 0], [0, m]]);
+
+        expect(pairs[0].value).toBeCloseTo((3 - Math.sqrt(5)) / 2 * k / m, 9);
+        expect(pairs[1].value).toBeCloseTo((3 + Math.sqrt(5)) / 2 * k / m, 9);
+        // Modo fundamental en fase, con la masa libre moviéndose más
+        expect(pairs[0].vector[0] * pairs[0].vector[1]).toBeGreaterThan(0);
+        expect(Math.abs(pairs[0].vector[1] / pairs[0].vector[0])).toBeCloseTo((1 + Math.sqrt(5)) / 2, 9);
+    });
+
+    it('Should return mass-normalised vectors for a full mass matrix', () => {
+        const K = [[6, -2, 0], [-2, 4, -1], [0, -1, 3]];
+        const M = [[2, 0.5, 0], [0.5, 1, 0.2], [0, 0.2, 1.5]];
+        const pairs = EigenSolver.generalized(K, M);
+        const times = (A: number[][], x: number[]) => A.map(row => row.reduce((sum, a, j) => sum + a * x[j], 0));
+        const dot = (a: number[], b: number[]) => a.reduce((sum, ai, i) => sum + ai * b[i], 0);
+
+        pairs.forEach(({ value, vector }, i) => {
+            const residual = times(K, vector).map((kx, j) => kx - value * times(M, vector)[j]);
+            expect(Math.max(...residual.map(Math.abs))).toBeLessThan(1e-10);
+            expect(dot(vector, times(M, vector))).toBeCloseTo(1, 10);
+            // M-ortogonalidad entre modos distintos
+            if (i > 0) expect(dot(pairs[0].vector, times(M, vector))).toBeCloseTo(0, 10);
+        });
+        expect(pairs.map(p => p.value)).toEqual([...pairs.map(p => p.value)].sort((a, b) => a - b));
+        expect(() => EigenSolver.generalized(K, [[1, 0, 0], [0, -1, 0], [0, 0, 1]])).toThrow();
+    });
+});
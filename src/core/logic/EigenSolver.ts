@@ -0,0 +1,130 @@
+export interface EigenPair {
+    value: number;
+    vector: number[];
+}
+
+export class EigenSolver {
+    /** Cyclic Jacobi sweeps before giving up; convergence is quadratic, a dozen usually suffice */
+    private static readonly MAX_SWEEPS = 50;
+    /** Off-diagonal norm, relative to the whole matrix, at which the rotations stop */
+    private static readonly TOLERANCE = 1e-13;
+
+    /**
+     * Generalized symmetric eigenproblem K·φ = λ·M·φ with M positive definite.
+     * The Cholesky factor M = L·Lᵀ turns it into the standard problem L⁻¹·K·L⁻ᵀ·y = λ·y,
+     * solved by cyclic Jacobi rotations; φ = L⁻ᵀ·y comes out mass-normalised (φᵀ·M·φ = 1).
+     * @returns Eigenpairs in ascending order of λ
+     */
+    static generalized(K: number[][], M: number[][]): EigenPair[] {
+        const n = K.length;
+        if (M.length !== n) throw new Error('Stiffness and mass matrices must have the same size.');
+        if (n === 0) return [];
+
+        const L = EigenSolver.cholesky(M);
+        // C = L⁻¹·K·L⁻ᵀ = L⁻¹·(L⁻¹·K)ᵀ, K being symmetric
+        const X = EigenSolver.forwardSolve(L, K);
+        const C = EigenSolver.forwardSolve(L, X[0].map((_, j) => X.map(row => row[j])));
+        const { values, vectors } = EigenSolver.symmetric(C);
+
+        return values
+            .map((value, i) => ({
+                value,
+                vector: EigenSolver.backSolveTransposed(L, vectors.map(row => row[i]))
+            }))
+            .sort((a, b) => a.value - b.value);
+    }
+
+    /** Lower triangular L with M = L·Lᵀ; throws when M is not positive definite */
+    static cholesky(M: number[][]): number[][] {
+        const n = M.length;
+        const L = Array.from({ length: n }, () => new Array(n).fill(0));
+        for (let i = 0; i < n; i++) {
+            for (let j = 0; j <= i; j++) {
+                let sum = M[i][j];
+                for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+                if (i === j) {
+                    if (sum <= 0) throw new Error('Mass matrix is not positive definite.');
+                    L[i][i] = Math.sqrt(sum);
+                } else {
+                    L[i][j] = sum / L[j][j];
+                }
+            }
+        }
+        return L;
+    }
+
+    /**
+     * Eigenvalues and eigenvectors (as columns) of a symmetric matrix by cyclic Jacobi rotations.
+     * Robust for the small dense matrices of a beam model and exact to round-off.
+     */
+    static symmetric(A: number[][]): { values: number[], vectors: number[][] } {
+        const n = A.length;
+        const a = A.map(row => [...row]);
+        const v = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j): number => i === j ? 1 : 0));
+        const norm = a.reduce((sum, row) => sum + row.reduce((s, x) => s + x * x, 0), 0);
+
+        for (let sweep = 0; sweep < EigenSolver.MAX_SWEEPS; sweep++) {
+            let off = 0;
+            for (let p = 0; p < n; p++) for (let q = p + 1; q < n; q++) off += 2 * a[p][q] * a[p][q];
+            if (off <= EigenSolver.TOLERANCE ** 2 * norm) break;
+
+            for (let p = 0; p < n - 1; p++) {
+                for (let q = p + 1; q < n; q++) {
+                    if (a[p][q] === 0) continue;
+                    // Rotation angle that zeroes a[p][q]: t = tan θ, the smaller root
+                    const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+                    const t = (theta >= 0 ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+                    const c = 1 / Math.sqrt(t * t + 1);
+                    const s = t * c;
+
+                    for (let k = 0; k < n; k++) {
+                        const akp = a[k][p];
+                        const akq = a[k][q];
+                        a[k][p] = c * akp - s * akq;
+                        a[k][q] = s * akp + c * akq;
+                    }
+                    for (let k = 0; k < n; k++) {
+                        const apk = a[p][k];
+                        const aqk = a[q][k];
+                        a[p][k] = c * apk - s * aqk;
+                        a[q][k] = s * apk + c * aqk;
+                    }
+                    for (let k = 0; k < n; k++) {
+                        const vkp = v[k][p];
+                        const vkq = v[k][q];
+                        v[k][p] = c * vkp - s * vkq;
+                        v[k][q] = s * vkp + c * vkq;
+                    }
+                }
+            }
+        }
+
+        return { values: a.map((row, i) => row[i]), vectors: v };
+    }
+
+    /** Solves L·X = B column by column, L lower triangular */
+    private static forwardSolve(L: number[][], B: number[][]): number[][] {
+        const n = L.length;
+        const X = B.map(row => [...row]);
+        for (let j = 0; j < B[0].length; j++) {
+            for (let i = 0; i < n; i++) {
+                let sum = X[i][j];
+                for (let k = 0; k < i; k++) sum -= L[i][k] * X[k][j];
+                X[i][j] = sum / L[i][i];
+            }
+        }
+        return X;
+    }
+
+    /** Solves Lᵀ·x = y, L lower triangular */
+    private static backSolveTransposed(L: number[][], y: number[]): number[] {
+        const n = L.length;
+        const x = [...y];
+        for (let i = n - 1; i >= 0; i--) {
+            let sum = x[i];
+            for (let k = i + 1; k < n; k++) sum -= L[k][i] * x[k];
+            x[i] = sum / L[i][i];
+        }
+        return x;
+    }
+}
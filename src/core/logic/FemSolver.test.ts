@@ -0,0 +1,368 @@
+import { describe, it, expect } from 'vitest';
+import { FemSolver } from './FemSolver';
+import { Node } from '../entities/Node';
+import { Element } from '../entities/Element';
+import { PointForceLoad, PointMomentLoad, DistributedForceLoad, TemperatureLoad } from '../entities/Load';
+import { BeamAnalysisService } from '../services/BeamAnalysisService';
+import { StiffnessMatrix } from './StiffnessMatrix';
+import { DiagramCalculator } from '../services/DiagramCalculator';
+
+describe('FemSolver - Loads inside elements', () => {
+    const length = 6;
+    const E = 200e9;
+    const I = 0.0001;
+
+    // Un único elemento entre apoyos: las cargas no coinciden con ningún nodo
+    const singleElement = (start: 'Pin' | 'Fixed', end: 'Roller' | 'Fixed') => {
+        const nodes = [new Node('n0', 0, start), new Node('n1', length, end)];
+        const elements = [new Element('e0', nodes[0], nodes[1], E, I)];
+        return { nodes, elements };
+    };
+
+    it('Should apply a point load between nodes with consistent nodal loads', () => {
+        const { nodes, elements } = singleElement('Pin', 'Roller');
+        const P = -30;
+        const a = 2;
+        const b = length - a;
+
+        const results = FemSolver.solve(nodes, elements, [new PointForceLoad('p', P, a, 'Dead')]);
+
+        // Reacciones Pb/L y Pa/L
+        expect(results.reactions['n0'].fy).toBeCloseTo(-P * b / length, 9);
+        expect(results.reactions['n1'].fy).toBeCloseTo(-P * a / length, 9);
+        // Giro exacto en el apoyo izquierdo: θA = P·a·b·(L + b) / (6EIL)
+        expect(results.displacements['n0'].rotation).toBeCloseTo(P * a * b * (length + b) / (6 * E * I * length), 15);
+    });
+
+    it('Should match the refined mesh for partial distributed loads and moments', () => {
+        const { nodes, elements } = singleElement('Fixed', 'Fixed');
+        const loads = [
+            new DistributedForceLoad('q', -10, 1, 4, 'Dead', -4),
+            new PointMomentLoad('m', 15, 5, 'Dead')
+        ];
+
+        const coarse = FemSolver.solve(nodes, elements, loads);
+        const refined = BeamAnalysisService.analyze({
+            length, E, I,
+            supports: [{ x: 0, type: 'Fixed' }, { x: length, type: 'Fixed' }],
+            loads: [
+                { id: 'q', type: 'DistributedForce', magnitude: -10, endMagnitude: -4, startX: 1, endX: 4, category: 'Dead' },
+                { id: 'm', type: 'PointMoment', magnitude: 15, x: 5, category: 'Dead' }
+            ]
+        });
+
+        const refinedReactions = Object.values(refined.reactions);
+        const refinedEnd = refinedReactions[refinedReactions.length - 1];
+        expect(coarse.reactions['n0'].fy).toBeCloseTo(refinedReactions[0].fy, 9);
+        expect(coarse.reactions['n0'].m).toBeCloseTo(refinedReactions[0].m, 9);
+        expect(coarse.reactions['n1'].fy).toBeCloseTo(refinedEnd.fy, 9);
+        expect(coarse.reactions['n1'].m).toBeCloseTo(refinedEnd.m, 9);
+    });
+
+    it('Should restrain a partly heated element like the mesh split at the heated range', () => {
+        // Módulo en kN/m², como lo construye BeamAnalysisService
+        const nodes = [new Node('n0', 0, 'Fixed'), new Node('n1', length, 'Fixed')];
+        const elements = [new Element('e0', nodes[0], nodes[1], E / 1000, I)];
+        const coarse = FemSolver.solve(nodes, elements, [new TemperatureLoad('t', 20, 1, 4, 15, 12e-6, 0.4)]);
+        const refined = BeamAnalysisService.analyze({
+            length, E, I,
+            supports: [{ x: 0, type: 'Fixed' }, { x: length, type: 'Fixed' }],
+            loads: [{ id: 't', type: 'Temperature', magnitude: 20, gradient: 15, alpha: 12e-6, depth: 0.4, startX: 1, endX: 4 }]
+        });
+
+        const refinedReactions = Object.values(refined.reactions);
+        const refinedEnd = refinedReactions[refinedReactions.length - 1];
+        // Sólo se dilatan 3 de los 6 m: N = -EA·α·ΔT/2
+        expect(coarse.reactions['n0'].fx).toBeCloseTo(-refinedEnd.fx, 9);
+        expect(coarse.reactions['n1'].fx).toBeCloseTo(-200e6 * 0.01 * 12e-6 * 20 / 2, 6);
+        expect(coarse.reactions['n0'].fy).toBeCloseTo(refinedReactions[0].fy, 9);
+        expect(coarse.reactions['n0'].m).toBeCloseTo(refinedReactions[0].m, 9);
+        expect(coarse.reactions['n1'].fy).toBeCloseTo(refinedEnd.fy, 9);
+        expect(coarse.reactions['n1'].m).toBeCloseTo(refinedEnd.m, 9);
+    });
+
+    it('Should reject loads that lie outside the beam instead of dropping them', () => {
+        const { nodes, elements } = singleElement('Pin', 'Roller');
+        expect(() => FemSolver.solve(nodes, elements, [new PointForceLoad('p', -10, length + 1, 'Dead')]))
+            .toThrow(/outside the beam/);
+    });
+});
+
+describe('FemSolver - Spring supports', () => {
+    const length = 4;
+    const E = 200e9;
+    const I = 0.0001;
+    const EI = E * I;
+
+    it('Should add the vertical spring stiffness and report the spring force', () => {
+        // Voladizo con resorte en la punta: v = P / (k + 3EI/L³)
+        const k = 3 * EI / length ** 3;
+        const P = -12;
+        const nodes = [new Node('n0', 0, 'Fixed'), new Node('n1', length, 'Spring', { ky: k, kTheta: 0 })];
+        const elements = [new Element('e0', nodes[0], nodes[1], E, I)];
+
+        const results = FemSolver.solve(nodes, elements, [new PointForceLoad('p', P, length, 'Dead')]);
+
+        const tip = results.displacements['n1'].y;
+        expect(tip).toBeCloseTo(P / (k + 3 * EI / length ** 3), 12);
+        // Con k = 3EI/L³ el resorte toma la mitad de la carga
+        expect(results.reactions['n1'].fy).toBeCloseTo(-P / 2, 9);
+        expect(results.reactions['n0'].fy + results.reactions['n1'].fy).toBeCloseTo(-P, 9);
+    });
+
+    it('Should share the load with a spring given in kN/m like the workspace does', () => {
+        // E en Pa y k en kN/m: el resorte toma k/(k + 3EI/L³) de la carga en la punta
+        const k = 10000;
+        const P = -50;
+        const input = {
+            length, E, I,
+            supports: [{ x: 0, type: 'Fixed' as const }, { x: length, type: 'Spring' as const, spring: { ky: k, kTheta: 0 } }],
+            loads: [{ id: 'p', type: 'PointForce' as const, magnitude: P, x: length, category: 'Dead' as const }]
+        };
+        const { nodes } = BeamAnalysisService.generateMesh(input);
+        const results = BeamAnalysisService.analyze(input);
+        const tip = nodes.find(n => n.x === length)!;
+
+        const flexural = 3 * (E / 1000) * I / length ** 3;
+        expect(results.reactions[tip.id].fy).toBeCloseTo(-P * k / (k + flexural), 9);
+        expect(results.displacements[tip.id].y).toBeCloseTo(P / (k + flexural), 12);
+    });
+
+    it('Should model a semi-rigid connection with a rotational spring', () => {
+        // Voladizo con apoyo elástico en la base: θ0 = -M / k_θ
+        const kTheta = 5000;
+        const ky = 1e12;
+        const P = -10;
+        const nodes = [new Node('n0', 0, 'Spring', { ky, kTheta }), new Node('n1', length, 'Free')];
+        const elements = [new Element('e0', nodes[0], nodes[1], E, I)];
+
+        const results = FemSolver.solve(nodes, elements, [new PointForceLoad('p', P, length, 'Dead')]);
+
+        expect(results.displacements['n0'].rotation).toBeCloseTo(P * length / kTheta, 9);
+        expect(results.reactions['n0'].m).toBeCloseTo(-P * length, 6);
+        expect(results.reactions['n0'].fy).toBeCloseTo(-P, 6);
+    });
+});
+
+describe('FemSolver - Tapered elements', () => {
+    const length = 5;
+    const E = 200e9;
+    const I1 = 0.0004;
+    const I2 = 0.0001;
+    const P = -25;
+
+    // Voladizo con I lineal entre I₁ (empotramiento) e I₂ (punta): I(x) = I₁ + c·x
+    const c = (I2 - I1) / length;
+
+    it('Should match the closed-form tip deflection and rotation of a tapered cantilever', () => {
+        const nodes = [new Node('n0', 0, 'Fixed'), new Node('n1', length, 'Free')];
+        const elements = [new Element('e0', nodes[0], nodes[1], E, I1, false, false, 0, { IEnd: I2, exponent: 1 })];
+
+        const results = FemSolver.solve(nodes, elements, [new PointForceLoad('p', P, length)]);
+
+        // δ = P/(E·c³)·[I₂²·ln(I₂/I₁) - 2I₂(I₂ - I₁) + (I₂² - I₁²)/2]
+        const deflection = (P / (E * c ** 3)) * (I2 ** 2 * Math.log(I2 / I1) - 2 * I2 * (I2 - I1) + (I2 ** 2 - I1 ** 2) / 2);
+        // θ = P/(E·c²)·[I₂·ln(I₂/I₁) - (I₂ - I₁)]
+        const rotation = (P / (E * c ** 2)) * (I2 * Math.log(I2 / I1) - (I2 - I1));
+
+        expect(results.displacements['n1'].y / deflection).toBeCloseTo(1, 8);
+        expect(results.displacements['n1'].rotation / rotation).toBeCloseTo(1, 8);
+        expect(results.reactions['n0'].m).toBeCloseTo(-P * length, 9);
+    });
+
+    it('Should reduce to the prismatic element when both ends are equal', () => {
+        const tapered = StiffnessMatrix.tapered(E, I1, I1, length, 3);
+        const prismatic = StiffnessMatrix.beam2D(E, I1, length);
+
+        tapered.forEach((row, i) => row.forEach((value, j) => {
+            expect(value / prismatic[i][j]).toBeCloseTo(1, 10);
+        }));
+    });
+
+    it('Should give the same fixed-end actions as a finer mesh of tapered elements', () => {
+        // Viga biempotrada de canto variable (n = 3) con carga trapezoidal parcial y carga puntual
+        const input = {
+            length, E, I: I1,
+            supports: [{ x: 0, type: 'Fixed' as const }, { x: length, type: 'Fixed' as const }],
+            loads: [
+                { id: 'q', type: 'DistributedForce' as const, magnitude: -10, endMagnitude: -30, startX: 0.5, endX: 4, category: 'Dead' as const },
+                { id: 'p', type: 'PointForce' as const, magnitude: -15, x: 3.2, category: 'Dead' as const }
+            ],
+            segments: [{ startX: 0, endX: length, E, I: I1, taper: { IEnd: I2, exponent: 3 } }]
+        };
+
+        const nodes = [new Node('n0', 0, 'Fixed'), new Node('n1', length, 'Fixed')];
+        const elements = [new Element('e0', nodes[0], nodes[1], E, I1, false, false, 0, { IEnd: I2, exponent: 3 })];
+        const single = FemSolver.solve(nodes, elements, [
+            new DistributedForceLoad('q', -10, 0.5, 4, 'Dead', -30),
+            new PointForceLoad('p', -15, 3.2)
+        ]);
+        const meshed = BeamAnalysisService.analyze(input);
+
+        const meshedReactions = Object.values(meshed.reactions);
+        const meshedEnd = meshedReactions[meshedReactions.length - 1];
+        expect(single.reactions['n0'].fy).toBeCloseTo(meshedReactions[0].fy, 6);
+        expect(single.reactions['n0'].m).toBeCloseTo(meshedReactions[0].m, 6);
+        expect(single.reactions['n1'].fy).toBeCloseTo(meshedEnd.fy, 6);
+        expect(single.reactions['n1'].m).toBeCloseTo(meshedEnd.m, 6);
+    });
+});
+
+describe('FemSolver - Timoshenko elements', () => {
+    const length = 2;
+    const E = 200e9;
+    const I = 0.0004;
+    const G = 77e9;
+    const As = 0.004;
+    const P = -50;
+    // Con cargas en kN el solver trabaja con los módulos en kN/m²
+    const [Ek, Gk] = [E / 1000, G / 1000];
+
+    // Voladizo corto y peraltado: la deformación por cortante no es despreciable
+    const input = {
+        length, E, I, G, As,
+        theory: 'Timoshenko' as const,
+        supports: [{ x: 0, type: 'Fixed' as const }],
+        loads: [{ id: 'p', type: 'PointForce' as const, magnitude: P, x: length, category: 'Dead' as const }]
+    };
+
+    it('Should add the shear deflection PL/(GAs) to the bending deflection', () => {
+        const { nodes } = BeamAnalysisService.generateMesh(input);
+        const results = BeamAnalysisService.analyze(input);
+        const tip = nodes.find(n => n.x === length)!;
+
+        expect(results.displacements[tip.id].y).toBeCloseTo(P * length ** 3 / (3 * Ek * I) + P * length / (Gk * As), 12);
+        // El giro en la punta no depende del cortante: PL²/(2EI)
+        expect(results.displacements[tip.id].rotation).toBeCloseTo(P * length ** 2 / (2 * Ek * I), 12);
+    });
+
+    it('Should interpolate interior deflections with the Timoshenko shape functions', () => {
+        const { nodes, elements } = BeamAnalysisService.generateMesh(input);
+        const results = BeamAnalysisService.analyze(input);
+        const diagrams = DiagramCalculator.calculateDiagrams(
+            length, nodes, [new PointForceLoad('p', P, length)], results.reactions, results.displacements,
+            10, 'dead', undefined, undefined, [], elements
+        );
+
+        // v(x) = P·x²(3L - x)/(6EI) + P·x/(GAs)
+        diagrams.deformation.forEach(({ x, value }) => {
+            expect(value).toBeCloseTo(P * x * x * (3 * length - x) / (6 * Ek * I) + P * x / (Gk * As), 12);
+        });
+    });
+
+    it('Should reject Timoshenko analysis without shear properties', () => {
+        expect(() => BeamAnalysisService.analyze({ ...input, As: 0 })).toThrow(/shear modulus G and shear area As/);
+    });
+});
+
+describe('FemSolver - Axial DOF', () => {
+    const length = 6;
+    const E = 200e9;
+    const I = 0.0001;
+    const A = 0.008;
+    const a = 2;
+    const EA = E / 1000 * A; // kN
+
+    const beam = (loads: { magnitude: number, horizontal: number }[], right: 'Roller' | 'Fixed' = 'Roller') => ({
+        length, E, I, A,
+        supports: [{ x: 0, type: right === 'Fixed' ? 'Fixed' as const : 'Pin' as const }, { x: length, type: right }],
+        loads: loads.map((l, i) => ({ id: `p${i}`, type: 'PointForce' as const, x: a, category: 'Dead' as const, ...l }))
+    });
+
+    it('Should take a horizontal load at the pin and stretch the beam up to it', () => {
+        const H = 40;
+        const input = beam([{ magnitude: 0, horizontal: H }]);
+        const { nodes } = BeamAnalysisService.generateMesh(input);
+        const results = BeamAnalysisService.analyze(input);
+        const [pin, load, roller] = [0, a, length].map(x => nodes.find(n => n.x === x)!);
+
+        expect(results.reactions[pin.id].fx).toBeCloseTo(-H, 9);
+        expect(results.reactions[roller.id].fx).toBe(0);
+        // u = H·a/(EA), y el tramo descargado se traslada como sólido rígido
+        expect(results.displacements[load.id].x).toBeCloseTo(H * a / EA, 15);
+        expect(results.displacements[roller.id].x).toBeCloseTo(H * a / EA, 15);
+        expect(results.displacements[load.id].y).toBeCloseTo(0, 15);
+    });
+
+    it('Should split an inclined load into bending and axial effects', () => {
+        const P = 50;
+        const angle = Math.PI / 6;
+        const V = -P * Math.cos(angle);
+        const H = P * Math.sin(angle);
+        const input = beam([{ magnitude: V, horizontal: H }]);
+        const { nodes } = BeamAnalysisService.generateMesh(input);
+        const results = BeamAnalysisService.analyze(input);
+        const pin = nodes.find(n => n.x === 0)!;
+
+        expect(results.reactions[pin.id].fy).toBeCloseTo(-V * (length - a) / length, 9);
+        expect(results.reactions[pin.id].fx).toBeCloseTo(-H, 9);
+
+        // Tracción H antes de la carga y nula después
+        const diagrams = DiagramCalculator.calculateDiagrams(
+            length, nodes, [new PointForceLoad('p0', V, a, 'Dead', H)], results.reactions, results.displacements, 60, 'dead'
+        );
+        diagrams.axialForce.forEach(({ x, value }) => {
+            if (x < a - 1e-6) expect(value).toBeCloseTo(H, 9);
+            if (x > a + 1e-6) expect(value).toBeCloseTo(0, 9);
+        });
+    });
+
+    it('Should share a horizontal load between two fixed ends by axial stiffness', () => {
+        const H = 30;
+        const results = BeamAnalysisService.analyze(beam([{ magnitude: 0, horizontal: H }], 'Fixed'));
+        const reactions = Object.values(results.reactions);
+
+        // Rigideces EA/a y EA/(L - a) en paralelo
+        expect(reactions[0].fx).toBeCloseTo(-H * (length - a) / length, 9);
+        expect(reactions[1].fx).toBeCloseTo(-H * a / length, 9);
+    });
+
+    it('Should carry the axial component of an inclined distributed load', () => {
+        // Carga de 10 kN/m a 30° de la vertical sobre toda la viga: h = 5 kN/m hacia +x
+        const w = -10 * Math.cos(Math.PI / 6);
+        const h = 10 * Math.sin(Math.PI / 6);
+        const input = {
+            length, E, I, A,
+            supports: [{ x: 0, type: 'Pin' as const }, { x: length, type: 'Roller' as const }],
+            loads: [{ id: 'q', type: 'DistributedForce' as const, magnitude: w, horizontal: h, startX: 0, endX: length, category: 'Dead' as const }]
+        };
+        const { nodes } = BeamAnalysisService.generateMesh(input);
+        const results = BeamAnalysisService.analyze(input);
+        const [pin, roller] = [0, length].map(x => nodes.find(n => n.x === x)!);
+
+        expect(results.reactions[pin.id].fx).toBeCloseTo(-h * length, 9);
+        expect(results.reactions[pin.id].fy).toBeCloseTo(-w * length / 2, 9);
+        // El rodillo se desplaza hL²/(2EA)
+        expect(results.displacements[roller.id].x).toBeCloseTo(h * length ** 2 / (2 * EA), 15);
+
+        // Tracción h·(L - x): máxima en el pin y nula en el rodillo
+        const diagrams = DiagramCalculator.calculateDiagrams(
+            length, nodes, [new DistributedForceLoad('q', w, 0, length, 'Dead', w, h)], results.reactions, results.displacements, 60, 'dead'
+        );
+        diagrams.axialForce.forEach(({ x, value }) => expect(value).toBeCloseTo(h * (length - x), 9));
+    });
+
+    it('Should give the fixed-end axial reactions of a partial varying load inside one element', () => {
+        const nodes = [new Node('n0', 0, 'Fixed'), new Node('n1', length, 'Fixed')];
+        const elements = [new Element('e0', nodes[0], nodes[1], E / 1000, I, false, false, 0, undefined, undefined, A)];
+        const load = new DistributedForceLoad('q', 0, 1, 4, 'Dead', 0, 2, 8);
+
+        const results = FemSolver.solve(nodes, elements, [load]);
+
+        // Barra biempotrada: R1 = -∫p·(1 - x/L) y R2 = -∫p·x/L, con p lineal de 2 a 8 kN/m en [1, 4]
+        const total = (2 + 8) / 2 * 3;
+        const centroid = 1 + 3 * (2 + 2 * 8) / (3 * (2 + 8));
+        expect(results.reactions['n0'].fx).toBeCloseTo(-total * (1 - centroid / length), 9);
+        expect(results.reactions['n1'].fx).toBeCloseTo(-total * centroid / length, 9);
+        expect(results.reactions['n0'].fy).toBeCloseTo(0, 9);
+    });
+
+    it('Should reject horizontal loads when no support restrains horizontal movement', () => {
+        const nodes = [new Node('n0', 0, 'Roller'), new Node('n1', length, 'Roller')];
+        const elements = [new Element('e0', nodes[0], nodes[1], E, I)];
+
+        expect(() => FemSolver.solve(nodes, elements, [new PointForceLoad('p', 0, a, 'Dead', 10)]))
+            .toThrow(/no support restrains horizontal movement/);
+        expect(() => FemSolver.solve(nodes, elements, [new PointForceLoad('p', -10, a)])).not.toThrow();
+    });
+});
@@ -3,21 +3,46 @@ import {
     add, 
     multiply, 
     lusolve, 
+    lup,
     subset, 
     index, 
     zeros, 
-    det,
     Matrix
 } from 'mathjs';
 import { Node } from '../entities/Node';
 import { Element } from '../entities/Element';
-import type { Load } from '../entities/Load';
+import type { Load, PointForceLoad, SupportDisplacementLoad, TemperatureLoad } from '../entities/Load';
 
 export interface AnalysisResults {
-    displacements: Record<string, { y: number, rotation: number }>;
-    reactions: Record<string, { fy: number, m: number }>;
+    // hingeRotation: rotation just left of an internal hinge, when the node has one
+    displacements: Record<string, { x: number, y: number, rotation: number, hingeRotation?: number }>;
+    reactions: Record<string, { fx: number, fy: number, m: number }>;
 }
 
+// Nodal DOFs in global order: axial displacement u, deflection v and rotation θ
+const DOFS_PER_NODE = 3;
+const uDof = (i: number) => i * DOFS_PER_NODE;
+const vDof = (i: number) => i * DOFS_PER_NODE + 1;
+const thetaDof = (i: number) => i * DOFS_PER_NODE + 2;
+
+/**
+ * Stiffness of a model assembled, partitioned and factored once, so further load cases
+ * cost one forward and back substitution each (influence lines, moving loads).
+ */
+export interface FactoredSystem {
+    nodes: Node[];
+    elements: Element[];
+    K: Matrix;
+    freeDofs: number[];
+    axiallyRestrained: boolean;
+    factors: LUDecomposition | null;   // LU of K_ff, null when every DOF is restrained
+}
+
+type LUDecomposition = ReturnType<typeof lup>;
+
+/** Smallest LU pivot, relative to the largest, of a stable stiffness matrix */
+const SINGULAR_PIVOT = 1e-10;
+
 export class FemSolver {
 
     public static solve(
@@ -26,33 +51,30 @@ export class FemSolver {
         loads: Load[]
     ): AnalysisResults {
         console.log('🧮 FemSolver.solve() - Starting FEM analysis...');
-        console.log('   Total DOFs:', nodes.length * 2, `(${nodes.length} nodes × 2 DOFs/node)`);
-        console.log('   Free DOFs:', nodes.filter(n => !n.isRestrainedY).length * 2 + nodes.filter(n => !n.isRestrainedRotation).length, 'DOFs');
-        console.log('   Fixed DOFs:', nodes.filter(n => n.isRestrainedY).length + nodes.filter(n => n.isRestrainedRotation).length, 'DOFs');
-        
-        const nodeIndexMap = new Map<string, number>();
-        nodes.forEach((node, i) => nodeIndexMap.set(node.id, i));
+        const restrainedCount = nodes.filter(n => n.isRestrainedX).length + nodes.filter(n => n.isRestrainedY).length + nodes.filter(n => n.isRestrainedRotation).length;
+        console.log('   Total DOFs:', nodes.length * DOFS_PER_NODE, `(${nodes.length} nodes × ${DOFS_PER_NODE} DOFs/node)`);
+        console.log('   Free DOFs:', nodes.length * DOFS_PER_NODE - restrainedCount, 'DOFs');
+        console.log('   Fixed DOFs:', restrainedCount, 'DOFs');
 
-        const totalDofs = nodes.length * 2;
-        
-        let K = zeros(totalDofs, totalDofs, 'sparse') as Matrix; 
-        let F = zeros(totalDofs, 1) as Matrix; 
+        const system = FemSolver.factor(nodes, elements, true);
+        return FemSolver.solveFactored(system, loads, true);
+    }
+
+    /**
+     * Assembles the stiffness with the springs, partitions the DOFs and factors K_ff.
+     * Throws when the structure is a mechanism.
+     */
+    public static factor(nodes: Node[], elements: Element[], verbose: boolean = false): FactoredSystem {
+        const totalDofs = nodes.length * DOFS_PER_NODE;
+        const K = zeros(totalDofs, totalDofs, 'sparse') as Matrix; 
 
         elements.forEach(el => {
-            const idxStart = nodeIndexMap.get(el.startNode.id)!;
-            const idxEnd = nodeIndexMap.get(el.endNode.id)!;
-
-            const dofIndices = [
-                idxStart * 2,     
-                idxStart * 2 + 1, 
-                idxEnd * 2,       
-                idxEnd * 2 + 1    
-            ];
+            const dofIndices = FemSolver.elementDofs(nodes, el);
 
             const kLocal = el.stiffnessMatrix; 
 
-            for (let i = 0; i < 4; i++) {
-                for (let j = 0; j < 4; j++) {
+            for (let i = 0; i < dofIndices.length; i++) {
+                for (let j = 0; j < dofIndices.length; j++) {
                     const row = dofIndices[i];
                     const col = dofIndices[j];
                     
@@ -62,113 +84,158 @@ export class FemSolver {
             }
         });
 
-        loads.forEach(load => {
-            if (load.type === 'PointForce' || load.type === 'PointMoment') {
-                const pointLoad = load as { x: number, magnitude: number }; 
-                
-                const node = nodes.find(n => Math.abs(n.x - pointLoad.x) < 1e-3);
-                
-                if (node) {
-                    const idx = nodeIndexMap.get(node.id)!;
-                    const dofIndex = load.type === 'PointForce' 
-                        ? idx * 2
-                        : idx * 2 + 1;
-                    
-                    const currentF = F.get([dofIndex, 0]);
-                    F.set([dofIndex, 0], currentF + load.magnitude); 
-                }
-            } else if (load.type === 'DistributedForce') {
-                // Convert distributed loads to equivalent nodal loads using Fixed-End Actions
-                // Reference: Structural Analysis textbooks (Hibbeler, Kassimali)
-                const distLoad = load as { startX: number, endX: number, magnitude: number };
-                const w = distLoad.magnitude;
-                const L = distLoad.endX - distLoad.startX;
-                
-                if (L <= 1e-6) return;
-                
-                const startNode = nodes.find(n => Math.abs(n.x - distLoad.startX) < 1e-3);
-                const endNode = nodes.find(n => Math.abs(n.x - distLoad.endX) < 1e-3);
-                
-                if (!startNode || !endNode) {
-                    console.warn(`⚠️  Distributed load nodes not found: startX=${distLoad.startX}, endX=${distLoad.endX}`);
-                    return;
-                }
-                
-                // Fixed-End Actions for uniformly distributed load: V = wL/2, M = ±wL²/12
-                const V_start = (w * L) / 2;
-                const V_end = (w * L) / 2;
-                const M_start = (w * L * L) / 12;
-                const M_end = -(w * L * L) / 12;
-                
-                const idxStart = nodeIndexMap.get(startNode.id)!;
-                const currentFyStart = F.get([idxStart * 2, 0]);
-                const currentMzStart = F.get([idxStart * 2 + 1, 0]);
-                F.set([idxStart * 2, 0], currentFyStart + V_start);
-                F.set([idxStart * 2 + 1, 0], currentMzStart + M_start);
-                
-                const idxEnd = nodeIndexMap.get(endNode.id)!;
-                const currentFyEnd = F.get([idxEnd * 2, 0]);
-                const currentMzEnd = F.get([idxEnd * 2 + 1, 0]);
-                F.set([idxEnd * 2, 0], currentFyEnd + V_end);
-                F.set([idxEnd * 2 + 1, 0], currentMzEnd + M_end);
-                
-                console.log(`   📐 Distributed load converted: w=${w.toFixed(2)} kN/m, L=${L.toFixed(3)} m`);
-                console.log(`      → V_start=${V_start.toFixed(2)} kN, M_start=${M_start.toFixed(2)} kNm`);
-                console.log(`      → V_end=${V_end.toFixed(2)} kN, M_end=${M_end.toFixed(2)} kNm`);
-            }
+        // Elastic supports: spring stiffness goes straight onto the diagonal of the free DOFs
+        nodes.forEach((node, i) => {
+            if (!node.isSpring) return;
+            const { ky, kTheta } = node.spring!;
+            K.set([vDof(i), vDof(i)], K.get([vDof(i), vDof(i)]) + ky);
+            K.set([thetaDof(i), thetaDof(i)], K.get([thetaDof(i), thetaDof(i)]) + kTheta);
+            if (verbose) console.log(`   🌀 Spring support at x=${node.x.toFixed(3)} m: k_y=${ky}, k_θ=${kTheta}`);
         });
 
+        // Without any horizontal restraint the axial DOFs float. That is harmless when the
+        // horizontal loads balance out, so the first node is held to remove the rigid-body drift.
+        const axiallyRestrained = nodes.some(n => n.isRestrainedX);
         const freeDofs: number[] = [];
-        const fixedDofs: number[] = [];
-
         nodes.forEach((node, i) => {
-            if (node.isRestrainedY) fixedDofs.push(i * 2);
-            else freeDofs.push(i * 2);
+            if (!node.isRestrainedX && (axiallyRestrained || i !== 0)) freeDofs.push(uDof(i));
+            if (!node.isRestrainedY) freeDofs.push(vDof(i));
+            if (!node.isRestrainedRotation) freeDofs.push(thetaDof(i));
+        });
+
+        if (freeDofs.length === 0) {
+            return { nodes, elements, K, freeDofs, axiallyRestrained, factors: null };
+        }
 
-            if (node.isRestrainedRotation) fixedDofs.push(i * 2 + 1);
-            else freeDofs.push(i * 2 + 1);
+        // A mechanism shows up as a vanishing pivot of the factored K_ff
+        const factors = lup(subset(K, index(freeDofs, freeDofs)) as Matrix);
+        const pivots = freeDofs.map((_, i) => Math.abs((factors.U as Matrix).get([i, i])));
+        if (Math.min(...pivots) <= SINGULAR_PIVOT * Math.max(...pivots)) {
+            console.error('Singular Matrix or Solver Error: stiffness matrix is singular');
+            throw new Error("Structure is unstable or creates a mechanism.");
+        }
+        return { nodes, elements, K, freeDofs, axiallyRestrained, factors };
+    }
+
+    /** Solves one load case on a factored system, support movements included */
+    public static solveFactored(system: FactoredSystem, loads: Load[], verbose: boolean = false): AnalysisResults {
+        const { nodes, elements, K, freeDofs, axiallyRestrained, factors } = system;
+        const totalDofs = nodes.length * DOFS_PER_NODE;
+        const F = zeros(totalDofs, 1) as Matrix; 
+
+        // Fixed-end actions per element, kept unreleased to recover hinge rotations later
+        const elementLoads = new Map<string, number[]>();
+        elements.forEach(el => elementLoads.set(el.id, [0, 0, 0, 0, 0, 0]));
+
+        loads.forEach(load => {
+            // Prescribed support movements are not forces: handled when partitioning below
+            if (load.type === 'SupportDisplacement') return;
+
+            // Consistent equivalent nodal loads: loads may lie anywhere inside an element,
+            // so the mesh does not need nodes at load positions
+            let applied = false;
+
+            elements.forEach(el => {
+                if (load.type !== 'DistributedForce' && applied) return;
+
+                const nodalLoads = FemSolver.equivalentNodalLoads(load, el);
+                if (!nodalLoads) return;
+                applied = true;
+
+                const current = elementLoads.get(el.id)!;
+                nodalLoads.forEach((value, i) => current[i] += value);
+            });
+
+            if (!applied) {
+                throw new Error(`Load ${load.id} lies outside the beam and cannot be applied.`);
+            }
+
+            if (verbose && load.type === 'DistributedForce') {
+                const distLoad = load as { startX: number, endX: number, magnitude: number, endMagnitude?: number, horizontal?: number };
+                const axial = distLoad.horizontal ? ` (axial ${distLoad.horizontal.toFixed(2)} kN/m at start)` : '';
+                console.log(`   📐 Distributed load converted: w=${distLoad.magnitude.toFixed(2)}→${(distLoad.endMagnitude ?? distLoad.magnitude).toFixed(2)} kN/m${axial} from x=${distLoad.startX.toFixed(3)} m to x=${distLoad.endX.toFixed(3)} m`);
+            }
+            if (verbose && load.type === 'Temperature') {
+                const thermal = load as TemperatureLoad;
+                console.log(`   🌡️  Temperature load converted: ε=${thermal.strain.toExponential(3)}, κ=${thermal.curvature.toExponential(3)} 1/m from x=${thermal.startX.toFixed(3)} m to x=${thermal.endX.toFixed(3)} m`);
+            }
+        });
+
+        // Released end moments are redistributed to the element's other DOFs
+        elements.forEach(el => {
+            const dofIndices = FemSolver.elementDofs(nodes, el);
+            el.condenseLoads(elementLoads.get(el.id)!).forEach((value, i) => {
+                F.set([dofIndices[i], 0], F.get([dofIndices[i], 0]) + value);
+            });
         });
 
+        if (!axiallyRestrained && nodes.length > 0) {
+            const netHorizontal = nodes.reduce((sum, _, i) => sum + F.get([uDof(i), 0]), 0);
+            if (Math.abs(netHorizontal) > 1e-9) {
+                throw new Error("Structure is unstable: no support restrains horizontal movement. Add a pin or fixed support.");
+            }
+        }
+
         const globalDisplacements = zeros(totalDofs, 1) as Matrix;
+
+        // Prescribed settlements/rotations: known values on the restrained DOFs (d_s).
+        // Springs move their base instead, which acts as a force k·Δ on the free DOF.
+        const springBaseMovement = new Map<string, { y: number, rotation: number }>();
+        loads.forEach(load => {
+            if (load.type !== 'SupportDisplacement') return;
+            const settlement = load as SupportDisplacementLoad;
+            const i = nodes.findIndex(n => Math.abs(n.x - settlement.x) < 1e-3);
+            const node = nodes[i];
+            if (!node) {
+                throw new Error(`Support displacement ${load.id} at x=${settlement.x} has no support to move.`);
+            }
+
+            const imposed = [
+                { dof: vDof(i), value: settlement.magnitude, restrained: node.isRestrainedY, k: node.spring?.ky ?? 0, label: 'settlement' },
+                { dof: thetaDof(i), value: settlement.rotation, restrained: node.isRestrainedRotation, k: node.spring?.kTheta ?? 0, label: 'rotation' }
+            ];
+            imposed.forEach(({ dof, value, restrained, k, label }) => {
+                if (value === 0) return;
+                if (restrained) {
+                    globalDisplacements.set([dof, 0], globalDisplacements.get([dof, 0]) + value);
+                } else if (node.isSpring && k > 0) {
+                    F.set([dof, 0], F.get([dof, 0]) + k * value);
+                } else {
+                    throw new Error(`Imposed ${label} at x=${node.x} requires a support restraining that movement.`);
+                }
+            });
+
+            if (node.isSpring) {
+                const base = springBaseMovement.get(node.id) ?? { y: 0, rotation: 0 };
+                springBaseMovement.set(node.id, { y: base.y + settlement.magnitude, rotation: base.rotation + settlement.rotation });
+            }
+            if (verbose) console.log(`   ⬇️  Support displacement at x=${node.x.toFixed(3)} m: Δ=${settlement.magnitude}, θ=${settlement.rotation}`);
+        });
         
-        if (freeDofs.length === 0) {
+        if (!factors) {
             // All DOFs fixed: statically indeterminate but stable structure
             // Displacements are zero, reactions calculated from R = K*0 - F = -F
-            console.log('   ℹ️  All DOFs are fixed - statically indeterminate but stable structure');
-            console.log('   → All displacements are zero');
-            console.log('   → Reactions calculated from equilibrium: R = -F');
+            if (verbose) {
+                console.log('   ℹ️  All DOFs are fixed - statically indeterminate but stable structure');
+                console.log('   → All displacements are prescribed (zero unless a support settles)');
+                console.log('   → Reactions calculated from equilibrium: R = -F');
+            }
         } else {
-            const K_ff = subset(K, index(freeDofs, freeDofs)) as Matrix;
-            const F_f = subset(F, index(freeDofs, [0])) as Matrix;
+            // Partitioned system: K_ff · d_f = F_f - K_fs · d_s
+            const F_eff = add(F, multiply(multiply(K, globalDisplacements), -1)) as Matrix;
+            const F_f = subset(F_eff, index(freeDofs, [0])) as Matrix;
+            const d_f = lusolve(factors, F_f) as Matrix; 
 
-            let d_f: Matrix;
-            
-            try {
-                // Check for mechanism: singular stiffness matrix indicates instability
-                const determinant = det(K_ff);
-                
-                if (Math.abs(determinant) < 1e-10) {
-                    throw new Error("Structure is unstable (Mechanism). Stiffness matrix is singular.");
+            // Validate numerical stability: check for infinite or NaN results
+            d_f.forEach(val => {
+                if (!isFinite(val) || isNaN(val)) {
+                    throw new Error("Structure is unstable or creates a mechanism.");
                 }
+            });
 
-                d_f = lusolve(K_ff, F_f) as Matrix; 
-                
-                // Validate numerical stability: check for infinite or NaN results
-                d_f.forEach(val => {
-                    if (!isFinite(val) || isNaN(val)) {
-                         throw new Error("Structure is unstable. Displacements are infinite.");
-                    }
-                });
-
-                freeDofs.forEach((dofIdx, i) => {
-                    const val = d_f.get([i, 0]); 
-                    globalDisplacements.set([dofIdx, 0], val);
-                });
-
-            } catch (error) {
-                console.error("Singular Matrix or Solver Error", error);
-                throw new Error("Structure is unstable or creates a mechanism.");
-            }
+            freeDofs.forEach((dofIdx, i) => {
+                globalDisplacements.set([dofIdx, 0], d_f.get([i, 0]));
+            });
         }
 
         // Calculate reactions: R = K*d - F
@@ -181,32 +248,139 @@ export class FemSolver {
         };
 
         nodes.forEach((node, i) => {
-            const dy = globalDisplacements.get([i * 2, 0]);
-            const rot = globalDisplacements.get([i * 2 + 1, 0]);
+            const dx = globalDisplacements.get([uDof(i), 0]);
+            const dy = globalDisplacements.get([vDof(i), 0]);
+            const rot = globalDisplacements.get([thetaDof(i), 0]);
             
-            const ry = R_matrix.get([i * 2, 0]);
-            const rm = R_matrix.get([i * 2 + 1, 0]);
+            const rx = R_matrix.get([uDof(i), 0]);
+            const ry = R_matrix.get([vDof(i), 0]);
+            const rm = R_matrix.get([thetaDof(i), 0]);
 
-            results.displacements[node.id] = { y: dy, rotation: rot };
+            results.displacements[node.id] = { x: dx, y: dy, rotation: rot };
             
-            if (node.isRestrainedY || node.isRestrainedRotation) {
+            if (node.isRestrainedX || node.isRestrainedY || node.isRestrainedRotation) {
                 results.reactions[node.id] = { 
+                    fx: node.isRestrainedX ? rx : 0,
                     fy: node.isRestrainedY ? ry : 0, 
                     m: node.isRestrainedRotation ? rm : 0 
                 };
+            } else if (node.isSpring) {
+                // Spring force and moment acting on the beam oppose the movement relative to its base
+                const base = springBaseMovement.get(node.id) ?? { y: 0, rotation: 0 };
+                results.reactions[node.id] = {
+                    fx: 0,
+                    fy: -node.spring!.ky * (dy - base.y),
+                    m: -node.spring!.kTheta * (rot - base.rotation)
+                };
             }
         });
 
-        console.log('📊 FemSolver Results:');
-        const maxDeflection = Math.max(...Object.values(results.displacements).map(d => Math.abs(d.y)));
-        console.log('   Max Deflection:', (maxDeflection * 1000).toFixed(3), 'mm');
-        console.log('   Total Reactions:', Object.keys(results.reactions).length, 'supports');
-        Object.entries(results.reactions).forEach(([id, r]) => {
-            if (Math.abs(r.fy) > 1e-6 || Math.abs(r.m) > 1e-6) {
-                console.log(`   ${id}: Fy = ${r.fy.toFixed(2)} kN, M = ${r.m.toFixed(2)} kNm`);
-            }
+        // Rotation of the element end arriving at a hinge (the node rotation belongs to the right side)
+        elements.forEach(el => {
+            if (!el.releaseEnd) return;
+            const d = FemSolver.elementDofs(nodes, el).map(dof => globalDisplacements.get([dof, 0]));
+            const [, endRotation] = el.endRotations(d, elementLoads.get(el.id)!);
+            results.displacements[el.endNode.id].hingeRotation = endRotation;
         });
 
+        if (verbose) {
+            console.log('📊 FemSolver Results:');
+            const maxDeflection = Math.max(...Object.values(results.displacements).map(d => Math.abs(d.y)));
+            console.log('   Max Deflection:', (maxDeflection * 1000).toFixed(3), 'mm');
+            console.log('   Total Reactions:', Object.keys(results.reactions).length, 'supports');
+            Object.entries(results.reactions).forEach(([id, r]) => {
+                if (Math.abs(r.fx) > 1e-6 || Math.abs(r.fy) > 1e-6 || Math.abs(r.m) > 1e-6) {
+                    console.log(`   ${id}: Fx = ${r.fx.toFixed(2)} kN, Fy = ${r.fy.toFixed(2)} kN, M = ${r.m.toFixed(2)} kNm`);
+                }
+            });
+        }
+
         return results;
     }
-}
\ No newline at end of file
+
+    /** Global DOFs [u1, v1, θ1, u2, v2, θ2] of an element */
+    private static elementDofs(nodes: Node[], el: Element): number[] {
+        const idxStart = nodes.findIndex(n => n.id === el.startNode.id);
+        const idxEnd = nodes.findIndex(n => n.id === el.endNode.id);
+        return [uDof(idxStart), vDof(idxStart), thetaDof(idxStart), uDof(idxEnd), vDof(idxEnd), thetaDof(idxEnd)];
+    }
+
+    /**
+     * Fixed-end actions of a load on one element, as [Fx1, Fy1, M1, Fx2, Fy2, M2] = ∫ q(x)·N(x) dx
+     * with the element's bending shape functions and linear axial ones. Returns null when the
+     * load does not act on the element.
+     * Reference: Structural Analysis textbooks (Hibbeler, Kassimali)
+     */
+    private static equivalentNodalLoads(load: Load, el: Element): number[] | null {
+        const tolerance = 1e-6;
+        const x1 = el.startNode.x;
+        const x2 = el.endNode.x;
+        const L = el.length;
+
+        if (load.type === 'PointForce' || load.type === 'PointMoment') {
+            const pointLoad = load as { x: number, magnitude: number };
+            if (pointLoad.x < x1 - tolerance || pointLoad.x > x2 + tolerance) return null;
+
+            const localX = Math.min(L, Math.max(0, pointLoad.x - x1));
+            // A point moment does work through the section rotation instead of the deflection
+            const shapes = el.shapeFunctions(localX);
+            const weights = load.type === 'PointForce' ? shapes.n : shapes.slopes;
+            const [fy1, m1, fy2, m2] = weights.map(n => pointLoad.magnitude * n);
+            // The horizontal component is shared linearly between the end nodes
+            const horizontal = load.type === 'PointForce' ? (load as PointForceLoad).horizontal : 0;
+            return [horizontal * (1 - localX / L), fy1, m1, horizontal * localX / L, fy2, m2];
+        }
+
+        if (load.type === 'DistributedForce') {
+            const distLoad = load as {
+                startX: number, endX: number, magnitude: number, endMagnitude?: number, horizontal?: number, endHorizontal?: number
+            };
+            const a = Math.max(x1, distLoad.startX);
+            const b = Math.min(x2, distLoad.endX);
+            if (b - a <= tolerance) return null;
+
+            const w1 = distLoad.magnitude;
+            const w2 = distLoad.endMagnitude ?? distLoad.magnitude;
+            const h1 = distLoad.horizontal ?? 0;
+            const h2 = distLoad.endHorizontal ?? h1;
+            const intensityAt = (x: number) => w1 + (w2 - w1) * (x - distLoad.startX) / (distLoad.endX - distLoad.startX);
+            const axialAt = (x: number) => h1 + (h2 - h1) * (x - distLoad.startX) / (distLoad.endX - distLoad.startX);
+
+            // 3-point Gauss-Legendre is exact for linear loads times cubic shape functions (degree 4).
+            // Tapered shape functions are not polynomial, so their range is split into sub-intervals.
+            const gaussPoints = [-Math.sqrt(3 / 5), 0, Math.sqrt(3 / 5)];
+            const gaussWeights = [5 / 9, 8 / 9, 5 / 9];
+            const intervals = el.taper ? 8 : 1;
+            const half = (b - a) / (2 * intervals);
+
+            const result = [0, 0, 0, 0, 0, 0];
+            const bendingDofs = [1, 2, 4, 5];
+            for (let j = 0; j < intervals; j++) {
+                const mid = a + (2 * j + 1) * half;
+                gaussPoints.forEach((g, k) => {
+                    const x = mid + half * g;
+                    const q = intensityAt(x);
+                    el.shapeFunctions(x - x1).n.forEach((n, i) => {
+                        result[bendingDofs[i]] += gaussWeights[k] * half * q * n;
+                    });
+                    // The axial component goes to u1 and u2 through the linear axial shape functions
+                    const p = axialAt(x) * gaussWeights[k] * half;
+                    result[0] += p * (1 - (x - x1) / L);
+                    result[3] += p * (x - x1) / L;
+                });
+            }
+            return result;
+        }
+
+        if (load.type === 'Temperature') {
+            // Only the stretch of the element inside the heated range strains
+            const thermal = load as TemperatureLoad;
+            const a = Math.max(x1, thermal.startX);
+            const b = Math.min(x2, thermal.endX);
+            if (b - a <= tolerance) return null;
+            return el.thermalLoads(thermal.strain, thermal.curvature, a - x1, b - x1);
+        }
+
+        return null;
+    }
+}
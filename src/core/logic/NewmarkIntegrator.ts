@@ -0,0 +1,84 @@
+import { EigenSolver } from './EigenSolver';
+
+/** State of the system at one instant */
+export interface DynamicState {
+    t: number;
+    displacement: number[];
+    velocity: number[];
+    acceleration: number[];
+}
+
+export class NewmarkIntegrator {
+    /** Average acceleration: unconditionally stable and free of numerical damping */
+    static readonly BETA = 1 / 4;
+    static readonly GAMMA = 1 / 2;
+
+    /**
+     * Integrates M·ü + C·u̇ + K·u = F(t) from rest with the Newmark method, calling onStep
+     * with the state at every step (t = 0 included). The effective stiffness is factored
+     * once, so each step costs two triangular solves.
+     * @param force Load vector at time t
+     * @param dt Time step
+     * @param steps Number of steps after t = 0
+     */
+    static integrate(
+        K: number[][],
+        M: number[][],
+        C: number[][],
+        force: (t: number) => number[],
+        dt: number,
+        steps: number,
+        onStep: (state: DynamicState) => void
+    ): void {
+        if (!(dt > 0)) throw new Error('Time step must be positive.');
+        const n = K.length;
+        if (n === 0) return;
+        const { BETA: beta, GAMMA: gamma } = NewmarkIntegrator;
+
+        // Initial acceleration from equilibrium at rest: M·ü0 = F(0)
+        let u = new Array(n).fill(0);
+        let v = new Array(n).fill(0);
+        let a = NewmarkIntegrator.solve(EigenSolver.cholesky(M), force(0));
+        onStep({ t: 0, displacement: u, velocity: v, acceleration: a });
+
+        // K̂ = K + γ/(β·dt)·C + 1/(β·dt²)·M, symmetric positive definite
+        const a0 = 1 / (beta * dt * dt);
+        const a1 = gamma / (beta * dt);
+        const effective = K.map((row, i) => row.map((k, j) => k + a1 * C[i][j] + a0 * M[i][j]));
+        const L = EigenSolver.cholesky(effective);
+
+        for (let step = 1; step <= steps; step++) {
+            const t = step * dt;
+            const f = force(t);
+            // Predictor terms of the previous state carried by M and C
+            const mTerm = u.map((ui, i) => a0 * ui + v[i] / (beta * dt) + (1 / (2 * beta) - 1) * a[i]);
+            const cTerm = u.map((ui, i) => a1 * ui + (gamma / beta - 1) * v[i] + dt * (gamma / (2 * beta) - 1) * a[i]);
+            const rhs = f.map((fi, i) => fi
+                + M[i].reduce((sum, mij, j) => sum + mij * mTerm[j], 0)
+                + C[i].reduce((sum, cij, j) => sum + cij * cTerm[j], 0));
+
+            const uNext = NewmarkIntegrator.solve(L, rhs);
+            const aNext = uNext.map((un, i) => a0 * (un - u[i]) - v[i] / (beta * dt) - (1 / (2 * beta) - 1) * a[i]);
+            const vNext = v.map((vi, i) => vi + dt * ((1 - gamma) * a[i] + gamma * aNext[i]));
+            u = uNext;
+            v = vNext;
+            a = aNext;
+            onStep({ t, displacement: u, velocity: v, acceleration: a });
+        }
+    }
+
+    /** Solves L·Lᵀ·x = b with the Cholesky factor L */
+    private static solve(L: number[][], b: number[]): number[] {
+        const n = L.length;
+        const y = [...b];
+        for (let i = 0; i < n; i++) {
+            for (let k = 0; k < i; k++) y[i] -= L[i][k] * y[k];
+            y[i] /= L[i][i];
+        }
+        for (let i = n - 1; i >= 0; i--) {
+            for (let k = i + 1; k < n; k++) y[i] -= L[k][i] * y[k];
+            y[i] /= L[i][i];
+        }
+        return y;
+    }
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { SectionProperties } from './SectionProperties';
+
+describe('SectionProperties - Parametric cross-sections', () => {
+
+    it('Should match the closed-form rectangle properties', () => {
+        const b = 0.2;
+        const h = 0.4;
+        const p = SectionProperties.compute({ kind: 'rectangle', b, h });
+
+        expect(p.A).toBeCloseTo(b * h, 12);
+        expect(p.I).toBeCloseTo(b * h ** 3 / 12, 12);
+        expect(p.centroid).toBeCloseTo(h / 2, 12);
+        expect(p.Stop).toBeCloseTo(b * h ** 2 / 6, 12);
+        // Módulo plástico bh²/4 y Q = bh²/8 (τmax = 1.5 V/A)
+        expect(p.Z).toBeCloseTo(b * h ** 2 / 4, 10);
+        expect(p.Q).toBeCloseTo(b * h ** 2 / 8, 12);
+        expect(p.widthAtCentroid).toBeCloseTo(b, 12);
+    });
+
+    it('Should compute a symmetric I section as flanges plus web', () => {
+        const [h, bf, tf, tw] = [0.3, 0.15, 0.0107, 0.0071];
+        const p = SectionProperties.compute({ kind: 'I', h, bf, tf, tw });
+        const hw = h - 2 * tf;
+
+        expect(p.A).toBeCloseTo(2 * bf * tf + hw * tw, 12);
+        expect(p.I).toBeCloseTo((bf * h ** 3 - (bf - tw) * hw ** 3) / 12, 12);
+        expect(p.plasticAxis).toBeCloseTo(h / 2, 8);
+        expect(p.Z).toBeCloseTo(bf * tf * (h - tf) + tw * hw ** 2 / 4, 8);
+        expect(p.widthAtCentroid).toBeCloseTo(tw, 12);
+    });
+
+    it('Should locate the centroid and plastic axis of a T section', () => {
+        // Ala 200x20 sobre alma 20x200: áreas iguales, el eje plástico pasa por la unión
+        const p = SectionProperties.compute({ kind: 'T', h: 0.22, bf: 0.2, tf: 0.02, tw: 0.02 });
+
+        expect(p.A).toBeCloseTo(0.008, 12);
+        expect(p.centroid).toBeCloseTo((0.004 * 0.1 + 0.004 * 0.21) / 0.008, 8);
+        expect(p.plasticAxis).toBeCloseTo(0.2, 8);
+        expect(p.Stop).toBeGreaterThan(p.Sbottom);
+    });
+
+    it('Should treat a box as an outer polygon minus its void', () => {
+        const box = SectionProperties.compute({ kind: 'box', h: 0.3, b: 0.2, t: 0.01 });
+        const composite = SectionProperties.compute({
+            kind: 'polygon',
+            polygons: [
+                { points: [[0, 0], [0.2, 0], [0.2, 0.3], [0, 0.3]] },
+                // Hueco con el sentido de giro contrario: la orientación no importa
+                { points: [[0.01, 0.01], [0.01, 0.29], [0.19, 0.29], [0.19, 0.01]], hole: true }
+            ]
+        });
+
+        expect(composite.A).toBeCloseTo(box.A, 12);
+        expect(composite.I).toBeCloseTo(box.I, 12);
+        expect(composite.Z).toBeCloseTo(box.Z, 8);
+        expect(box.widthAtCentroid).toBeCloseTo(0.02, 12);
+    });
+
+    it('Should use closed forms for circular sections and reject bad dimensions', () => {
+        const d = 0.1;
+        const tube = SectionProperties.compute({ kind: 'circular', d, t: 0.005 });
+
+        expect(SectionProperties.compute({ kind: 'circular', d }).I).toBeCloseTo(Math.PI * d ** 4 / 64, 14);
+        expect(tube.A).toBeCloseTo(Math.PI / 4 * (d ** 2 - 0.09 ** 2), 12);
+        expect(() => SectionProperties.compute({ kind: 'circular', d, t: 0.06 })).toThrow();
+        expect(() => SectionProperties.compute({ kind: 'I', h: 0.1, bf: 0.1, tf: 0.06, tw: 0.01 })).toThrow();
+    });
+});
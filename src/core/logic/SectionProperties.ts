@@ -0,0 +1,215 @@
+import type { CrossSectionShape, CrossSectionProperties, SectionPolygon } from '../entities/CrossSection';
+import type { SteelSection } from '../entities/SteelSection';
+
+type Point = [number, number];
+
+export class SectionProperties {
+    /** Segments used to draw circular sections; their properties are computed in closed form */
+    private static readonly CIRCLE_SEGMENTS = 64;
+
+    /**
+     * Outline polygons of a shape, x centred on the web and y up from the bottom fibre.
+     * Validates the dimensions so every outline is a proper section.
+     */
+    static outline(shape: CrossSectionShape): SectionPolygon[] {
+        const rect = (x1: number, y1: number, x2: number, y2: number): Point[] => [[x1, y1], [x2, y1], [x2, y2], [x1, y2]];
+
+        switch (shape.kind) {
+            case 'rectangle': {
+                const { b, h } = shape;
+                if (!(b > 0 && h > 0)) throw new Error('Rectangle needs a positive width and depth.');
+                return [{ points: rect(-b / 2, 0, b / 2, h) }];
+            }
+            case 'I': {
+                const { h, bf, tf, tw } = shape;
+                if (!(h > 0 && bf > 0 && tf > 0 && tw > 0) || 2 * tf >= h || tw > bf) {
+                    throw new Error('I section needs 2·tf < h and tw ≤ bf.');
+                }
+                return [{
+                    points: [
+                        [-bf / 2, 0], [bf / 2, 0], [bf / 2, tf], [tw / 2, tf], [tw / 2, h - tf], [bf / 2, h - tf],
+                        [bf / 2, h], [-bf / 2, h], [-bf / 2, h - tf], [-tw / 2, h - tf], [-tw / 2, tf], [-bf / 2, tf]
+                    ]
+                }];
+            }
+            case 'T': {
+                const { h, bf, tf, tw } = shape;
+                if (!(h > 0 && bf > 0 && tf > 0 && tw > 0) || tf >= h || tw > bf) {
+                    throw new Error('T section needs tf < h and tw ≤ bf.');
+                }
+                return [{
+                    points: [
+                        [-tw / 2, 0], [tw / 2, 0], [tw / 2, h - tf], [bf / 2, h - tf],
+                        [bf / 2, h], [-bf / 2, h], [-bf / 2, h - tf], [-tw / 2, h - tf]
+                    ]
+                }];
+            }
+            case 'box': {
+                const { h, b, t } = shape;
+                if (!(h > 0 && b > 0 && t > 0) || 2 * t >= Math.min(b, h)) {
+                    throw new Error('Box section needs a wall thinner than half its width and depth.');
+                }
+                return [
+                    { points: rect(-b / 2, 0, b / 2, h) },
+                    { points: rect(-b / 2 + t, t, b / 2 - t, h - t), hole: true }
+                ];
+            }
+            case 'circular': {
+                const { d, t } = shape;
+                if (!(d > 0) || (t !== undefined && !(t > 0 && 2 * t < d))) {
+                    throw new Error('Circular section needs a positive diameter and a wall thinner than its radius.');
+                }
+                const circle = (r: number): Point[] => Array.from({ length: SectionProperties.CIRCLE_SEGMENTS }, (_, i) => {
+                    const angle = (2 * Math.PI * i) / SectionProperties.CIRCLE_SEGMENTS;
+                    return [r * Math.cos(angle), d / 2 + r * Math.sin(angle)];
+                });
+                return t === undefined
+                    ? [{ points: circle(d / 2) }]
+                    : [{ points: circle(d / 2) }, { points: circle(d / 2 - t), hole: true }];
+            }
+            case 'polygon': {
+                if (!shape.polygons.some(p => !p.hole && p.points.length >= 3)) {
+                    throw new Error('Composite section needs at least one solid polygon with three or more points.');
+                }
+                return shape.polygons.filter(p => p.points.length >= 3);
+            }
+        }
+    }
+
+    /** Area, centroid, I, elastic and plastic moduli and shear properties of a shape */
+    static compute(shape: CrossSectionShape): CrossSectionProperties {
+        if (shape.kind === 'circular') {
+            // Closed form; the drawn outline is only an approximation of the circle
+            SectionProperties.outline(shape);
+            const d = shape.d;
+            const di = shape.t === undefined ? 0 : d - 2 * shape.t;
+            const I = (Math.PI / 64) * (d ** 4 - di ** 4);
+            return {
+                A: (Math.PI / 4) * (d ** 2 - di ** 2),
+                I,
+                centroid: d / 2,
+                depth: d,
+                Stop: I / (d / 2),
+                Sbottom: I / (d / 2),
+                Z: (d ** 3 - di ** 3) / 6,
+                plasticAxis: d / 2,
+                Q: (d ** 3 - di ** 3) / 12,
+                widthAtCentroid: d - di
+            };
+        }
+
+        const polygons = SectionProperties.outline(shape);
+        const ys = polygons.flatMap(p => p.points.map(([, y]) => y));
+        const yMin = Math.min(...ys);
+        const yMax = Math.max(...ys);
+
+        const { area: A, firstMoment } = SectionProperties.integrate(polygons);
+        if (A <= 1e-12) throw new Error('Section has no net area.');
+        const cy = firstMoment / A;
+        const I = SectionProperties.integrate(polygons).secondMoment - A * cy * cy;
+
+        // Plastic neutral axis: the horizontal line splitting the area in halves
+        let lo = yMin;
+        let hi = yMax;
+        for (let i = 0; i < 60; i++) {
+            const mid = (lo + hi) / 2;
+            if (SectionProperties.integrate(SectionProperties.clip(polygons, mid, 'above')).area > A / 2) lo = mid;
+            else hi = mid;
+        }
+        const plasticAxis = (lo + hi) / 2;
+        const staticMoment = (side: 'above' | 'below', axis: number) => {
+            const part = SectionProperties.integrate(SectionProperties.clip(polygons, axis, side));
+            return Math.abs(part.firstMoment - part.area * axis);
+        };
+
+        return {
+            A,
+            I,
+            centroid: cy - yMin,
+            depth: yMax - yMin,
+            Stop: I / (yMax - cy),
+            Sbottom: I / (cy - yMin),
+            Z: staticMoment('above', plasticAxis) + staticMoment('below', plasticAxis),
+            plasticAxis: plasticAxis - yMin,
+            Q: staticMoment('above', cy),
+            widthAtCentroid: SectionProperties.widthAt(polygons, cy)
+        };
+    }
+
+    /** Properties of a rolled section from its tables; being doubly symmetric, Q at the centroid is Z/2 */
+    static fromSteelSection(section: SteelSection): CrossSectionProperties {
+        return {
+            A: section.A,
+            I: section.I,
+            centroid: section.depth / 2,
+            depth: section.depth,
+            Stop: section.S,
+            Sbottom: section.S,
+            Z: section.Z,
+            plasticAxis: section.depth / 2,
+            Q: section.Z / 2,
+            widthAtCentroid: section.tw
+        };
+    }
+
+    /** Net area, first and second moments about y = 0 (holes subtract) */
+    private static integrate(polygons: SectionPolygon[]): { area: number, firstMoment: number, secondMoment: number } {
+        return polygons.reduce((sum, polygon) => {
+            let area = 0;
+            let first = 0;
+            let second = 0;
+            const pts = polygon.points;
+            pts.forEach(([x1, y1], i) => {
+                const [x2, y2] = pts[(i + 1) % pts.length];
+                const cross = x1 * y2 - x2 * y1;
+                area += cross / 2;
+                first += (y1 + y2) * cross / 6;
+                second += (y1 * y1 + y1 * y2 + y2 * y2) * cross / 12;
+            });
+            // Either winding is accepted: the sign of the area fixes the orientation
+            const sign = (area < 0 ? -1 : 1) * (polygon.hole ? -1 : 1);
+            return {
+                area: sum.area + sign * area,
+                firstMoment: sum.firstMoment + sign * first,
+                secondMoment: sum.secondMoment + sign * second
+            };
+        }, { area: 0, firstMoment: 0, secondMoment: 0 });
+    }
+
+    /** Part of every polygon above (or below) the line y = level (Sutherland-Hodgman) */
+    private static clip(polygons: SectionPolygon[], level: number, side: 'above' | 'below'): SectionPolygon[] {
+        const inside = ([, y]: Point) => side === 'above' ? y >= level : y <= level;
+        const cut = ([x1, y1]: Point, [x2, y2]: Point): Point => [x1 + (x2 - x1) * (level - y1) / (y2 - y1), level];
+
+        return polygons.map(polygon => {
+            const points: Point[] = [];
+            polygon.points.forEach((current, i) => {
+                const previous = polygon.points[(i + polygon.points.length - 1) % polygon.points.length];
+                if (inside(current)) {
+                    if (!inside(previous)) points.push(cut(previous, current));
+                    points.push(current);
+                } else if (inside(previous)) {
+                    points.push(cut(previous, current));
+                }
+            });
+            return { points, hole: polygon.hole };
+        }).filter(p => p.points.length >= 3);
+    }
+
+    /** Net width cut by the line y = level */
+    private static widthAt(polygons: SectionPolygon[], level: number): number {
+        return polygons.reduce((sum, polygon) => {
+            const xs: number[] = [];
+            polygon.points.forEach(([x1, y1], i) => {
+                const [x2, y2] = polygon.points[(i + 1) % polygon.points.length];
+                if ((y1 <= level && y2 > level) || (y2 <= level && y1 > level)) {
+                    xs.push(x1 + (x2 - x1) * (level - y1) / (y2 - y1));
+                }
+            });
+            xs.sort((a, b) => a - b);
+            let width = 0;
+            for (let i = 0; i + 1 < xs.length; i += 2) width += xs[i + 1] - xs[i];
+            return sum + (polygon.hole ? -width : width);
+        }, 0);
+    }
+}
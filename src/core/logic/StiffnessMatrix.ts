@@ -26,4 +26,305 @@ export class StiffnessMatrix {
             [ k_cross,   k_rot_far, -k_cross,   k_rot    ]
         ];
     }
-}
\ No newline at end of file
+
+    /**
+     * Consistent mass matrix of a 2D beam element, ∫ N·m·Nᵀ dx with the cubic Hermite
+     * shape functions. Rotary inertia is ignored, matching beam2D.
+     * @param m Mass per unit length (t/m, consistent with stiffness in kN)
+     * @param L Element length
+     * @returns 4x4 mass matrix [v1, θ1, v2, θ2] DOFs
+     */
+    static consistentMass(m: number, L: number): number[][] {
+        if (L <= 0) throw new Error("Length must be positive to compute mass.");
+        if (m < 0) throw new Error("Mass per unit length cannot be negative.");
+
+        const c = (m * L) / 420;
+        const L2 = L * L;
+
+        return [
+            [ 156 * c,      22 * L * c,   54 * c,     -13 * L * c ],
+            [ 22 * L * c,   4 * L2 * c,   13 * L * c, -3 * L2 * c ],
+            [ 54 * c,       13 * L * c,   156 * c,    -22 * L * c ],
+            [-13 * L * c,  -3 * L2 * c,  -22 * L * c,  4 * L2 * c ]
+        ];
+    }
+
+    /**
+     * Generates local stiffness matrix for 2D beam element using Timoshenko theory.
+     * Shear deformation enters through φ = 12EI / (G·As·L²); φ = 0 recovers beam2D.
+     * @param G Shear Modulus
+     * @param As Effective shear area
+     * @returns 4x4 stiffness matrix [v1, θ1, v2, θ2] DOFs, θ being the section rotation
+     */
+    static timoshenko2D(E: number, I: number, G: number, As: number, L: number): number[][] {
+        if (L <= 0) throw new Error("Length must be positive to compute stiffness.");
+        if (E <= 0 || I <= 0) throw new Error("Material properties (E, I) must be positive.");
+        if (G <= 0 || As <= 0) throw new Error("Shear properties (G, As) must be positive.");
+
+        const phi = (12 * E * I) / (G * As * L * L);
+        const c = (E * I) / ((1 + phi) * L * L * L);
+        const L2 = L * L;
+
+        return [
+            [ 12 * c,     6 * L * c,          -12 * c,    6 * L * c         ],
+            [ 6 * L * c,  (4 + phi) * L2 * c, -6 * L * c, (2 - phi) * L2 * c ],
+            [-12 * c,    -6 * L * c,           12 * c,   -6 * L * c         ],
+            [ 6 * L * c,  (2 - phi) * L2 * c, -6 * L * c, (4 + phi) * L2 * c ]
+        ];
+    }
+
+    /**
+     * Shape functions of the prismatic element at local x: Hermite cubics for φ = 0,
+     * the interdependent Timoshenko interpolation otherwise. Both are exact for end
+     * actions only, so used as load weights they give the exact fixed-end actions.
+     * @param phi Shear parameter 12EI / (G·As·L²), 0 for Bernoulli-Euler
+     * @returns Deflections [N1..N4] and section rotations [N1'..N4'] at x
+     */
+    static shapeFunctions(L: number, x: number, phi: number = 0): { n: number[], slopes: number[] } {
+        const xi = x / L;
+        const xi2 = xi * xi;
+        const xi3 = xi2 * xi;
+        const c = 1 / (1 + phi);
+
+        return {
+            n: [
+                c * (1 - 3 * xi2 + 2 * xi3 + phi * (1 - xi)),
+                c * L * (xi - 2 * xi2 + xi3 + (phi / 2) * (xi - xi2)),
+                c * (3 * xi2 - 2 * xi3 + phi * xi),
+                c * L * (xi3 - xi2 + (phi / 2) * (xi2 - xi))
+            ],
+            slopes: [
+                c * 6 * (xi2 - xi) / L,
+                c * (1 - 4 * xi + 3 * xi2 + phi * (1 - xi)),
+                c * 6 * (xi - xi2) / L,
+                c * (3 * xi2 - 2 * xi + phi * xi)
+            ]
+        };
+    }
+
+    /**
+     * Consistent stiffness of a Winkler foundation under a beam element,
+     * ∫ N·k·Nᵀ dx with the cubic Hermite shape functions.
+     * @param k Foundation modulus per unit length (force/length²)
+     * @param L Element length
+     * @returns 4x4 stiffness matrix [v1, θ1, v2, θ2] DOFs
+     */
+    static winkler(k: number, L: number): number[][] {
+        if (L <= 0) throw new Error("Length must be positive to compute stiffness.");
+        if (k < 0) throw new Error("Foundation modulus cannot be negative.");
+
+        const c = (k * L) / 420;
+        const L2 = L * L;
+
+        return [
+            [ 156 * c,      22 * L * c,   54 * c,     -13 * L * c ],
+            [ 22 * L * c,   4 * L2 * c,   13 * L * c, -3 * L2 * c ],
+            [ 54 * c,       13 * L * c,   156 * c,    -22 * L * c ],
+            [-13 * L * c,  -3 * L2 * c,  -22 * L * c,  4 * L2 * c ]
+        ];
+    }
+
+    /**
+     * Frame element of a straight member: the axial bar stiffness EA/L on [u1, u2]
+     * added to a bending matrix. Axial and bending actions are uncoupled in linear analysis.
+     * @param bending 4x4 bending stiffness matrix [v1, θ1, v2, θ2]
+     * @param axialStiffness EA / L
+     * @returns 6x6 stiffness matrix [u1, v1, θ1, u2, v2, θ2] DOFs
+     */
+    static frame2D(bending: number[][], axialStiffness: number): number[][] {
+        if (axialStiffness <= 0) throw new Error("Axial stiffness EA/L must be positive.");
+
+        const bendingDofs = [1, 2, 4, 5];
+        const k = Array.from({ length: 6 }, () => new Array(6).fill(0));
+        bending.forEach((row, i) => row.forEach((value, j) => {
+            k[bendingDofs[i]][bendingDofs[j]] = value;
+        }));
+        k[0][0] = axialStiffness;
+        k[0][3] = -axialStiffness;
+        k[3][0] = -axialStiffness;
+        k[3][3] = axialStiffness;
+
+        return k;
+    }
+
+    /**
+     * Moment of inertia along a tapered member whose depth varies linearly, I ∝ dⁿ:
+     * n = 1 gives a linear variation of I, n = 2 suits flange-dominated I-sections
+     * and n = 3 solid rectangles.
+     * @param xi Relative position along the member (0 at I1, 1 at I2)
+     */
+    static taperedInertia(I1: number, I2: number, xi: number, exponent: number = 3): number {
+        const root1 = Math.pow(I1, 1 / exponent);
+        const root2 = Math.pow(I2, 1 / exponent);
+        return Math.pow(root1 + (root2 - root1) * xi, exponent);
+    }
+
+    /**
+     * Stiffness matrix of a tapered Bernoulli-Euler element, built from the exact
+     * flexibility of the cantilever fixed at node 1 (integrated numerically) and
+     * completed by equilibrium. Reduces to beam2D when I1 = I2 (timoshenko2D with shear).
+     * @param I1 Moment of inertia at node 1
+     * @param I2 Moment of inertia at node 2
+     * @param exponent Depth exponent of the inertia law (see taperedInertia)
+     * @param shearRigidity G·As to include shear deformation (Timoshenko), omitted for Bernoulli-Euler
+     * @returns 4x4 stiffness matrix [v1, θ1, v2, θ2] DOFs
+     */
+    static tapered(E: number, I1: number, I2: number, L: number, exponent: number = 3, shearRigidity?: number): number[][] {
+        if (L <= 0) throw new Error("Length must be positive to compute stiffness.");
+        if (E <= 0 || I1 <= 0 || I2 <= 0) throw new Error("Material properties (E, I) must be positive.");
+
+        const flexibility = (x: number) => 1 / (E * StiffnessMatrix.taperedInertia(I1, I2, x / L, exponent));
+        // Tip displacements [v2, θ2] of the cantilever under a unit end force and a unit end moment
+        const shearFlexibility = shearRigidity ? L / shearRigidity : 0;
+        const f11 = StiffnessMatrix.integrate(x => (L - x) * (L - x) * flexibility(x), 0, L) + shearFlexibility;
+        const f12 = StiffnessMatrix.integrate(x => (L - x) * flexibility(x), 0, L);
+        const f22 = StiffnessMatrix.integrate(flexibility, 0, L);
+
+        const determinant = f11 * f22 - f12 * f12;
+        const k33 = f22 / determinant;
+        const k34 = -f12 / determinant;
+        const k44 = f11 / determinant;
+
+        // Node 1 forces follow from equilibrium: V1 = -V2, M1 = -M2 - V2·L
+        const k13 = -k33;
+        const k14 = -k34;
+        const k23 = -L * k33 - k34;
+        const k24 = -L * k34 - k44;
+        const k11 = k33;
+        const k12 = L * k33 + k34;
+        const k22 = L * L * k33 + 2 * L * k34 + k44;
+
+        return [
+            [ k11, k12, k13, k14 ],
+            [ k12, k22, k23, k24 ],
+            [ k13, k23, k33, k34 ],
+            [ k14, k24, k34, k44 ]
+        ];
+    }
+
+    /**
+     * Exact shape functions of the tapered element: the deflected shape produced by a
+     * unit value of each end DOF, integrated from the linear moment it induces.
+     * Used as load weights they give the exact fixed-end actions (Betti).
+     * @param x Local coordinate measured from node 1
+     * @returns Deflections [N1..N4] and section rotations [N1'..N4'] at x
+     */
+    static taperedShapeFunctions(
+        E: number, I1: number, I2: number, L: number, x: number, exponent: number = 3, shearRigidity?: number
+    ): { n: number[], slopes: number[] } {
+        const k = StiffnessMatrix.tapered(E, I1, I2, L, exponent, shearRigidity);
+        const flexibility = (s: number) => 1 / (E * StiffnessMatrix.taperedInertia(I1, I2, s / L, exponent));
+
+        const n: number[] = [];
+        const slopes: number[] = [];
+        for (let i = 0; i < 4; i++) {
+            const v1 = i === 0 ? 1 : 0;
+            const theta1 = i === 1 ? 1 : 0;
+            // Sagging moment along the element from the node 1 end forces
+            const moment = (s: number) => -k[1][i] + k[0][i] * s;
+            // Shear strain adds to the slope; the shear force (-V1, constant) is carried over the element
+            const shearDeflection = shearRigidity ? (-k[0][i] * x) / shearRigidity : 0;
+            n.push(v1 + theta1 * x + StiffnessMatrix.integrate(s => (x - s) * moment(s) * flexibility(s), 0, x) + shearDeflection);
+            slopes.push(theta1 + StiffnessMatrix.integrate(s => moment(s) * flexibility(s), 0, x));
+        }
+
+        return { n, slopes };
+    }
+
+    /** Composite 3-point Gauss-Legendre rule over [a, b] */
+    private static integrate(f: (x: number) => number, a: number, b: number, intervals: number = 16): number {
+        if (b - a <= 0) return 0;
+        const points = [-Math.sqrt(3 / 5), 0, Math.sqrt(3 / 5)];
+        const weights = [5 / 9, 8 / 9, 5 / 9];
+        const h = (b - a) / intervals;
+        let sum = 0;
+        for (let i = 0; i < intervals; i++) {
+            const mid = a + (i + 0.5) * h;
+            points.forEach((g, j) => {
+                sum += weights[j] * f(mid + (g * h) / 2);
+            });
+        }
+        return (sum * h) / 2;
+    }
+
+    /**
+     * Static condensation of released DOFs (moment releases / internal hinges).
+     * The released DOFs are eliminated one at a time and their rows and columns
+     * are left at zero, so the element keeps its layout.
+     * @param k Element stiffness matrix
+     * @param f Element fixed-end actions (same DOF order)
+     * @param released Local DOF indices to release (2 = θ1, 5 = θ2 in a frame element)
+     * @returns Condensed stiffness matrix and fixed-end actions
+     */
+    static condense(k: number[][], f: number[], released: number[]): { k: number[][], f: number[] } {
+        let kc = k.map(row => [...row]);
+        let fc = [...f];
+
+        released.forEach(r => {
+            const krr = kc[r][r];
+            if (Math.abs(krr) < 1e-12) return;
+
+            fc = fc.map((value, i) => i === r ? 0 : value - (kc[i][r] * fc[r]) / krr);
+            kc = kc.map((row, i) => row.map((value, j) =>
+                i === r || j === r ? 0 : value - (kc[i][r] * kc[r][j]) / krr
+            ));
+        });
+
+        return { k: kc, f: fc };
+    }
+
+    /**
+     * Mass matrix matching condense(): the released DOFs follow the retained ones
+     * statically (d = T·d_a), so the condensed mass is Tᵀ·M·T. Released rows and
+     * columns are left at zero, like the condensed stiffness.
+     * @param k Element stiffness matrix, before condensation
+     * @param m Element mass matrix (same DOF order)
+     * @param released Local DOF indices to release
+     */
+    static condenseMass(k: number[][], m: number[][], released: number[]): number[][] {
+        const n = k.length;
+        let kc = k.map(row => [...row]);
+        let t = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j): number => i === j ? 1 : 0));
+
+        released.forEach(r => {
+            const krr = kc[r][r];
+            if (Math.abs(krr) < 1e-12) return;
+
+            // d_r = -Σ k_rj·d_j / k_rr, in terms of the DOFs still retained
+            const step = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) =>
+                i === r ? (j === r ? 0 : -kc[r][j] / krr) : (i === j ? 1 : 0)
+            ));
+            t = StiffnessMatrix.multiply(t, step);
+            kc = StiffnessMatrix.condense(kc, new Array(n).fill(0), [r]).k;
+        });
+
+        const transposed = t[0].map((_, j) => t.map(row => row[j]));
+        return StiffnessMatrix.multiply(transposed, StiffnessMatrix.multiply(m, t));
+    }
+
+    private static multiply(a: number[][], b: number[][]): number[][] {
+        return a.map(row => b[0].map((_, j) => row.reduce((sum, value, k) => sum + value * b[k][j], 0)));
+    }
+
+    /**
+     * Recovers the released DOFs eliminated by condense() from the element's
+     * retained displacements: K_bb · d_b = f_b - K_ba · d_a
+     * @returns Element displacement vector with the released DOFs filled in
+     */
+    static recoverReleased(k: number[][], f: number[], d: number[], released: number[]): number[] {
+        const full = [...d];
+        const retained = d.map((_, i) => i).filter(i => !released.includes(i));
+        const rhs = released.map(r => f[r] - retained.reduce((sum, j) => sum + k[r][j] * d[j], 0));
+
+        if (released.length === 1) {
+            full[released[0]] = rhs[0] / k[released[0]][released[0]];
+        } else if (released.length === 2) {
+            const [a, b] = released;
+            const determinant = k[a][a] * k[b][b] - k[a][b] * k[b][a];
+            full[a] = (rhs[0] * k[b][b] - k[a][b] * rhs[1]) / determinant;
+            full[b] = (k[a][a] * rhs[1] - k[b][a] * rhs[0]) / determinant;
+        }
+
+        return full;
+    }
+}
@@ -0,0 +1,336 @@
+import { describe, it, expect } from 'vitest';
+import { BeamAnalysisService, type BeamInput } from './BeamAnalysisService';
+import { DiagramCalculator } from './DiagramCalculator';
+import { LoadCombinationService } from './LoadCombinationService';
+import { SupportDisplacementLoad, PointForceLoad, DistributedForceLoad, TemperatureLoad, type Load } from '../entities/Load';
+
+describe('BeamAnalysisService - Pattern live loading', () => {
+    const span = 6;
+    const w = 10;
+
+    // Viga continua de dos vanos iguales con carga viva uniforme y voladizo de 1 m
+    const input: BeamInput = {
+        length: 2 * span + 1,
+        E: 200e9,
+        I: 0.0001,
+        supports: [
+            { x: 0, type: 'Pin' },
+            { x: span, type: 'Roller' },
+            { x: 2 * span, type: 'Roller' }
+        ],
+        loads: [
+            { id: 'live', type: 'DistributedForce', magnitude: -w, startX: 0, endX: 2 * span, category: 'Live' },
+            { id: 'dead', type: 'DistributedForce', magnitude: -5, startX: 0, endX: 2 * span + 1, category: 'Dead' }
+        ]
+    };
+
+    it('Should identify spans and overhangs from the supports', () => {
+        const spans = BeamAnalysisService.getSpans(input);
+
+        expect(spans.map(s => [s.startX, s.endX, s.kind])).toEqual([
+            [0, span, 'span'],
+            [span, 2 * span, 'span'],
+            [2 * span, 2 * span + 1, 'cantilever']
+        ]);
+    });
+
+    it('Should skip pattern loading for beams with fewer than three supports', () => {
+        const simple = { ...input, supports: input.supports.slice(0, 2) };
+        expect(BeamAnalysisService.analyzePatternLiveLoading(simple)).toBeNull();
+    });
+
+    it('Should find the checkerboard maxima of a two-span beam', () => {
+        const patterns = BeamAnalysisService.analyzePatternLiveLoading(input)!;
+
+        expect(patterns).not.toBeNull();
+        const [first, second] = patterns.spans;
+
+        // Un solo vano cargado: M+ = 49/512 wL² (mayor que 0.0703 wL² con ambos vanos)
+        expect(first.maxPositiveMoment).toBeCloseTo((49 / 512) * w * span * span, 0);
+        expect(first.maxPositivePattern).not.toBe('All spans');
+        // Ambos vanos cargados: M- sobre el apoyo interior = -wL²/8
+        expect(first.maxNegativeMoment).toBeCloseTo(-(w * span * span) / 8, 1);
+        expect(second.maxNegativeMoment).toBeCloseTo(first.maxNegativeMoment, 6);
+
+        // La reacción interior máxima ocurre con ambos vanos cargados: 10/8 wL
+        const interior = patterns.reactions.find(r => Math.abs(r.x - span) < 1e-6)!;
+        expect(interior.max).toBeCloseTo(1.25 * w * span, 4);
+        // El apoyo extremo se levanta cuando sólo el vano opuesto está cargado: -wL/16
+        const end = patterns.reactions.find(r => r.x === 0)!;
+        expect(end.min).toBeCloseTo(-(w * span) / 16, 4);
+    });
+});
+
+describe('BeamAnalysisService - Support settlements', () => {
+    const span = 5;
+    const E = 200e9;
+    const I = 0.0001;
+    const EI = E / 1000 * I; // kNm², como las cargas en kN
+    const settlement = 0.01; // 10 mm hacia abajo en el apoyo central
+
+    const input: BeamInput = {
+        length: 2 * span, E, I,
+        supports: [
+            { x: 0, type: 'Pin' },
+            { x: span, type: 'Roller' },
+            { x: 2 * span, type: 'Roller' }
+        ],
+        loads: [
+            { id: 'dead', type: 'DistributedForce', magnitude: -10, startX: 0, endX: 2 * span, category: 'Dead' },
+            { id: 'settle', type: 'SupportDisplacement', magnitude: -settlement, x: span }
+        ]
+    };
+
+    it('Should solve the imposed settlement as its own load case', () => {
+        const cases = BeamAnalysisService.analyzeLoadCases(input);
+        expect(Object.keys(cases).sort()).toEqual(['Dead', 'Settlement']);
+
+        const { nodes } = BeamAnalysisService.generateMesh(input);
+        const middle = nodes.find(n => n.x === span)!;
+        const end = nodes.find(n => n.x === 0)!;
+        const result = cases.Settlement!;
+
+        // El apoyo central se mueve exactamente lo impuesto
+        expect(result.displacements[middle.id].y).toBeCloseTo(-settlement, 12);
+        // Sin cargas externas: R_B = -6EIΔ/L³ y R_A = R_C = 3EIΔ/L³
+        expect(result.reactions[middle.id].fy).toBeCloseTo(-6 * EI * settlement / span ** 3, 3);
+        expect(result.reactions[end.id].fy).toBeCloseTo(3 * EI * settlement / span ** 3, 3);
+        // 9.6 kN en el apoyo central, no 9600
+        expect(result.reactions[middle.id].fy).toBeCloseTo(-9.6, 9);
+
+        // Momento positivo sobre el apoyo asentado: 3EIΔ/L²
+        const loads = [new SupportDisplacementLoad('settle', -settlement, span)];
+        const diagrams = DiagramCalculator.calculateDiagrams(2 * span, nodes, loads, result.reactions, result.displacements, 100, 'settlement');
+        const atMiddle = diagrams.bendingMoment.find(p => Math.abs(p.x - span) < 1e-9)!;
+        expect(atMiddle.value).toBeCloseTo(3 * EI * settlement / span ** 2, 2);
+    });
+
+    it('Should include the settlement case in the code combinations', () => {
+        const cases = BeamAnalysisService.analyzeLoadCases(input);
+        const combination = LoadCombinationService.getCombinations('EN1990-ULS').find(c => c.factorFor('Settlement') > 0)!;
+        const combined = LoadCombinationService.combine(cases, combination);
+
+        const { nodes } = BeamAnalysisService.generateMesh(input);
+        const middle = nodes.find(n => n.x === span)!;
+        expect(combined.displacements[middle.id].y).toBeCloseTo(-1.2 * settlement, 12);
+        expect(combined.reactions[middle.id].fy).toBeCloseTo(
+            1.35 * cases.Dead!.reactions[middle.id].fy + 1.2 * cases.Settlement!.reactions[middle.id].fy, 6
+        );
+    });
+
+    it('Should refuse to settle a point without a support', () => {
+        const loose = { ...input, loads: [{ id: 's', type: 'SupportDisplacement' as const, magnitude: -0.01, x: 2 }] };
+        expect(() => BeamAnalysisService.analyze(loose)).toThrow(/requires a support/);
+    });
+});
+
+describe('BeamAnalysisService - Elastic foundation', () => {
+    const length = 30;
+    const E = 200e9;
+    const I = 0.0001;
+    const EI = E / 1000 * I; // kNm²
+    const k = 2000;          // kN/m por metro de viga
+    const P = 100;
+
+    // Viga larga sin apoyos sobre fundación Winkler con carga puntual al centro
+    const input: BeamInput = {
+        length, E, I,
+        supports: [],
+        loads: [{ id: 'p', type: 'PointForce', magnitude: -P, x: length / 2, category: 'Dead' }],
+        foundations: [{ startX: 0, endX: length, modulus: k }]
+    };
+
+    const diagramsFor = (beam: BeamInput, loads: Load[]) => {
+        const { nodes } = BeamAnalysisService.generateMesh(beam);
+        const result = BeamAnalysisService.analyze(beam);
+        const diagrams = DiagramCalculator.calculateDiagrams(
+            beam.length, nodes, loads, result.reactions, result.displacements, 200, 'dead', undefined, undefined, beam.foundations
+        );
+        return { nodes, result, diagrams };
+    };
+
+    it('Should match the infinite beam solution under a point load', () => {
+        const { nodes, result, diagrams } = diagramsFor(input, [new PointForceLoad('p', -P, length / 2)]);
+        const beta = Math.pow(k / (4 * EI), 0.25);
+
+        // Hetényi: v = Pβ/(2k) y M = P/(4β) bajo la carga
+        const middle = nodes.find(n => Math.abs(n.x - length / 2) < 1e-9)!;
+        expect(result.displacements[middle.id].y / (-P * beta / (2 * k))).toBeCloseTo(1, 2);
+        const atLoad = diagrams.bendingMoment.find(p => Math.abs(p.x - length / 2) < 1e-9)!;
+        expect(atLoad.value / (P / (4 * beta))).toBeCloseTo(1, 2);
+        // Con k en kN/m² y EI en kNm²: β = 0.398 1/m, v ≈ 9.9 mm y el suelo reacciona Pβ/2 ≈ 19.9 kN/m
+        expect(result.displacements[middle.id].y * 1000).toBeCloseTo(-9.94, 1);
+        const pressure = diagrams.soilPressure.find(p => Math.abs(p.x - length / 2) < 1e-9)!;
+        expect(pressure.value / (P * beta / 2)).toBeCloseTo(1, 2);
+
+        // El suelo equilibra toda la carga: cortante y momento se anulan en el extremo
+        const last = diagrams.shearForce.length - 1;
+        expect(diagrams.shearForce[last].value).toBeCloseTo(0, 6);
+        expect(diagrams.bendingMoment[last].value).toBeCloseTo(0, 6);
+    });
+
+    it('Should flag the regions where the beam lifts off the soil', () => {
+        const { diagrams } = diagramsFor(input, [new PointForceLoad('p', -P, length / 2)]);
+        const beta = Math.pow(k / (4 * EI), 0.25);
+
+        // La deflexión cambia de signo a 3π/(4β) de la carga, simétricamente
+        const regions = DiagramCalculator.upliftRegions(diagrams.soilPressure);
+        expect(regions.length).toBe(2);
+        expect(length / 2 - regions[0].endX).toBeGreaterThan(3 * Math.PI / (4 * beta) - 0.2);
+        expect(regions[1].startX - length / 2).toBeCloseTo(length / 2 - regions[0].endX, 6);
+    });
+
+    it('Should carry a uniform load as uniform soil pressure without uplift', () => {
+        const w = 20;
+        const { diagrams } = diagramsFor({
+            ...input,
+            loads: [{ id: 'w', type: 'DistributedForce', magnitude: -w, startX: 0, endX: length, category: 'Dead' }]
+        }, [new DistributedForceLoad('w', -w, 0, length)]);
+
+        diagrams.soilPressure.forEach(p => expect(p.value).toBeCloseTo(w, 6));
+        expect(DiagramCalculator.upliftRegions(diagrams.soilPressure)).toEqual([]);
+    });
+});
+
+describe('BeamAnalysisService - Section segments', () => {
+    const a = 3;
+    const E = 200e9;
+    const I1 = 0.0004;
+    const I2 = 0.0001;
+    const P = 20;
+
+    // Voladizo escalonado: sección robusta junto al empotramiento, esbelta en la punta
+    const input: BeamInput = {
+        length: 2 * a, E, I: I2,
+        supports: [{ x: 0, type: 'Fixed' }],
+        loads: [{ id: 'p', type: 'PointForce', magnitude: -P, x: 2 * a, category: 'Dead' }],
+        segments: [{ startX: 0, endX: a, E, I: I1 }]
+    };
+
+    it('Should split the mesh at segment boundaries and assign their properties', () => {
+        const { elements } = BeamAnalysisService.generateMesh(input);
+
+        expect(elements.map(e => [e.startNode.x, e.endNode.x, e.I])).toEqual([
+            [0, a, I1],
+            [a, 2 * a, I2]
+        ]);
+    });
+
+    it('Should match the closed-form tip deflection of a stepped cantilever', () => {
+        const { nodes } = BeamAnalysisService.generateMesh(input);
+        const result = BeamAnalysisService.analyze(input);
+        const tip = nodes.find(n => n.x === 2 * a)!;
+
+        // Trabajo virtual: δ = P/E·[((2a)³ - a³)/(3I₁) + a³/(3I₂)]
+        const expected = -(P / (E / 1000)) * ((8 * a ** 3 - a ** 3) / (3 * I1) + a ** 3 / (3 * I2));
+        expect(result.displacements[tip.id].y).toBeCloseTo(expected, 12);
+    });
+});
+
+describe('BeamAnalysisService - Thermal loads', () => {
+    const length = 8;
+    const E = 200e9;
+    const I = 0.0001;
+    const A = 0.01;
+    const alpha = 12e-6;
+    const depth = 0.4;
+    const gradient = 20; // Cara superior 20 °C más caliente
+
+    const beam = (supports: BeamInput['supports'], load: Partial<BeamInput['loads'][number]>): BeamInput => ({
+        length, E, I, A, supports,
+        loads: [{ id: 't', type: 'Temperature', magnitude: 0, startX: 0, endX: length, alpha, depth, ...load }]
+    });
+
+    it('Should bow a simply supported beam freely without internal forces', () => {
+        const input = beam([{ x: 0, type: 'Pin' }, { x: length, type: 'Roller' }], { gradient });
+        const cases = BeamAnalysisService.analyzeLoadCases(input);
+        expect(Object.keys(cases)).toEqual(['Thermal']);
+
+        const { nodes } = BeamAnalysisService.generateMesh(input);
+        const result = cases.Thermal!;
+        Object.values(result.reactions).forEach(r => expect(r.fy).toBeCloseTo(0, 9));
+
+        // Cara superior más caliente: la viga se arquea hacia arriba, v = α·ΔT·L²/(8h) al centro
+        const loads = [new TemperatureLoad('t', 0, 0, length, gradient, alpha, depth)];
+        const diagrams = DiagramCalculator.calculateDiagrams(length, nodes, loads, result.reactions, result.displacements, 100, 'thermal');
+        const middle = diagrams.deformation.find(p => Math.abs(p.x - length / 2) < 1e-9)!;
+        expect(middle.value).toBeCloseTo(alpha * gradient * length ** 2 / (8 * depth), 9);
+        diagrams.bendingMoment.forEach(p => expect(p.value).toBeCloseTo(0, 6));
+    });
+
+    it('Should develop the restraint moment EI·α·ΔT/h in a fixed-fixed beam', () => {
+        const input = beam([{ x: 0, type: 'Fixed' }, { x: length, type: 'Fixed' }], { gradient });
+        const { nodes } = BeamAnalysisService.generateMesh(input);
+        const result = BeamAnalysisService.analyze(input);
+
+        Object.values(result.displacements).forEach(d => expect(d.y).toBeCloseTo(0, 12));
+        // Momento constante que tracciona la cara fría (inferior)
+        const loads = [new TemperatureLoad('t', 0, 0, length, gradient, alpha, depth)];
+        const diagrams = DiagramCalculator.calculateDiagrams(length, nodes, loads, result.reactions, result.displacements, 100, 'thermal');
+        const expected = E / 1000 * I * alpha * gradient / depth;
+        diagrams.bendingMoment.forEach(p => expect(p.value).toBeCloseTo(expected, 3));
+        diagrams.shearForce.forEach(p => expect(p.value).toBeCloseTo(0, 6));
+    });
+
+    it('Should compress a uniformly heated beam between pins', () => {
+        const deltaT = 30;
+        const input = beam([{ x: 0, type: 'Pin' }, { x: length, type: 'Pin' }], { magnitude: deltaT });
+        const { nodes } = BeamAnalysisService.generateMesh(input);
+        const result = BeamAnalysisService.analyze(input);
+
+        const loads = [new TemperatureLoad('t', deltaT, 0, length, 0, alpha, depth)];
+        const diagrams = DiagramCalculator.calculateDiagrams(length, nodes, loads, result.reactions, result.displacements, 100, 'thermal');
+        diagrams.axialForce.forEach(p => expect(p.value).toBeCloseTo(-E / 1000 * A * alpha * deltaT, 3));
+
+        // 20 °C con A = 0.01 m²: 200 GPa · 0.01 · 12e-6 · 20 = 480 kN de compresión
+        const twenty = beam([{ x: 0, type: 'Pin' }, { x: length, type: 'Pin' }], { magnitude: 20 });
+        const pin = BeamAnalysisService.generateMesh(twenty).nodes.find(n => n.x === length)!;
+        expect(BeamAnalysisService.analyze(twenty).reactions[pin.id].fx).toBeCloseTo(-480, 6);
+
+        // Con un rodillo la viga se dilata libremente: u = α·ΔT·L en el extremo
+        const free = beam([{ x: 0, type: 'Pin' }, { x: length, type: 'Roller' }], { magnitude: deltaT });
+        const end = BeamAnalysisService.generateMesh(free).nodes.find(n => n.x === length)!;
+        expect(BeamAnalysisService.analyze(free).displacements[end.id].x).toBeCloseTo(alpha * deltaT * length, 12);
+    });
+});
+
+describe('BeamAnalysisService - Self-weight', () => {
+    const length = 10;
+    const A = 0.01;
+    const density = 7850;
+    const w = density * 9.81 * A / 1000; // kN/m
+
+    const input: BeamInput = {
+        length, E: 200e9, I: 0.0001, A, density, selfWeight: true,
+        supports: [{ x: 0, type: 'Pin' }, { x: length, type: 'Roller' }],
+        loads: []
+    };
+
+    it('Should add the self-weight as a Dead case only when enabled', () => {
+        const cases = BeamAnalysisService.analyzeLoadCases(input);
+        expect(Object.keys(cases)).toEqual(['Dead']);
+        const total = Object.values(cases.Dead!.reactions).reduce((sum, r) => sum + r.fy, 0);
+        expect(total).toBeCloseTo(w * length, 9);
+
+        expect(BeamAnalysisService.selfWeightLoads({ ...input, selfWeight: false })).toEqual([]);
+    });
+
+    it('Should follow the area of each section segment', () => {
+        // Tramo central con el doble de área; un segmento sin A conserva el peso de la viga
+        const stepped: BeamInput = {
+            ...input,
+            segments: [
+                { startX: 0, endX: 3, E: 200e9, I: 0.0001 },
+                { startX: 3, endX: 6, E: 200e9, I: 0.0002, A: 2 * A }
+            ]
+        };
+        const loads = BeamAnalysisService.selfWeightLoads(stepped);
+
+        expect(loads.map(l => [l.startX, l.endX])).toEqual([[0, 3], [3, 6], [6, length]]);
+        expect(loads.map(l => l.magnitude / -w)).toEqual([1, 2, 1].map(f => expect.closeTo(f, 12)));
+
+        const result = BeamAnalysisService.analyze(stepped);
+        const total = Object.values(result.reactions).reduce((sum, r) => sum + r.fy, 0);
+        expect(total).toBeCloseTo(w * (length + 3), 9);
+    });
+});
@@ -1,36 +1,113 @@
 import { Node } from '../entities/Node';
-import type { SupportType } from '../entities/Node';
+import type { SupportType, SpringStiffness } from '../entities/Node';
 import { Element } from '../entities/Element';
 import { 
     PointForceLoad, 
     PointMomentLoad, 
     DistributedForceLoad, 
+    SupportDisplacementLoad,
+    TemperatureLoad,
     type Load, 
     type LoadType, 
     type LoadCategory 
 } from '../entities/Load';
+import { foundationModulusAt, type ElasticFoundation } from '../entities/Foundation';
+import { DEFAULT_SECTION_AREA, modulusInKilonewtons, segmentAt, segmentInertiaAt, selfWeightPerLength, type SectionSegment, type ShearProperties } from '../entities/Section';
 import { FemSolver, type AnalysisResults } from '../logic/FemSolver';
+import { DiagramCalculator, type DiagramData } from './DiagramCalculator';
 
+/**
+ * Beam model in kN, kN·m and Pa: lengths in m, moduli (E, G) in Pa, forces in kN,
+ * distributed loads in kN/m, moments in kN·m, springs in kN/m and kN·m/rad, and foundation
+ * moduli in kN/m per metre of beam. Reactions, shears and moments come back in kN and kN·m,
+ * displacements in m. Loads given in N would give results 1000 times too large.
+ */
 export interface BeamInput {
     length: number;
-    E: number; 
+    E: number; // Young's Modulus (Pa); the mesh builds elements with E in kN/m²
     I: number; 
-    supports: { x: number; type: SupportType }[];
+    A?: number; // Cross-section area (m²) for the axial stiffness EA, DEFAULT_SECTION_AREA when omitted
+    supports: { x: number; type: SupportType; spring?: SpringStiffness }[];
     loads: BeamLoadInput[];
+    hinges?: number[]; // Internal hinge positions (moment releases), interior points only
+    foundations?: ElasticFoundation[]; // Winkler foundation ranges under the beam
+    segments?: SectionSegment[]; // Stepped sections: E and I per range, the global E and I elsewhere
+    theory?: BeamTheory;         // Defaults to Bernoulli-Euler
+    G?: number;                  // Shear Modulus (Pa), Timoshenko only
+    As?: number;                 // Effective shear area (m²), Timoshenko only
+    density?: number;            // Material density (kg/m³) for the self-weight
+    selfWeight?: boolean;        // Adds the self-weight from density and area as Dead loads
+    meshDivisions?: number;      // Minimum elements per span, so deflections inside spans are nodal values
 }
 
+/** Bernoulli-Euler ignores shear deformation; Timoshenko adds it through G and As */
+export type BeamTheory = 'Bernoulli' | 'Timoshenko';
+
 export interface BeamLoadInput {
     id: string;
     type: LoadType;
     magnitude: number;
+    endMagnitude?: number; // Distributed loads only: intensity at endX (defaults to magnitude)
+    horizontal?: number;   // Component along the beam axis, positive to the right (intensity at startX for distributed loads)
+    endHorizontal?: number; // Distributed loads only: axial intensity at endX (defaults to horizontal)
+    rotation?: number;     // Support displacements only: imposed rotation (magnitude is the settlement)
+    gradient?: number;     // Temperature only: T_top - T_bottom (°C); magnitude is the uniform ΔT
+    alpha?: number;        // Temperature only: thermal expansion coefficient (1/°C)
+    depth?: number;        // Temperature only: section depth (m) the gradient acts across
     x?: number;        
     startX?: number;   
     endX?: number;     
     category?: LoadCategory;
 }
 
+/** Unfactored results of each load category solved on its own */
+export type LoadCaseResults = Partial<Record<LoadCategory, AnalysisResults>>;
+
+/** Beam segment between consecutive supports, or an overhang beyond the end supports */
+export interface Span {
+    index: number;
+    startX: number;
+    endX: number;
+    kind: 'span' | 'cantilever';
+}
+
+export interface LoadPattern {
+    name: string;
+    loadedSpans: number[];
+    results: AnalysisResults;
+    diagrams: DiagramData;
+}
+
+export interface SpanWorstCase {
+    span: Span;
+    maxPositiveMoment: number;
+    maxPositivePattern: string;
+    maxNegativeMoment: number;
+    maxNegativePattern: string;
+}
+
+export interface ReactionWorstCase {
+    nodeId: string;
+    x: number;
+    max: number;
+    maxPattern: string;
+    min: number;
+    minPattern: string;
+}
+
+export interface PatternLoadingResults {
+    patterns: LoadPattern[];
+    spans: SpanWorstCase[];
+    reactions: ReactionWorstCase[];
+}
+
 export class BeamAnalysisService {
 
+    /** Elements per foundation range, enough for the cubic elements to follow the soil reaction */
+    private static readonly FOUNDATION_DIVISIONS = 20;
+    /** Elements per tapered segment; each is exact at its nodes, the split refines the deflected shape */
+    private static readonly TAPER_DIVISIONS = 8;
+
     static analyze(input: BeamInput): AnalysisResults {
         console.log('🔬 BeamAnalysisService.analyze() - Processing input...');
         
@@ -38,19 +115,27 @@ export class BeamAnalysisService {
         console.log('📊 Generated Mesh:');
         console.log('   Nodes (' + nodes.length + '):', nodes.map(n => `n${nodes.indexOf(n)}: x=${n.x.toFixed(3)}m, ${n.support}`).join(', '));
         console.log('   Elements (' + elements.length + '):', elements.map(e => `e${elements.indexOf(e)}: ${e.startNode.x.toFixed(3)}m → ${e.endNode.x.toFixed(3)}m (L=${e.length.toFixed(3)}m)`).join(', '));
+        if (input.theory === 'Timoshenko') {
+            console.log(`   Timoshenko theory: G = ${input.G} Pa, As = ${input.As} m²`);
+        }
         
-        const domainLoads = BeamAnalysisService.processLoads(input.loads, elements);
+        const domainLoads = BeamAnalysisService.processLoads(BeamAnalysisService.loadsWithSelfWeight(input));
         console.log('📦 Processed Domain Loads (' + domainLoads.length + '):');
         domainLoads.forEach((load, i) => {
             if (load.type === 'PointForce') {
-                const pf = load as { x: number, magnitude: number };
-                console.log(`   ${i + 1}. PointForce: ${pf.magnitude.toFixed(2)} kN at x = ${pf.x.toFixed(3)} m`);
+                const pf = load as PointForceLoad;
+                const horizontal = pf.horizontal !== 0 ? `, H = ${pf.horizontal.toFixed(2)} kN` : '';
+                console.log(`   ${i + 1}. PointForce: ${pf.magnitude.toFixed(2)} kN${horizontal} at x = ${pf.x.toFixed(3)} m`);
             } else if (load.type === 'PointMoment') {
                 const pm = load as { x: number, magnitude: number };
                 console.log(`   ${i + 1}. PointMoment: ${pm.magnitude.toFixed(2)} kNm at x = ${pm.x.toFixed(3)} m`);
             } else if (load.type === 'DistributedForce') {
-                const df = load as { startX: number, endX: number, magnitude: number };
-                console.log(`   ${i + 1}. DistributedForce: ${df.magnitude.toFixed(2)} kN/m from x = ${df.startX.toFixed(3)} m to ${df.endX.toFixed(3)} m`);
+                const df = load as DistributedForceLoad;
+                const horizontal = df.horizontal !== 0 || df.endHorizontal !== 0 ? `, H = ${df.horizontal.toFixed(2)}→${df.endHorizontal.toFixed(2)} kN/m` : '';
+                console.log(`   ${i + 1}. DistributedForce: ${df.magnitude.toFixed(2)}→${df.endMagnitude.toFixed(2)} kN/m${horizontal} from x = ${df.startX.toFixed(3)} m to ${df.endX.toFixed(3)} m`);
+            } else if (load.type === 'SupportDisplacement') {
+                const sd = load as SupportDisplacementLoad;
+                console.log(`   ${i + 1}. SupportDisplacement: Δ = ${sd.magnitude} m, θ = ${sd.rotation} rad at x = ${sd.x.toFixed(3)} m`);
             }
         });
         
@@ -64,11 +149,304 @@ export class BeamAnalysisService {
         return results;
     }
 
-    private static generateMesh(input: BeamInput): { nodes: Node[], elements: Element[] } {
+    /**
+     * Solves every load category present in the input as an independent load case.
+     * All cases share one mesh so their results can be superposed node by node.
+     */
+    static analyzeLoadCases(input: BeamInput): LoadCaseResults {
+        const { nodes, elements } = BeamAnalysisService.generateMesh(input);
+        const domainLoads = BeamAnalysisService.processLoads(BeamAnalysisService.loadsWithSelfWeight(input));
+
+        const categories = Array.from(new Set(domainLoads.map(l => l.category)));
+        console.log('🗂️  Load cases:', categories.join(', ') || 'none');
+
+        const cases: LoadCaseResults = {};
+        categories.forEach(category => {
+            const caseLoads = domainLoads.filter(l => l.category === category);
+            cases[category] = FemSolver.solve(nodes, elements, caseLoads);
+        });
+
+        return cases;
+    }
+
+    /**
+     * Splits the beam at its supports. Overhangs beyond the first and last
+     * support are returned as cantilever spans.
+     */
+    static getSpans(input: Pick<BeamInput, 'length' | 'supports'>): Span[] {
+        const tolerance = 1e-4;
+        const supportX = Array.from(new Set(
+            input.supports.filter(s => s.type !== 'Free').map(s => s.x)
+        )).sort((a, b) => a - b);
+
+        if (supportX.length === 0) return [];
+
+        const spans: Span[] = [];
+        const push = (startX: number, endX: number, kind: Span['kind']) => {
+            if (endX - startX > tolerance) {
+                spans.push({ index: spans.length, startX, endX, kind });
+            }
+        };
+
+        push(0, supportX[0], 'cantilever');
+        for (let i = 0; i < supportX.length - 1; i++) {
+            push(supportX[i], supportX[i + 1], 'span');
+        }
+        push(supportX[supportX.length - 1], input.length, 'cantilever');
+
+        return spans;
+    }
+
+    /**
+     * Pattern (checkerboard) live loading for continuous beams with three or more supports.
+     * Live loads are split by span and every relevant pattern is solved: all spans loaded,
+     * alternate spans for maximum positive moment and adjacent pairs plus alternates for
+     * maximum negative moment over each interior support.
+     * Returns null when the beam is not continuous or carries no live load.
+     */
+    static analyzePatternLiveLoading(input: BeamInput, resolution: number = 200): PatternLoadingResults | null {
+        const liveLoads = input.loads.filter(l => (l.category || 'Dead') === 'Live');
+        const supportCount = input.supports.filter(s => s.type !== 'Free').length;
+        if (supportCount < 3 || liveLoads.length === 0) return null;
+
+        const spans = BeamAnalysisService.getSpans(input);
+        const { nodes, elements } = BeamAnalysisService.generateMesh(input);
+        console.log(`🏁 Pattern live loading: ${spans.length} spans`);
+
+        // Uniform stations plus the span boundaries, so support moments are sampled exactly
+        const stations = Array.from(new Set([
+            ...Array.from({ length: resolution + 1 }, (_, i) => (i * input.length) / resolution),
+            ...spans.flatMap(s => [s.startX, s.endX])
+        ])).sort((a, b) => a - b);
+
+        const patterns: LoadPattern[] = BeamAnalysisService.generatePatterns(spans.length).map(loadedSpans => {
+            const patternLoads = BeamAnalysisService.splitLoadsBySpan(liveLoads, spans, loadedSpans);
+            const domainLoads = BeamAnalysisService.processLoads(patternLoads);
+            const results = FemSolver.solve(nodes, elements, domainLoads);
+            const diagrams = DiagramCalculator.calculateDiagrams(
+                input.length, nodes, domainLoads, results.reactions, results.displacements, resolution, 'live', undefined, stations,
+                BeamAnalysisService.getFoundations(input), elements
+            );
+            const name = loadedSpans.length === spans.length
+                ? 'All spans'
+                : `Spans ${loadedSpans.map(i => i + 1).join(', ')}`;
+            return { name, loadedSpans, results, diagrams };
+        });
+
+        const spanWorstCases: SpanWorstCase[] = spans.map(span => {
+            const worst: SpanWorstCase = {
+                span,
+                maxPositiveMoment: 0,
+                maxPositivePattern: '',
+                maxNegativeMoment: 0,
+                maxNegativePattern: ''
+            };
+            patterns.forEach(pattern => {
+                pattern.diagrams.bendingMoment
+                    .filter(p => p.x >= span.startX - 1e-6 && p.x <= span.endX + 1e-6)
+                    .forEach(p => {
+                        if (p.value > worst.maxPositiveMoment) {
+                            worst.maxPositiveMoment = p.value;
+                            worst.maxPositivePattern = pattern.name;
+                        }
+                        if (p.value < worst.maxNegativeMoment) {
+                            worst.maxNegativeMoment = p.value;
+                            worst.maxNegativePattern = pattern.name;
+                        }
+                    });
+            });
+            return worst;
+        });
+
+        const reactions: ReactionWorstCase[] = nodes
+            .filter(node => node.isRestrainedY || node.isRestrainedRotation || node.isSpring)
+            .map(node => {
+                const worst: ReactionWorstCase = {
+                    nodeId: node.id, x: node.x, max: -Infinity, maxPattern: '', min: Infinity, minPattern: ''
+                };
+                patterns.forEach(pattern => {
+                    const fy = pattern.results.reactions[node.id]?.fy ?? 0;
+                    if (fy > worst.max) {
+                        worst.max = fy;
+                        worst.maxPattern = pattern.name;
+                    }
+                    if (fy < worst.min) {
+                        worst.min = fy;
+                        worst.minPattern = pattern.name;
+                    }
+                });
+                return worst;
+            });
+
+        return { patterns, spans: spanWorstCases, reactions };
+    }
+
+    private static generatePatterns(spanCount: number): number[][] {
+        const all = Array.from({ length: spanCount }, (_, i) => i);
+        const candidates: number[][] = [all];
+
+        // Maximum positive moment in span i: load span i and every other span
+        for (let i = 0; i < spanCount; i++) {
+            candidates.push(all.filter(j => Math.abs(j - i) % 2 === 0));
+        }
+
+        // Maximum negative moment over the support between spans i and i+1
+        for (let i = 0; i < spanCount - 1; i++) {
+            candidates.push(all.filter(j =>
+                j === i || j === i + 1 ||
+                (j < i && (i - j) % 2 === 0) ||
+                (j > i + 1 && (j - i - 1) % 2 === 0)
+            ));
+        }
+
+        const unique = new Map<string, number[]>();
+        candidates.forEach(c => unique.set(c.join(','), c));
+        return Array.from(unique.values());
+    }
+
+    private static splitLoadsBySpan(loads: BeamLoadInput[], spans: Span[], loadedSpans: number[]): BeamLoadInput[] {
+        const tolerance = 1e-4;
+        const loaded = spans.filter(s => loadedSpans.includes(s.index));
+        const pieces: BeamLoadInput[] = [];
+
+        loads.forEach(load => {
+            if (load.type === 'DistributedForce' && typeof load.startX === 'number' && typeof load.endX === 'number') {
+                const distributed = BeamAnalysisService.distributedLoad(load);
+                loaded.forEach(span => {
+                    const startX = Math.max(span.startX, load.startX!);
+                    const endX = Math.min(span.endX, load.endX!);
+                    if (endX > startX + tolerance) {
+                        pieces.push({
+                            ...load,
+                            id: `${load.id}_s${span.index}`,
+                            magnitude: distributed.intensityAt(startX),
+                            endMagnitude: distributed.intensityAt(endX),
+                            horizontal: distributed.horizontalAt(startX),
+                            endHorizontal: distributed.horizontalAt(endX),
+                            startX,
+                            endX
+                        });
+                    }
+                });
+            } else if (typeof load.x === 'number') {
+                // Concentrated live loads follow the first span that contains them
+                const owner = spans.find(s => load.x! >= s.startX - tolerance && load.x! <= s.endX + tolerance);
+                if (owner && loadedSpans.includes(owner.index)) pieces.push(load);
+            }
+        });
+
+        return pieces;
+    }
+
+    private static distributedLoad(load: BeamLoadInput): DistributedForceLoad {
+        return new DistributedForceLoad(
+            load.id, load.magnitude, load.startX!, load.endX!, 'Dead', load.endMagnitude, load.horizontal ?? 0, load.endHorizontal
+        );
+    }
+
+    /** Foundation ranges clipped to the beam, dropping empty ranges and non-positive moduli */
+    static getFoundations(input: BeamInput): ElasticFoundation[] {
+        return (input.foundations ?? [])
+            .map(f => ({
+                startX: Math.max(0, Math.min(f.startX, f.endX)),
+                endX: Math.min(input.length, Math.max(f.startX, f.endX)),
+                modulus: f.modulus
+            }))
+            .filter(f => f.modulus > 0 && f.endX - f.startX > 1e-4);
+    }
+
+    /** Section segments clipped to the beam, dropping empty ranges and invalid properties */
+    static getSegments(input: BeamInput): SectionSegment[] {
+        return (input.segments ?? [])
+            .map(s => ({
+                ...s,
+                startX: Math.max(0, Math.min(s.startX, s.endX)),
+                endX: Math.min(input.length, Math.max(s.startX, s.endX))
+            }))
+            .filter(s => s.E > 0 && s.I > 0 && (!s.taper || s.taper.IEnd > 0) && (s.A === undefined || s.A > 0) && s.endX - s.startX > 1e-4);
+    }
+
+    /**
+     * Self-weight as downward Dead distributed loads, one per stretch of constant section,
+     * following the area and density of each section segment. Empty unless input.selfWeight is set.
+     */
+    static selfWeightLoads(input: BeamInput): BeamLoadInput[] {
+        if (!input.selfWeight) return [];
+        const segments = BeamAnalysisService.getSegments(input);
+        const bounds = Array.from(new Set([0, input.length, ...segments.flatMap(s => [s.startX, s.endX])]))
+            .sort((a, b) => a - b);
+
+        const loads: BeamLoadInput[] = [];
+        bounds.slice(0, -1).forEach((startX, i) => {
+            const endX = bounds[i + 1];
+            const segment = segmentAt(segments, (startX + endX) / 2);
+            const area = segment?.A ?? input.A ?? DEFAULT_SECTION_AREA;
+            const w = selfWeightPerLength(area, segment?.density ?? input.density ?? 0);
+            if (w <= 0) return;
+
+            // Neighbouring stretches with the same weight become one load
+            const previous = loads[loads.length - 1];
+            if (previous && previous.endX === startX && Math.abs(previous.magnitude + w) < 1e-12) {
+                previous.endX = endX;
+            } else {
+                loads.push({ id: `selfweight_${loads.length}`, type: 'DistributedForce', magnitude: -w, startX, endX, category: 'Dead' });
+            }
+        });
+        return loads;
+    }
+
+    /** Input loads plus the automatic self-weight */
+    private static loadsWithSelfWeight(input: BeamInput): BeamLoadInput[] {
+        const selfWeight = BeamAnalysisService.selfWeightLoads(input);
+        if (selfWeight.length > 0) {
+            console.log(`🧱 Self-weight: ${selfWeight.map(l => `${(-l.magnitude).toFixed(3)} kN/m over x = ${l.startX!.toFixed(3)}→${l.endX!.toFixed(3)} m`).join(', ')}`);
+        }
+        return [...input.loads, ...selfWeight];
+    }
+
+    /** Shear properties of a Timoshenko analysis, undefined for Bernoulli-Euler */
+    static getShearProperties(input: BeamInput): ShearProperties | undefined {
+        if (input.theory !== 'Timoshenko') return undefined;
+        if (!input.G || !input.As || input.G <= 0 || input.As <= 0) {
+            throw new Error('Timoshenko analysis requires a positive shear modulus G and shear area As.');
+        }
+        return { G: input.G, As: input.As };
+    }
+
+    /** Hinge positions strictly inside the beam (a hinge at a free end is meaningless) */
+    static getHinges(input: BeamInput): number[] {
+        return (input.hinges ?? []).filter(x => x > 1e-4 && x < input.length - 1e-4);
+    }
+
+    /**
+     * Nodes at the beam ends, supports and hinges. Load positions are added as well so the
+     * deflection diagram samples exact nodal values under them; the solver itself
+     * handles loads anywhere inside an element. Section segment boundaries become nodes so
+     * every element has a single section law. Foundation ranges and tapered segments are
+     * subdivided so the diagrams follow the soil pressure and the varying stiffness.
+     * With meshDivisions every span is subdivided too.
+     */
+    static generateMesh(input: BeamInput): { nodes: Node[], elements: Element[] } {
         const points = new Set<number>();
         points.add(0);
         points.add(input.length);
         input.supports.forEach(s => points.add(s.x));
+        const hinges = BeamAnalysisService.getHinges(input);
+        hinges.forEach(x => points.add(x));
+        const foundations = BeamAnalysisService.getFoundations(input);
+        const shearInput = BeamAnalysisService.getShearProperties(input);
+        const shear = shearInput && { G: modulusInKilonewtons(shearInput.G), As: shearInput.As };
+        const area = input.A ?? DEFAULT_SECTION_AREA;
+        if (area <= 0) throw new Error('Cross-section area A must be positive.');
+        foundations.forEach(f => {
+            points.add(f.startX);
+            points.add(f.endX);
+        });
+        const segments = BeamAnalysisService.getSegments(input);
+        segments.forEach(s => {
+            points.add(s.startX);
+            points.add(s.endX);
+        });
         input.loads.forEach(l => {
             if (typeof l.x === 'number') points.add(l.x);
             if (typeof l.startX === 'number') points.add(l.startX);
@@ -79,10 +457,30 @@ export class BeamAnalysisService {
             .sort((a, b) => a - b)
             .filter(x => x >= 0 && x <= input.length);
 
-        const nodes: Node[] = sortedX.map((x, i) => {
+        // Refine every interval lying on a foundation or a tapered segment to its share of the divisions
+        const refinements = [
+            ...foundations.map(f => ({ startX: f.startX, endX: f.endX, divisions: BeamAnalysisService.FOUNDATION_DIVISIONS })),
+            ...segments.filter(s => s.taper).map(s => ({ startX: s.startX, endX: s.endX, divisions: BeamAnalysisService.TAPER_DIVISIONS })),
+            ...(input.meshDivisions ? BeamAnalysisService.getSpans(input).map(s => ({ startX: s.startX, endX: s.endX, divisions: input.meshDivisions! })) : [])
+        ];
+        const refinedX = sortedX.flatMap((x, i) => {
+            const next = sortedX[i + 1];
+            if (next === undefined) return [x];
+            const mid = (x + next) / 2;
+            const maxLength = Math.min(
+                ...refinements
+                    .filter(r => mid >= r.startX && mid <= r.endX)
+                    .map(r => (r.endX - r.startX) / r.divisions)
+            );
+            if (!Number.isFinite(maxLength)) return [x];
+            const divisions = Math.ceil((next - x) / maxLength - 1e-9);
+            return Array.from({ length: divisions }, (_, j) => x + ((next - x) * j) / divisions);
+        });
+
+        const nodes: Node[] = refinedX.map((x, i) => {
             const supportConf = input.supports.find(s => Math.abs(s.x - x) < 1e-4);
             const type = supportConf ? supportConf.type : 'Free';
-            return new Node(`n${i}`, x, type);
+            return new Node(`n${i}`, x, type, supportConf?.spring);
         });
 
         const elements: Element[] = [];
@@ -90,52 +488,48 @@ export class BeamAnalysisService {
             const startNode = nodes[i];
             const endNode = nodes[i+1];
             if (Math.abs(endNode.x - startNode.x) > 1e-6) {
-                elements.push(new Element(`e${i}`, startNode, endNode, input.E, input.I));
+                // A hinge releases the end of the element arriving from the left
+                const releaseEnd = hinges.some(x => Math.abs(x - endNode.x) < 1e-4);
+                const mid = (startNode.x + endNode.x) / 2;
+                const segment = segmentAt(segments, mid);
+                const E = modulusInKilonewtons(segment?.E ?? input.E);
+                const I = segment ? segmentInertiaAt(segment, startNode.x) : input.I;
+                const taper = segment?.taper
+                    ? { IEnd: segmentInertiaAt(segment, endNode.x), exponent: segment.taper.exponent }
+                    : undefined;
+                const modulus = foundationModulusAt(foundations, mid);
+                elements.push(new Element(`e${i}`, startNode, endNode, E, I, false, releaseEnd, modulus, taper, shear, segment?.A ?? area));
             }
         }
 
         return { nodes, elements };
     }
 
-    private static processLoads(inputs: BeamLoadInput[], elements: Element[]): Load[] {
+    private static processLoads(inputs: BeamLoadInput[]): Load[] {
         const domainLoads: Load[] = [];
 
         inputs.forEach(raw => {
             const category = raw.category || 'Dead';
 
             if (raw.type === 'PointForce' && typeof raw.x === 'number') {
-                domainLoads.push(new PointForceLoad(raw.id, raw.magnitude, raw.x, category));
+                domainLoads.push(new PointForceLoad(raw.id, raw.magnitude, raw.x, category, raw.horizontal ?? 0));
             } 
             else if (raw.type === 'PointMoment' && typeof raw.x === 'number') {
                 domainLoads.push(new PointMomentLoad(raw.id, raw.magnitude, raw.x, category));
             } 
             else if (raw.type === 'DistributedForce' && typeof raw.startX === 'number' && typeof raw.endX === 'number') {
-                const rawStart = raw.startX;
-                const rawEnd = raw.endX;
-
-                elements.forEach((el, index) => {
-                    const elStart = el.startNode.x;
-                    const elEnd = el.endNode.x;
-                    const tolerance = 1e-4;
-
-                    // Split distributed loads across element boundaries for proper FEM application
-                    const overlaps = (elStart < rawEnd + tolerance) && (elEnd > rawStart - tolerance);
-
-                    if (overlaps) {
-                        const loadStart = Math.max(elStart, rawStart);
-                        const loadEnd = Math.min(elEnd, rawEnd);
-                        
-                        if (loadEnd > loadStart + tolerance) {
-                            domainLoads.push(new DistributedForceLoad(
-                                `${raw.id}_el${index}`, 
-                                raw.magnitude, 
-                                loadStart, 
-                                loadEnd, 
-                                category
-                            ));
-                        }
-                    }
-                });
+                // FemSolver integrates partial loads over every element they touch
+                domainLoads.push(new DistributedForceLoad(
+                    raw.id, raw.magnitude, raw.startX, raw.endX, category, raw.endMagnitude, raw.horizontal ?? 0, raw.endHorizontal
+                ));
+            }
+            else if (raw.type === 'SupportDisplacement' && typeof raw.x === 'number') {
+                // Imposed support movements always form their own Settlement case
+                domainLoads.push(new SupportDisplacementLoad(raw.id, raw.magnitude, raw.x, raw.rotation ?? 0, 'Settlement'));
+            }
+            else if (raw.type === 'Temperature' && typeof raw.startX === 'number' && typeof raw.endX === 'number') {
+                // Temperature changes likewise form the Thermal case
+                domainLoads.push(new TemperatureLoad(raw.id, raw.magnitude, raw.startX, raw.endX, raw.gradient ?? 0, raw.alpha, raw.depth ?? 0));
             }
         });
 
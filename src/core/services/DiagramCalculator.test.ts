@@ -2,13 +2,14 @@ import { describe, it, expect } from 'vitest';
 import { BeamAnalysisService } from './BeamAnalysisService';
 import { DiagramCalculator } from './DiagramCalculator';
 import { Node } from '../entities/Node';
-import { PointForceLoad } from '../entities/Load';
+import { PointForceLoad, DistributedForceLoad } from '../entities/Load';
+import { SectionProperties } from '../logic/SectionProperties';
 
 describe('DiagramCalculator - Simply Supported Beam with Central Load', () => {
     const length = 7; // meters
-    const E = 200e9; // Pa (Steel: 200 GPa)
+    const E = 200e9; // Pa (Steel: 200 GPa), el solver lo pasa a kN/m²
     const I = 0.0001; // m⁴
-    const loadMagnitude = 10; // kN (Target unit for diagrams)
+    const loadMagnitude = 10; // kN (unidad de cargas, reacciones y diagramas)
     const loadPosition = 3.5; // m (center)
 
     // Helper para reconstruir nodos basados en desplazamiento (Física)
@@ -35,7 +36,7 @@ describe('DiagramCalculator - Simply Supported Beam with Central Load', () => {
     };
 
     it('Should calculate correct reactions for simply supported beam', () => {
-        // Para análisis estructural usamos unidades SI consistentes (Newtons)
+        // Cargas en kN: las reacciones salen en kN
         const inputForAnalysis = {
             length,
             E,
@@ -48,8 +49,7 @@ describe('DiagramCalculator - Simply Supported Beam with Central Load', () => {
                 {
                     id: 'load1',
                     type: 'PointForce' as const,
-                    // CORRECCIÓN: Convertir kN a N para el solver físico
-                    magnitude: -loadMagnitude * 1000, 
+                    magnitude: -loadMagnitude,
                     x: loadPosition,
                     category: 'Dead' as const
                 }
@@ -60,14 +60,14 @@ describe('DiagramCalculator - Simply Supported Beam with Central Load', () => {
 
         const reactionEntries = Object.entries(results.reactions);
         const totalVerticalReaction = reactionEntries.reduce((sum, [, r]) => sum + r.fy, 0);
-        const appliedLoadN = -loadMagnitude * 1000; 
+        const appliedLoad = -loadMagnitude;
         
-        // Verificar equilibrio en Newtons
-        expect(Math.abs(totalVerticalReaction + appliedLoadN)).toBeLessThan(1.0); // Tolerancia 1N
+        // Verificar equilibrio en kN
+        expect(Math.abs(totalVerticalReaction + appliedLoad)).toBeLessThan(1e-3); // Tolerancia 1 N
     });
 
     it('Should calculate correct maximum deflection at center', () => {
-        // 1. Análisis en Newtons (SI Units) para obtener desplazamientos reales
+        // 1. Análisis en kN para obtener desplazamientos reales en metros
         const inputForAnalysis = {
             length, E, I,
             supports: [
@@ -78,7 +78,7 @@ describe('DiagramCalculator - Simply Supported Beam with Central Load', () => {
                 {
                     id: 'load1',
                     type: 'PointForce' as const,
-                    magnitude: -loadMagnitude * 1000, // Newtons (-10000)
+                    magnitude: -loadMagnitude, // kN (-10)
                     x: loadPosition,
                     category: 'Dead' as const
                 }
@@ -99,7 +99,7 @@ describe('DiagramCalculator - Simply Supported Beam with Central Load', () => {
             length,
             nodes,
             loadsForDiagram,
-            results.reactions,     // Reacciones en N (ojo, esto afectará el diagrama V/M si no se escala, ver test siguiente)
+            results.reactions,     // Reacciones en kN, como las cargas
             results.displacements, // Desplazamientos en m
             200, 
             'dead'
@@ -112,10 +112,8 @@ describe('DiagramCalculator - Simply Supported Beam with Central Load', () => {
 
         expect(centerDeflection).toBeDefined();
         
-        // Solución Analítica (usando N para ser consistente con E en Pa)
-        // P = 10000 N
-        const P_newtons = loadMagnitude * 1000;
-        const analyticalDeflection = (P_newtons * Math.pow(length, 3)) / (48 * E * I);
+        // Solución Analítica (P en kN, E en kN/m²)
+        const analyticalDeflection = (loadMagnitude * Math.pow(length, 3)) / (48 * (E / 1000) * I);
         
         // Comparación
         const calculatedValue = centerDeflection!.value;
@@ -127,12 +125,6 @@ describe('DiagramCalculator - Simply Supported Beam with Central Load', () => {
     });
 
     it('Should calculate correct shear force diagram', () => {
-        // NOTA IMPORTANTE:
-        // Si el BeamAnalysisService devuelve reacciones en Newtons (porque le pasamos N),
-        // y queremos el diagrama en kN, tenemos que escalar las reacciones antes de pasarlas
-        // al DiagramCalculator, O pasarle cargas en N y esperar diagrama en N.
-        // Aquí asumiré que queremos el diagrama en kN.
-        
         const inputForAnalysis = {
             length, E, I,
             supports: [ { x: 0, type: 'Pin' as const }, { x: length, type: 'Roller' as const } ],
@@ -140,7 +132,7 @@ describe('DiagramCalculator - Simply Supported Beam with Central Load', () => {
                 {
                     id: 'load1',
                     type: 'PointForce' as const,
-                    magnitude: -loadMagnitude * 1000, // Input en N
+                    magnitude: -loadMagnitude, // Input en kN
                     x: loadPosition,
                     category: 'Dead' as const
                 }
@@ -150,12 +142,6 @@ describe('DiagramCalculator - Simply Supported Beam with Central Load', () => {
         const results = BeamAnalysisService.analyze(inputForAnalysis);
         const nodes = reconstructNodesRobustly(results);
 
-        // Convertir Reacciones de N a kN para el diagrama
-        const reactionsInKN: Record<string, {fy: number, m: number}> = {};
-        Object.entries(results.reactions).forEach(([id, r]) => {
-            reactionsInKN[id] = { fy: r.fy / 1000, m: r.m / 1000 };
-        });
-
         // Cargas en kN
         const loadsForDiagram = [
             new PointForceLoad('load1', -loadMagnitude, loadPosition, 'Dead')
@@ -165,7 +151,7 @@ describe('DiagramCalculator - Simply Supported Beam with Central Load', () => {
             length,
             nodes,
             loadsForDiagram,
-            reactionsInKN, // Pasamos reacciones en kN
+            results.reactions, // Reacciones en kN
             results.displacements,
             200,
             'dead'
@@ -179,4 +165,185 @@ describe('DiagramCalculator - Simply Supported Beam with Central Load', () => {
         // V = -5 kN
         expect(Math.abs(rightOfCenter!.value + 5)).toBeLessThan(0.1);
     });
-});
\ No newline at end of file
+});
+describe('DiagramCalculator - Envelope across load cases', () => {
+    const length = 10;
+    const input = {
+        length,
+        E: 200e9,
+        I: 0.0001,
+        supports: [
+            { x: 0, type: 'Pin' as const },
+            { x: 5, type: 'Roller' as const },
+            { x: length, type: 'Roller' as const }
+        ],
+        loads: [
+            { id: 'd', type: 'DistributedForce' as const, magnitude: -10, startX: 0, endX: length, category: 'Dead' as const },
+            { id: 'w', type: 'DistributedForce' as const, magnitude: 8, startX: 5, endX: length, category: 'Wind' as const }
+        ]
+    };
+
+    it('Should bound every case and record the governing one at each station', () => {
+        const cases = BeamAnalysisService.analyzeLoadCases(input);
+        const nodes = [new Node('n0', 0, 'Pin'), new Node('n1', 5, 'Roller'), new Node('n2', length, 'Roller')];
+        const domainLoads = [
+            new DistributedForceLoad('d', -10, 0, length, 'Dead'),
+            new DistributedForceLoad('w', 8, 5, length, 'Wind')
+        ];
+
+        const dead = DiagramCalculator.calculateDiagrams(length, nodes, domainLoads, cases.Dead!.reactions, cases.Dead!.displacements, 100, 'dead');
+        const wind = DiagramCalculator.calculateDiagrams(length, nodes, domainLoads, cases.Wind!.reactions, cases.Wind!.displacements, 100, 'wind');
+
+        const envelope = DiagramCalculator.envelope([
+            { name: 'D', data: dead },
+            { name: 'W', data: wind }
+        ]);
+
+        expect(envelope.bendingMoment).toHaveLength(101);
+        envelope.bendingMoment.forEach((p, i) => {
+            expect(p.max).toBeGreaterThanOrEqual(Math.max(dead.bendingMoment[i].value, wind.bendingMoment[i].value) - 1e-9);
+            expect(p.min).toBeLessThanOrEqual(Math.min(dead.bendingMoment[i].value, wind.bendingMoment[i].value) + 1e-9);
+        });
+
+        // Sobre el apoyo interior la carga muerta da el momento negativo (wL²/8 = -31.25 kNm)
+        const overSupport = envelope.bendingMoment[50];
+        expect(overSupport.min).toBeCloseTo(-31.25, 1);
+        expect(overSupport.minCase).toBe('D');
+        // El viento ascendente en el vano derecho produce momento negativo en su centro
+        expect(envelope.bendingMoment[75].minCase).toBe('W');
+    });
+});
+
+describe('DiagramCalculator - Linearly varying loads', () => {
+    const length = 6;
+    const w = 12; // kN/m en el extremo derecho
+
+    const triangle = (supports: { x: number, type: 'Pin' | 'Roller' | 'Fixed' }[]) => ({
+        length, E: 200e9, I: 0.0001,
+        supports,
+        loads: [
+            { id: 't', type: 'DistributedForce' as const, magnitude: 0, endMagnitude: -w, startX: 0, endX: length, category: 'Dead' as const }
+        ]
+    });
+
+    it('Should match the closed form triangular load on a simply supported beam', () => {
+        const results = BeamAnalysisService.analyze(triangle([{ x: 0, type: 'Pin' }, { x: length, type: 'Roller' }]));
+
+        // Reacciones: wL/6 y wL/3
+        expect(results.reactions['n0'].fy).toBeCloseTo(w * length / 6, 6);
+        expect(results.reactions['n1'].fy).toBeCloseTo(w * length / 3, 6);
+
+        const nodes = [new Node('n0', 0, 'Pin'), new Node('n1', length, 'Roller')];
+        const loads = [new DistributedForceLoad('t', 0, 0, length, 'Dead', -w)];
+        const diagrams = DiagramCalculator.calculateDiagrams(length, nodes, loads, results.reactions, results.displacements, 600, 'dead');
+
+        // Momento máximo wL²/(9√3) en x = L/√3, donde el cortante se anula
+        const maxMoment = Math.max(...diagrams.bendingMoment.map(p => p.value));
+        expect(maxMoment).toBeCloseTo(w * length * length / (9 * Math.sqrt(3)), 2);
+        const peak = diagrams.bendingMoment.find(p => p.value === maxMoment)!;
+        expect(peak.x).toBeCloseTo(length / Math.sqrt(3), 1);
+        // El cortante llega al apoyo derecho como -wL/3
+        expect(diagrams.shearForce[diagrams.shearForce.length - 1].value).toBeCloseTo(-w * length / 3, 6);
+    });
+
+    it('Should use the triangular fixed-end forces on a fixed-fixed beam', () => {
+        const results = BeamAnalysisService.analyze(triangle([{ x: 0, type: 'Fixed' }, { x: length, type: 'Fixed' }]));
+
+        // 3wL/20 y 7wL/20; momentos de empotramiento wL²/30 y wL²/20
+        expect(results.reactions['n0'].fy).toBeCloseTo(3 * w * length / 20, 6);
+        expect(results.reactions['n1'].fy).toBeCloseTo(7 * w * length / 20, 6);
+        expect(Math.abs(results.reactions['n0'].m)).toBeCloseTo(w * length * length / 30, 6);
+        expect(Math.abs(results.reactions['n1'].m)).toBeCloseTo(w * length * length / 20, 6);
+    });
+});
+
+describe('DiagramCalculator - Internal hinges', () => {
+    const w = 10;
+
+    // Viga Gerber: empotrada en 0, rótula en 4 m y apoyo deslizante en 6 m
+    const input = {
+        length: 6, E: 200e9, I: 0.0001,
+        supports: [
+            { x: 0, type: 'Fixed' as const },
+            { x: 6, type: 'Roller' as const }
+        ],
+        hinges: [4],
+        loads: [
+            { id: 'q', type: 'DistributedForce' as const, magnitude: -w, startX: 0, endX: 6, category: 'Dead' as const }
+        ]
+    };
+
+    it('Should solve the statically determinate Gerber beam', () => {
+        const results = BeamAnalysisService.analyze(input);
+        const { nodes } = BeamAnalysisService.generateMesh(input);
+        const fixed = nodes.find(n => n.x === 0)!;
+        const roller = nodes.find(n => n.x === 6)!;
+
+        // El tramo suspendido (4-6 m) apoya w·2/2 en el rodillo y en la rótula
+        expect(results.reactions[roller.id].fy).toBeCloseTo(2 * w / 2, 6);
+        expect(results.reactions[fixed.id].fy).toBeCloseTo(4 * w + w, 6);
+        expect(Math.abs(results.reactions[fixed.id].m)).toBeCloseTo(w * 16 / 2 + w * 4, 6);
+    });
+
+    it('Should show zero moment and a slope kink at the hinge', () => {
+        const results = BeamAnalysisService.analyze(input);
+        const { nodes } = BeamAnalysisService.generateMesh(input);
+        const hinge = nodes.find(n => n.x === 4)!;
+        const loads = [new DistributedForceLoad('q', -w, 0, 6, 'Dead')];
+
+        const diagrams = DiagramCalculator.calculateDiagrams(6, nodes, loads, results.reactions, results.displacements, 60, 'dead');
+        const atHinge = diagrams.bendingMoment.find(p => Math.abs(p.x - 4) < 1e-9)!;
+        expect(atHinge.value).toBeCloseTo(0, 6);
+
+        // Giros distintos a cada lado de la rótula
+        const { rotation, hingeRotation } = results.displacements[hinge.id];
+        expect(hingeRotation).toBeDefined();
+        expect(Math.abs(hingeRotation! - rotation)).toBeGreaterThan(1e-6);
+
+        // Pendiente del voladizo en su extremo: θ = -(w·4³/6 + V·4²/2)/EI con V = w
+        const EI = 200e9 / 1000 * 0.0001; // kNm²
+        expect(hingeRotation!).toBeCloseTo(-(w * 64 / 6 + w * 16 / 2) / EI, 12);
+    });
+});
+
+describe('DiagramCalculator - Section stresses', () => {
+    const length = 8;
+    const w = 20; // kN/m
+    const section = SectionProperties.compute({ kind: 'rectangle', b: 0.2, h: 0.5 });
+
+    const diagramsFor = () => {
+        const input = {
+            length, E: 30e9, I: section.I, A: section.A,
+            supports: [{ x: 0, type: 'Pin' as const }, { x: length, type: 'Roller' as const }],
+            loads: [{ id: 'q', type: 'DistributedForce' as const, magnitude: -w, startX: 0, endX: length, category: 'Dead' as const }]
+        };
+        const results = BeamAnalysisService.analyze(input);
+        const { nodes } = BeamAnalysisService.generateMesh(input);
+        const loads = [new DistributedForceLoad('q', -w, 0, length, 'Dead')];
+        return DiagramCalculator.calculateDiagrams(length, nodes, loads, results.reactions, results.displacements, 200, 'dead');
+    };
+
+    it('Should give M/S at midspan and 1.5·V/A at the supports', () => {
+        const stresses = DiagramCalculator.stressDiagrams(diagramsFor(), section, 10);
+
+        // σ = (wL²/8)/(bh²/6) = 160/0.008333 kPa, tracción en la fibra inferior
+        expect(stresses.normalStress[100].value).toBeCloseTo(w * length ** 2 / 8 / section.Sbottom / 1000, 4);
+        expect(Math.abs(stresses.shearStress[0].value)).toBeCloseTo(1.5 * (w * length / 2) / section.A / 1000, 4);
+    });
+
+    it('Should locate the critical station and the governing stress', () => {
+        const bendingCheck = DiagramCalculator.stressDiagrams(diagramsFor(), section, 25);
+        expect(bendingCheck.critical.x).toBeCloseTo(length / 2, 6);
+        expect(bendingCheck.critical.governs).toBe('bending');
+        expect(bendingCheck.critical.ratio).toBeCloseTo(19.2 / 25, 4);
+        expect(Math.max(...bendingCheck.utilization.map(p => p.value))).toBe(bendingCheck.critical.ratio);
+
+        // Sin momento solo cuenta el cortante, contra τadm = σadm/√3
+        const zero = [{ x: 0, value: 0 }];
+        const shearOnly = DiagramCalculator.stressDiagrams({
+            shearForce: [{ x: 0, value: 100 }], bendingMoment: zero, deformation: zero, soilPressure: zero, axialForce: zero
+        }, section, 25);
+        expect(shearOnly.critical.governs).toBe('shear');
+        expect(shearOnly.critical.ratio).toBeCloseTo(1.5 * 100 / section.A / 1000 / (25 / Math.sqrt(3)), 6);
+    });
+});
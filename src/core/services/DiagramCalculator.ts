@@ -1,7 +1,10 @@
 // src/core/services/DiagramCalculator.ts
 
 import type { Node } from '../entities/Node';
+import type { Element } from '../entities/Element';
 import type { Load, LoadCategory } from '../entities/Load';
+import { foundationModulusAt, type ElasticFoundation } from '../entities/Foundation';
+import type { CrossSectionProperties } from '../entities/CrossSection';
 
 export interface DiagramPoint {
     x: number;
@@ -12,9 +15,42 @@ export interface DiagramData {
     shearForce: DiagramPoint[];
     bendingMoment: DiagramPoint[];
     deformation: DiagramPoint[];
+    soilPressure: DiagramPoint[]; // Reacción del suelo por metro, positiva en compresión
+    axialForce: DiagramPoint[];   // Esfuerzo normal, positivo en tracción
 }
 
-export type DiagramViewMode = 'dead' | 'live';
+export interface EnvelopePoint {
+    x: number;
+    max: number;
+    min: number;
+    maxCase: string;
+    minCase: string;
+}
+
+export interface DiagramEnvelope {
+    shearForce: EnvelopePoint[];
+    bendingMoment: EnvelopePoint[];
+    deformation: EnvelopePoint[];
+    soilPressure: EnvelopePoint[];
+    axialForce: EnvelopePoint[];
+}
+
+/** Tramo de la fundación donde la viga se despega (el suelo tendría que traccionar) */
+export interface UpliftRegion {
+    startX: number;
+    endX: number;
+    minPressure: number;
+}
+
+/** Tensiones en MPa a lo largo de la viga y aprovechamiento frente a la tensión admisible */
+export interface StressDiagrams {
+    normalStress: DiagramPoint[]; // σ = N/A ± M/S en la fibra más solicitada, positiva en tracción
+    shearStress: DiagramPoint[];  // τ = VQ/(It) en el eje neutro
+    utilization: DiagramPoint[];  // máx(|σ|/σadm, |τ|/τadm)
+    critical: { x: number, ratio: number, governs: 'bending' | 'shear' };
+}
+
+export type DiagramViewMode = Lowercase<LoadCategory>;
 
 export class DiagramCalculator {
 
@@ -22,13 +58,19 @@ export class DiagramCalculator {
         length: number,
         nodes: Node[],
         loads: Load[],
-        reactions: Record<string, { fy: number, m: number }>,
-        displacements: Record<string, { y: number, rotation: number }>,
+        reactions: Record<string, { fx?: number, fy: number, m: number }>,
+        displacements: Record<string, { y: number, rotation: number, hingeRotation?: number }>,
         resolution: number = 200,
-        viewMode: DiagramViewMode = 'dead'
+        viewMode: DiagramViewMode = 'dead',
+        categories?: LoadCategory[],
+        stations?: number[],
+        foundations: ElasticFoundation[] = [],
+        elements?: Element[]
     ): DiagramData {
         
         const step = length / resolution;
+        // Estaciones explícitas (p. ej. incluyendo los apoyos) reemplazan el muestreo uniforme
+        const xs = stations ?? Array.from({ length: resolution + 1 }, (_, i) => i * step);
         const eps = 1e-3; // Tolerancia holgada para capturar reacciones
 
         // 1. Preparación de datos
@@ -36,13 +78,14 @@ export class DiagramCalculator {
 
         const pointForces: Array<{ x: number, mag: number, type: string }> = [];
         const pointMoments: Array<{ x: number, mag: number, type: string }> = [];
-        const distLoads: Array<{ startX: number, endX: number, mag: number }> = [];
+        const axialForces: Array<{ x: number, mag: number, type: string }> = [];
+        const distLoads: Array<{ startX: number, endX: number, mag: number, endMag: number, hMag: number, endHMag: number }> = [];
 
         // ---------------------------------------------------------------------------
         // A. PROCESAR REACCIONES (MODO ROBUSTO)
         // ---------------------------------------------------------------------------
         // Creamos un mapa espacial para encontrar reacciones aunque el ID falle
-        const reactionByPos = new Map<number, { fy: number, m: number }>();
+        const reactionByPos = new Map<number, { fx?: number, fy: number, m: number }>();
         
         // Llenar mapa espacial usando las coordenadas de los nodos
         sortedNodes.forEach(node => {
@@ -67,6 +110,9 @@ export class DiagramCalculator {
                 if (Math.abs(r.fy) > 1e-5) {
                     pointForces.push({ x: node.x, mag: r.fy, type: 'reaction' });
                 }
+                if (Math.abs(r.fx ?? 0) > 1e-5) {
+                    axialForces.push({ x: node.x, mag: r.fx!, type: 'reaction' });
+                }
                 // Momento de reacción se invierte para diagrama interno
                 if (Math.abs(r.m) > 1e-5) {
                     pointMoments.push({ x: node.x, mag: -r.m, type: 'reaction' }); 
@@ -77,16 +123,18 @@ export class DiagramCalculator {
         // ---------------------------------------------------------------------------
         // B. FILTRAR CARGAS
         // ---------------------------------------------------------------------------
+        // Si se indican categorías explícitas (casos de carga) tienen prioridad sobre el modo de vista
         const filteredLoads = loads.filter(load => {
             const cat = load.category || 'Dead'; 
-            if (viewMode === 'dead') return cat === 'Dead';
-            if (viewMode === 'live') return cat === 'Live';
-            return false;
+            if (categories) return categories.includes(cat);
+            return cat.toLowerCase() === viewMode;
         });
 
         // ---------------------------------------------------------------------------
         // C. PROCESAR CARGAS
         // ---------------------------------------------------------------------------
+        // Las cargas térmicas no aplican fuerzas externas: en vigas hiperestáticas los esfuerzos
+        // provienen sólo de las reacciones de restricción, ya incluidas en el paso A
         filteredLoads.forEach(load => {
             const l = load as any;
             const type = l.type || ''; 
@@ -94,17 +142,29 @@ export class DiagramCalculator {
             if (type === 'PointForce') {
                 // Usamos el signo directo de la magnitud
                 pointForces.push({ x: l.x, mag: l.magnitude, type: 'load' });
+                // Componente horizontal de cargas inclinadas (positiva hacia la derecha)
+                if (typeof l.horizontal === 'number' && Math.abs(l.horizontal) > 1e-9) {
+                    axialForces.push({ x: l.x, mag: l.horizontal, type: 'load' });
+                }
             } 
             else if (type === 'PointMoment') {
                 pointMoments.push({ x: l.x, mag: l.magnitude, type: 'load' });
             }
             else if (type === 'DistributedForce' || type === 'distributed' || type === 'DistributedLoad') {
                 const mag = l.magnitude;
-                if (Math.abs(mag) > 1e-5) {
+                // Carga trapezoidal: intensidad lineal entre startX y endX
+                const endMag = typeof l.endMagnitude === 'number' ? l.endMagnitude : mag;
+                // Componente axial de cargas inclinadas, también lineal
+                const hMag = typeof l.horizontal === 'number' ? l.horizontal : 0;
+                const endHMag = typeof l.endHorizontal === 'number' ? l.endHorizontal : hMag;
+                if ([mag, endMag, hMag, endHMag].some(v => Math.abs(v) > 1e-5)) {
                     distLoads.push({
                         startX: Number(l.startX),
                         endX: Number(l.endX),
-                        mag: mag
+                        mag: mag,
+                        endMag: endMag,
+                        hMag: hMag,
+                        endHMag: endHMag
                     });
                 }
             }
@@ -113,16 +173,68 @@ export class DiagramCalculator {
         const shearForce: DiagramPoint[] = [];
         const bendingMoment: DiagramPoint[] = [];
         const deformation: DiagramPoint[] = [];
+        const soilPressure: DiagramPoint[] = [];
+        const axialForce: DiagramPoint[] = [];
+
+        // Con elementos se interpola con sus propias funciones de forma (Timoshenko, variable)
+        const elementByStart = new Map((elements ?? []).map(el => [el.startNode.id, el]));
+
+        // Deflexión por interpolación de Hermite entre nodos consecutivos
+        const deflectionAt = (x: number): number => {
+            for (let j = 0; j < sortedNodes.length - 1; j++) {
+                const node1 = sortedNodes[j];
+                const node2 = sortedNodes[j + 1];
+
+                if (x >= node1.x - eps && x <= node2.x + eps) {
+                    const L = node2.x - node1.x;
+                    if (L < 1e-6) break;
+
+                    const xi = (x - node1.x) / L;
+                    const v1 = displacements[node1.id]?.y || 0;
+                    const th1 = displacements[node1.id]?.rotation || 0;
+                    const v2 = displacements[node2.id]?.y || 0;
+                    // En una rótula el tramo izquierdo llega con su propio giro (quiebre)
+                    const th2 = displacements[node2.id]?.hingeRotation ?? (displacements[node2.id]?.rotation || 0);
+
+                    const element = elementByStart.get(node1.id);
+                    if (element && element.startNode.x === node1.x && element.endNode.x === node2.x) {
+                        const { n } = element.shapeFunctions(x - node1.x);
+                        return n[0]*v1 + n[1]*th1 + n[2]*v2 + n[3]*th2;
+                    }
+
+                    const xi2 = xi * xi;
+                    const xi3 = xi2 * xi;
+                    const N1 = 1 - 3*xi2 + 2*xi3;
+                    const N2 = L * (xi - 2*xi2 + xi3);
+                    const N3 = 3*xi2 - 2*xi3;
+                    const N4 = L * (xi3 - xi2);
+
+                    return N1*v1 + N2*th1 + N3*v2 + N4*th2;
+                }
+            }
+            return 0;
+        };
+
+        // Tramos de fundación cortados en los nodos: la deflexión es cúbica en cada uno,
+        // así que Gauss de 3 puntos integra exactamente q y q·brazo
+        const gauss = [
+            { xi: -Math.sqrt(3 / 5), w: 5 / 9 },
+            { xi: 0, w: 8 / 9 },
+            { xi: Math.sqrt(3 / 5), w: 5 / 9 }
+        ];
+        const soilSegments = foundations.flatMap(f => {
+            const cuts = [f.startX, ...sortedNodes.map(n => n.x).filter(nx => nx > f.startX && nx < f.endX), f.endX];
+            return cuts.slice(0, -1).map((a, i) => ({ a, b: cuts[i + 1], k: f.modulus }));
+        });
 
         // ---------------------------------------------------------------------------
         // 2. CÁLCULO FÍSICO (MÉTODO DE SECCIONES)
         // ---------------------------------------------------------------------------
         
-        for (let i = 0; i <= resolution; i++) {
-            const x = i * step;
-            
+        for (const x of xs) {
             let V = 0;
             let M = 0;
+            let N = 0;
 
             // A. Fuerzas Puntuales
             for (const f of pointForces) {
@@ -140,6 +252,14 @@ export class DiagramCalculator {
                 }
             }
 
+            // Normal: equilibrio horizontal del tramo izquierdo (tracción positiva)
+            for (const f of axialForces) {
+                const isAtEnd = f.x >= (length - eps);
+                if (f.x <= x + eps && !isAtEnd) {
+                    N -= f.mag;
+                }
+            }
+
             // B. Momentos Puntuales
             for (const pm of pointMoments) {
                 const isAtEnd = pm.x >= (length - eps);
@@ -156,57 +276,184 @@ export class DiagramCalculator {
                     const width = effectiveEnd - d.startX;
 
                     if (width > 0) {
-                        const totalLoad = d.mag * width;
-                        V += totalLoad;
+                        // Parte uniforme (w1) + triángulo con pendiente k = (w2 - w1) / L
+                        const slope = (d.endMag - d.mag) / (d.endX - d.startX);
+                        const uniformLoad = d.mag * width;
+                        const triangleLoad = slope * width * width / 2;
+                        V += uniformLoad + triangleLoad;
 
                         const centroidX = d.startX + (width / 2);
-                        const leverArm = x - centroidX;
+                        const triangleCentroidX = d.startX + (2 * width / 3);
+
+                        M += uniformLoad * (x - centroidX) + triangleLoad * (x - triangleCentroidX);
 
-                        M += totalLoad * leverArm;
+                        // La resultante axial sobre el eje no produce momento
+                        const hSlope = (d.endHMag - d.hMag) / (d.endX - d.startX);
+                        N -= d.hMag * width + hSlope * width * width / 2;
                     }
                 }
             }
+
+            // D. Reacción del suelo (Winkler) a la izquierda de la sección
+            for (const seg of soilSegments) {
+                const b = Math.min(x, seg.b);
+                if (b <= seg.a) continue;
+                const half = (b - seg.a) / 2;
+                const mid = (b + seg.a) / 2;
+                for (const g of gauss) {
+                    const s = mid + g.xi * half;
+                    const q = -seg.k * deflectionAt(s) * g.w * half;
+                    V += q;
+                    M += q * (x - s);
+                }
+            }
             
             // Limpieza estética
             if (Math.abs(V) < 1e-4) V = 0;
             if (Math.abs(M) < 1e-4) M = 0;
+            if (Math.abs(N) < 1e-4) N = 0;
 
             shearForce.push({ x, value: V });
             bendingMoment.push({ x, value: M });
+            axialForce.push({ x, value: N });
         }
 
-        // 3. Deformación (Hermite) - Sin cambios
-        for (let i = 0; i <= resolution; i++) {
-            const x = i * step;
-            let defY = 0;
+        // 3. Deformación (Hermite) y presión del suelo
+        for (const x of xs) {
+            const defY = deflectionAt(x);
+            deformation.push({ x, value: defY });
+            // Winkler: q = -k·v, positiva cuando el suelo empuja hacia arriba
+            const k = foundationModulusAt(foundations, x);
+            soilPressure.push({ x, value: k > 0 ? -k * defY : 0 });
+        }
 
-            for (let j = 0; j < sortedNodes.length - 1; j++) {
-                const node1 = sortedNodes[j];
-                const node2 = sortedNodes[j + 1];
+        return { shearForce, bendingMoment, deformation, soilPressure, axialForce };
+    }
 
-                if (x >= node1.x - eps && x <= node2.x + eps) {
-                    const L = node2.x - node1.x;
-                    if (L < 1e-6) break;
+    /**
+     * Tensiones de la sección a partir de N, V y M (kN, kN·m). La tensión tangencial
+     * admisible sale de von Mises: τadm = σadm/√3. Un momento positivo tracciona la fibra inferior.
+     */
+    static stressDiagrams(data: DiagramData, section: CrossSectionProperties, allowableStress: number): StressDiagrams {
+        const toMPa = 1e-3; // kN/m² → MPa
+        const allowableShear = allowableStress / Math.sqrt(3);
 
-                    const xi = (x - node1.x) / L;
-                    const v1 = displacements[node1.id]?.y || 0;
-                    const th1 = displacements[node1.id]?.rotation || 0;
-                    const v2 = displacements[node2.id]?.y || 0;
-                    const th2 = displacements[node2.id]?.rotation || 0;
-                    const xi2 = xi * xi;
-                    const xi3 = xi2 * xi;
-                    const N1 = 1 - 3*xi2 + 2*xi3;
-                    const N2 = L * (xi - 2*xi2 + xi3);
-                    const N3 = 3*xi2 - 2*xi3;
-                    const N4 = L * (xi3 - xi2);
+        const normalStress = data.bendingMoment.map((point, i) => {
+            const axial = (data.axialForce[i]?.value ?? 0) / section.A;
+            const top = axial - point.value / section.Stop;
+            const bottom = axial + point.value / section.Sbottom;
+            // En secciones simétricas ambas fibras empatan: se informa la inferior
+            return { x: point.x, value: (Math.abs(top) > Math.abs(bottom) * (1 + 1e-9) ? top : bottom) * toMPa };
+        });
+        const shearStress = data.shearForce.map(point => ({
+            x: point.x,
+            value: point.value * section.Q / (section.I * section.widthAtCentroid) * toMPa
+        }));
 
-                    defY = N1*v1 + N2*th1 + N3*v2 + N4*th2;
-                    break; 
+        let critical: StressDiagrams['critical'] = { x: 0, ratio: 0, governs: 'bending' };
+        const utilization = normalStress.map((point, i) => {
+            const bending = Math.abs(point.value) / allowableStress;
+            const shear = Math.abs(shearStress[i].value) / allowableShear;
+            const ratio = Math.max(bending, shear);
+            if (ratio > critical.ratio) {
+                critical = { x: point.x, ratio, governs: bending >= shear ? 'bending' : 'shear' };
+            }
+            return { x: point.x, value: ratio };
+        });
+
+        return { normalStress, shearStress, utilization, critical };
+    }
+
+    /**
+     * Tramos donde la presión del suelo resulta negativa: la viga se levanta y el
+     * modelo de Winkler supone una tracción que el suelo no puede dar.
+     */
+    static upliftRegions(soilPressure: DiagramPoint[], tolerance: number = 1e-6): UpliftRegion[] {
+        const regions: UpliftRegion[] = [];
+        let current: UpliftRegion | null = null;
+
+        for (const point of soilPressure) {
+            if (point.value < -tolerance) {
+                if (!current) {
+                    current = { startX: point.x, endX: point.x, minPressure: point.value };
+                    regions.push(current);
                 }
+                current.endX = point.x;
+                current.minPressure = Math.min(current.minPressure, point.value);
+            } else {
+                current = null;
             }
-            deformation.push({ x, value: defY });
         }
 
-        return { shearForce, bendingMoment, deformation };
+        return regions;
+    }
+
+    /**
+     * Combina linealmente diagramas muestreados en las mismas estaciones
+     * (misma longitud y resolución). Sin partes devuelve diagramas nulos.
+     */
+    static superpose(
+        parts: Array<{ data: DiagramData, factor: number }>,
+        length: number,
+        resolution: number = 200
+    ): DiagramData {
+        const step = length / resolution;
+        const combine = (pick: (data: DiagramData) => DiagramPoint[]): DiagramPoint[] => {
+            const points: DiagramPoint[] = [];
+            for (let i = 0; i <= resolution; i++) {
+                const value = parts.reduce((sum, p) => sum + p.factor * (pick(p.data)[i]?.value ?? 0), 0);
+                points.push({ x: i * step, value });
+            }
+            return points;
+        };
+
+        return {
+            shearForce: combine(d => d.shearForce),
+            bendingMoment: combine(d => d.bendingMoment),
+            deformation: combine(d => d.deformation),
+            soilPressure: combine(d => d.soilPressure),
+            axialForce: combine(d => d.axialForce)
+        };
     }
-}
\ No newline at end of file
+
+    /**
+     * Envolvente máx/mín estación por estación de varios casos o combinaciones,
+     * registrando el caso que gobierna cada extremo. Los diagramas deben compartir estaciones.
+     */
+    static envelope(diagrams: Array<{ name: string, data: DiagramData }>): DiagramEnvelope {
+        const bound = (pick: (data: DiagramData) => DiagramPoint[]): EnvelopePoint[] => {
+            if (diagrams.length === 0) return [];
+            const stations = pick(diagrams[0].data);
+
+            return stations.map((station, i) => {
+                const point: EnvelopePoint = {
+                    x: station.x,
+                    max: -Infinity,
+                    min: Infinity,
+                    maxCase: '',
+                    minCase: ''
+                };
+                for (const d of diagrams) {
+                    const value = pick(d.data)[i]?.value ?? 0;
+                    if (value > point.max) {
+                        point.max = value;
+                        point.maxCase = d.name;
+                    }
+                    if (value < point.min) {
+                        point.min = value;
+                        point.minCase = d.name;
+                    }
+                }
+                return point;
+            });
+        };
+
+        return {
+            shearForce: bound(d => d.shearForce),
+            bendingMoment: bound(d => d.bendingMoment),
+            deformation: bound(d => d.deformation),
+            soilPressure: bound(d => d.soilPressure),
+            axialForce: bound(d => d.axialForce)
+        };
+    }
+}
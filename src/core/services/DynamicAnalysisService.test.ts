@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import type { BeamInput } from './BeamAnalysisService';
+import { DynamicAnalysisService } from './DynamicAnalysisService';
+import { ModalAnalysisService } from './ModalAnalysisService';
+
+describe('DynamicAnalysisService - Forced vibration', () => {
+    const E = 200e9;
+    const I = 0.0001;
+    const L = 6;
+    const input: BeamInput = {
+        length: L, E, I, A: 0.01, density: 7850,
+        supports: [{ x: 0, type: 'Pin' }, { x: L, type: 'Roller' }],
+        loads: []
+    };
+    const m = 7850 * 0.01 / 1000; // t/m, con fuerzas en kN
+
+    it('Should reach twice the static deflection under a suddenly applied load', () => {
+        const P = 10; // kN
+        const response = DynamicAnalysisService.analyze(
+            input,
+            [{ kind: 'timeHistory', x: L / 2, points: [{ t: 0, value: -P }, { t: 1, value: -P }] }],
+            { duration: 0.5, outputX: L / 2, damping: 0 }
+        );
+        const staticDeflection = P * L ** 3 / (48 * E / 1000 * I);
+
+        // Sin amortiguamiento el factor de amplificación dinámica de un escalón es 2
+        expect(response.rayleigh).toEqual({ alpha: 0, beta: 0 });
+        expect(response.peakDisplacement.value / -staticDeflection).toBeGreaterThan(1.95);
+        expect(response.peakDisplacement.value / -staticDeflection).toBeLessThan(2.02);
+        expect(response.displacement[0]).toEqual({ x: 0, value: 0 });
+    });
+
+    it('Should build up to 1/(2ζ) times the modal static response at resonance', () => {
+        const P = 1; // kN
+        const zeta = 0.02;
+        const [first] = ModalAnalysisService.analyze(input, 1).modes;
+        const response = DynamicAnalysisService.analyze(
+            input,
+            [{ kind: 'harmonic', x: L / 2, amplitude: -P, frequency: first.frequency }],
+            { duration: 6, outputX: L / 2, damping: zeta }
+        );
+        // Masa modal mL/2 con la forma senoidal de amplitud unitaria en el centro
+        const resonant = P / (m * L / 2 * first.omega ** 2) / (2 * zeta);
+
+        expect(Math.abs(response.peakDisplacement.value) / resonant).toBeCloseTo(1, 1);
+        expect(Math.abs(response.peakAcceleration.value) / (first.omega ** 2 * resonant)).toBeCloseTo(1, 1);
+        // Amortiguamiento de Rayleigh: ζ exacto en los dos primeros modos
+        const { alpha, beta } = response.rayleigh;
+        expect(alpha / (2 * first.omega) + beta * first.omega / 2).toBeCloseTo(zeta, 10);
+        expect(() => DynamicAnalysisService.analyze(input, [], { duration: 1, outputX: L + 1 })).toThrow();
+    });
+});
@@ -0,0 +1,141 @@
+import { NewmarkIntegrator } from '../logic/NewmarkIntegrator';
+import { dynamicLoadAt, type DynamicLoad } from '../entities/DynamicLoad';
+import type { BeamInput } from './BeamAnalysisService';
+import type { DiagramPoint } from './DiagramCalculator';
+import { ModalAnalysisService } from './ModalAnalysisService';
+
+export interface DynamicAnalysisOptions {
+    duration: number;      // s
+    outputX: number;       // m, point whose response is reported
+    damping?: number;      // Damping ratio ζ of the first two modes, 2% when omitted
+    addedMass?: number;    // kg/m on top of density × area, converted to t/m by ModalAnalysisService.assemble
+    timeStep?: number;     // s, chosen from the frequencies when omitted
+}
+
+export interface DynamicPeak {
+    value: number;         // Signed, largest in magnitude
+    t: number;
+}
+
+export interface DynamicResponse {
+    timeStep: number;
+    rayleigh: { alpha: number, beta: number };  // C = α·M + β·K
+    displacement: DiagramPoint[];               // m against time (x holds t), positive upward
+    acceleration: DiagramPoint[];               // m/s² against time
+    peakDisplacement: DynamicPeak;
+    peakAcceleration: DynamicPeak;
+}
+
+export class DynamicAnalysisService {
+
+    static readonly DEFAULT_DAMPING = 0.02;
+
+    /** Steps per period of the fastest frequency followed, and an upper bound on the step count */
+    private static readonly STEPS_PER_PERIOD = 20;
+    private static readonly MAX_STEPS = 20000;
+    /** Modes whose frequencies the default time step follows */
+    private static readonly FOLLOWED_MODES = 3;
+
+    /**
+     * Forced vibration of the beam under harmonic and time-history point loads, from rest,
+     * by Newmark integration of the stiffness and consistent mass used for the modal analysis.
+     * Rayleigh damping gives the damping ratio ζ at the first two natural frequencies.
+     * The response is about the static equilibrium, so the static loads are left out.
+     */
+    static analyze(input: BeamInput, loads: DynamicLoad[], options: DynamicAnalysisOptions): DynamicResponse {
+        const { duration, outputX } = options;
+        const damping = options.damping ?? DynamicAnalysisService.DEFAULT_DAMPING;
+        if (!(duration > 0)) throw new Error('Duration must be positive.');
+        if (damping < 0) throw new Error('Damping ratio cannot be negative.');
+        if (outputX < 0 || outputX > input.length) throw new Error(`Output point ${outputX} m is outside the beam.`);
+        loads.forEach(l => {
+            if (l.x < 0 || l.x > input.length) throw new Error(`Dynamic load at ${l.x} m lies outside the beam.`);
+        });
+
+        const system = ModalAnalysisService.assemble(input, options.addedMass ?? 0);
+        const { modes } = ModalAnalysisService.analyze(input, DynamicAnalysisService.FOLLOWED_MODES, options.addedMass ?? 0, 1);
+        if (modes.length === 0) throw new Error('Beam has no free degrees of freedom to vibrate.');
+        const { free } = system;
+
+        const omega1 = modes[0].omega;
+        const omega2 = modes[1]?.omega ?? omega1;
+        const rayleigh = DynamicAnalysisService.rayleigh(damping, omega1, omega2);
+
+        const fastest = Math.max(
+            ...modes.map(m => m.frequency),
+            ...loads.map(l => l.kind === 'harmonic' ? l.frequency : 0)
+        );
+        const timeStep = options.timeStep ?? Math.max(
+            1 / (DynamicAnalysisService.STEPS_PER_PERIOD * fastest),
+            duration / DynamicAnalysisService.MAX_STEPS
+        );
+        const steps = Math.ceil(duration / timeStep);
+        if (steps > DynamicAnalysisService.MAX_STEPS) {
+            throw new Error(`Time step ${timeStep} s needs more than ${DynamicAnalysisService.MAX_STEPS} steps; shorten the duration.`);
+        }
+
+        const K = free.map(i => free.map(j => system.K[i][j]));
+        const M = free.map(i => free.map(j => system.M[i][j]));
+        const C = K.map((row, i) => row.map((k, j) => rayleigh.alpha * M[i][j] + rayleigh.beta * k));
+
+        // Each point load goes to the DOFs of its element through the element's shape functions
+        const loadVectors = loads.map(load => {
+            const full = new Array(system.nodes.length * 2).fill(0);
+            const el = system.elements.find(e => load.x >= e.startNode.x - 1e-9 && load.x <= e.endNode.x + 1e-9)!;
+            const n = el.shapeFunctions(load.x - el.startNode.x).n;
+            // Released end rotations are condensed out, as for the static loads
+            const condensed = el.condenseLoads([0, n[0], n[1], 0, n[2], n[3]]);
+            const start = system.nodes.indexOf(el.startNode) * 2;
+            const end = system.nodes.indexOf(el.endNode) * 2;
+            [start, start + 1, end, end + 1].forEach((dof, i) => full[dof] += condensed[[1, 2, 4, 5][i]]);
+            return free.map(dof => full[dof]);
+        });
+        const force = (t: number) => {
+            const f = new Array(free.length).fill(0);
+            loads.forEach((load, l) => {
+                const value = dynamicLoadAt(load, t);
+                if (value !== 0) loadVectors[l].forEach((w, i) => f[i] += w * value);
+            });
+            return f;
+        };
+
+        const expand = (values: number[]) => {
+            const full = new Array(system.nodes.length * 2).fill(0);
+            free.forEach((dof, i) => full[dof] = values[i]);
+            return full;
+        };
+        const displacement: DiagramPoint[] = [];
+        const acceleration: DiagramPoint[] = [];
+        NewmarkIntegrator.integrate(K, M, C, force, timeStep, steps, state => {
+            displacement.push({ x: state.t, value: ModalAnalysisService.valueAt(system, expand(state.displacement), outputX) });
+            acceleration.push({ x: state.t, value: ModalAnalysisService.valueAt(system, expand(state.acceleration), outputX) });
+        });
+
+        const peak = (history: DiagramPoint[]): DynamicPeak => history.reduce(
+            (best, p) => Math.abs(p.value) > Math.abs(best.value) ? { value: p.value, t: p.x } : best,
+            { value: 0, t: 0 }
+        );
+        const response: DynamicResponse = {
+            timeStep,
+            rayleigh,
+            displacement,
+            acceleration,
+            peakDisplacement: peak(displacement),
+            peakAcceleration: peak(acceleration)
+        };
+
+        console.log(`〰️ Dynamic response at x = ${outputX} m: ${steps} steps of ${(timeStep * 1000).toFixed(3)} ms, peak u = ${(response.peakDisplacement.value * 1000).toFixed(3)} mm, peak a = ${response.peakAcceleration.value.toFixed(4)} m/s²`);
+        return response;
+    }
+
+    /**
+     * Rayleigh coefficients giving the damping ratio ζ at two circular frequencies:
+     * ζ(ω) = α/(2ω) + β·ω/2. With ω1 = ω2 the damping is split evenly between M and K.
+     */
+    static rayleigh(zeta: number, omega1: number, omega2: number): { alpha: number, beta: number } {
+        return {
+            alpha: (2 * zeta * omega1 * omega2) / (omega1 + omega2),
+            beta: (2 * zeta) / (omega1 + omega2)
+        };
+    }
+}
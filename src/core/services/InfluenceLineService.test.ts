@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import type { BeamInput } from './BeamAnalysisService';
+import { InfluenceLineService } from './InfluenceLineService';
+
+describe('InfluenceLineService - Unit load influence lines', () => {
+    const beam = (length: number, supports: BeamInput['supports'], hinges: number[] = []): BeamInput => ({
+        length, E: 200e9, I: 0.0001, supports, hinges, loads: []
+    });
+    const valueAt = (points: { x: number, value: number }[], x: number) => points.find(p => Math.abs(p.x - x) < 1e-9)!.value;
+
+    it('Should give the straight-line reaction and triangular moment of a simple beam', () => {
+        const L = 10;
+        const input = beam(L, [{ x: 0, type: 'Pin' }, { x: L, type: 'Roller' }]);
+
+        const reaction = InfluenceLineService.compute(input, { kind: 'reaction', x: 0 });
+        reaction.points.forEach(p => expect(p.value).toBeCloseTo(1 - p.x / L, 9));
+
+        // M en x = 4: pico a(L-a)/L = 2.4 bajo la sección; área = L·2.4/2
+        const moment = InfluenceLineService.compute(input, { kind: 'moment', x: 4 });
+        expect(moment.max.x).toBeCloseTo(4, 9);
+        expect(moment.max.value).toBeCloseTo(2.4, 9);
+        expect(moment.positiveArea).toBeCloseTo(12, 9);
+        expect(moment.negativeArea).toBeCloseTo(0, 9);
+    });
+
+    it('Should jump by one at the section in the shear influence line', () => {
+        const L = 10;
+        const shear = InfluenceLineService.compute(beam(L, [{ x: 0, type: 'Pin' }, { x: L, type: 'Roller' }]), { kind: 'shear', x: 4 });
+
+        // Carga a la izquierda: V = -x/L; a la derecha: V = 1 - x/L
+        expect(valueAt(shear.points, 4)).toBeCloseTo(-0.4, 9);
+        expect(valueAt(shear.points, 4.002)).toBeCloseTo(1 - 4.002 / L, 9);
+        expect(shear.min.value).toBeCloseTo(-0.4, 9);
+    });
+
+    it('Should follow Müller-Breslau for the middle support of a two-span beam', () => {
+        const L = 6;
+        const input = beam(2 * L, [{ x: 0, type: 'Pin' }, { x: L, type: 'Roller' }, { x: 2 * L, type: 'Roller' }]);
+        const reaction = InfluenceLineService.compute(input, { kind: 'reaction', x: L });
+
+        // R_B = ξ(3 - ξ²)/2 en el primer vano, simétrica en el segundo
+        [0.24, 0.48, 0.72].forEach(xi => {
+            expect(valueAt(reaction.points, xi * L)).toBeCloseTo(xi * (3 - xi * xi) / 2, 6);
+            expect(valueAt(reaction.points, 2 * L - xi * L)).toBeCloseTo(xi * (3 - xi * xi) / 2, 6);
+        });
+        expect(reaction.max.value).toBeCloseTo(1, 9);
+        expect(() => InfluenceLineService.compute(input, { kind: 'reaction', x: 3 })).toThrow();
+    });
+
+    it('Should give the spring force k_y·v as the reaction of a spring support', () => {
+        const L = 10;
+        const k = 5000;
+        const input = beam(L, [{ x: 0, type: 'Pin' }, { x: L, type: 'Spring', spring: { ky: k, kTheta: 0 } }]);
+        const reaction = InfluenceLineService.compute(input, { kind: 'reaction', x: L });
+
+        // Pin + resorte es isostática: el resorte reacciona x/L sea cual sea su rigidez
+        reaction.points.forEach(p => expect(p.value).toBeCloseTo(p.x / L, 9));
+        expect(reaction.max.value).toBeCloseTo(1, 9);
+    });
+
+    it('Should let a spring share the load of a propped cantilever', () => {
+        // Voladizo con resorte en la punta: con la carga unitaria en la punta toma k/(k + 3EI/L³)
+        const L = 4;
+        const k = 2000;
+        const input = beam(L, [{ x: 0, type: 'Fixed' }, { x: L, type: 'Spring', spring: { ky: k, kTheta: 0 } }]);
+        const reaction = InfluenceLineService.compute(input, { kind: 'reaction', x: L });
+        const flexural = 3 * 20000 / L ** 3; // 3EI/L³ con EI = 200e6 kN/m² · 1e-4 m⁴
+
+        expect(valueAt(reaction.points, L)).toBeCloseTo(k / (k + flexural), 9);
+        expect(valueAt(reaction.points, 0)).toBeCloseTo(0, 9);
+    });
+
+    it('Should be piecewise linear across an internal hinge', () => {
+        // Viga Gerber: el tramo suspendido transmite a la ménsula una línea recta
+        const input = beam(10, [{ x: 0, type: 'Fixed' }, { x: 10, type: 'Roller' }], [6]);
+        const moment = InfluenceLineService.compute(input, { kind: 'moment', x: 0 });
+
+        expect(valueAt(moment.points, 3)).toBeCloseTo(-3, 9);
+        expect(valueAt(moment.points, 6)).toBeCloseTo(-6, 9);
+        expect(valueAt(moment.points, 8)).toBeCloseTo(-3, 9);
+        expect(valueAt(moment.points, 10)).toBeCloseTo(0, 9);
+    });
+});
@@ -0,0 +1,96 @@
+import { FemSolver } from '../logic/FemSolver';
+import { PointForceLoad } from '../entities/Load';
+import { BeamAnalysisService, type BeamInput } from './BeamAnalysisService';
+import { DiagramCalculator, type DiagramPoint } from './DiagramCalculator';
+
+/** Response followed by an influence line: a support reaction, or V or M at a section */
+export type InfluenceResponse =
+    | { kind: 'reaction', x: number }
+    | { kind: 'shear', x: number }
+    | { kind: 'moment', x: number };
+
+export interface InfluenceLine {
+    response: InfluenceResponse;
+    points: DiagramPoint[];   // Response for a unit downward load at each position
+    max: DiagramPoint;
+    min: DiagramPoint;
+    positiveArea: number;     // Response to a unit uniform load over the positive part
+    negativeArea: number;
+}
+
+export class InfluenceLineService {
+
+    /** Just beyond the section tolerance of the diagrams, to draw the shear jump as a step */
+    private static readonly SECTION_OFFSET = 2e-3;
+
+    /**
+     * Moves a unit downward load across the beam and records the response for each
+     * position. Hinges, springs and foundations come from the input; its loads are ignored.
+     * The stiffness is factored once, so each position costs one pair of triangular solves.
+     * Upward reactions (spring forces -k_y·v included), and V and M with the diagram sign
+     * convention, are positive.
+     */
+    static compute(input: BeamInput, response: InfluenceResponse, resolution: number = 100): InfluenceLine {
+        if (response.x < 0 || response.x > input.length) {
+            throw new Error(`Response position ${response.x} m is outside the beam.`);
+        }
+
+        const unloaded: BeamInput = { ...input, loads: [], selfWeight: false };
+        const { nodes, elements } = BeamAnalysisService.generateMesh(unloaded);
+        const foundations = BeamAnalysisService.getFoundations(input);
+        const support = response.kind === 'reaction'
+            ? nodes.find(n => Math.abs(n.x - response.x) < 1e-4 && (n.isRestrainedY || (n.isSpring && n.spring!.ky > 0)))
+            : undefined;
+        if (response.kind === 'reaction' && !support) {
+            throw new Error(`There is no vertical support or spring at x = ${response.x} m.`);
+        }
+        const system = FemSolver.factor(nodes, elements);
+
+        // Uniform positions plus the nodes and the section itself, where the line has kinks or jumps.
+        // A load on the section counts as left of it, so shear also gets a position just past it
+        const positions = Array.from(new Set([
+            ...Array.from({ length: resolution + 1 }, (_, i) => (i * input.length) / resolution),
+            ...nodes.map(n => n.x),
+            response.x,
+            ...(response.kind === 'shear' ? [Math.min(input.length, response.x + InfluenceLineService.SECTION_OFFSET)] : [])
+        ])).sort((a, b) => a - b);
+        console.log(`📐 Influence line of ${response.kind} at x = ${response.x} m: ${positions.length} load positions`);
+
+        const points = positions.map(p => {
+            const loads = [new PointForceLoad('unit', -1, p, 'Live')];
+            const results = FemSolver.solveFactored(system, loads);
+            if (support) {
+                return { x: p, value: results.reactions[support.id]?.fy ?? 0 };
+            }
+            const section = DiagramCalculator.calculateDiagrams(
+                input.length, nodes, loads, results.reactions, results.displacements, 1, 'live', undefined, [response.x],
+                foundations, elements
+            );
+            const value = response.kind === 'shear' ? section.shearForce[0].value : section.bendingMoment[0].value;
+            return { x: p, value };
+        });
+
+        let positiveArea = 0;
+        let negativeArea = 0;
+        points.slice(1).forEach((b, i) => {
+            const a = points[i];
+            // Trapezoids, split where the line crosses zero
+            const dx = b.x - a.x;
+            if (a.value * b.value >= 0) {
+                const area = (a.value + b.value) * dx / 2;
+                if (area > 0) positiveArea += area;
+                else negativeArea += area;
+            } else {
+                const t = a.value / (a.value - b.value);
+                const first = a.value * t * dx / 2;
+                const second = b.value * (1 - t) * dx / 2;
+                positiveArea += Math.max(first, second);
+                negativeArea += Math.min(first, second);
+            }
+        });
+
+        const max = points.reduce((best, p) => p.value > best.value ? p : best, points[0]);
+        const min = points.reduce((best, p) => p.value < best.value ? p : best, points[0]);
+        return { response, points, max, min, positiveArea, negativeArea };
+    }
+}
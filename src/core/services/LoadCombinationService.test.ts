@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { BeamAnalysisService, type BeamInput } from './BeamAnalysisService';
+import { LoadCombinationService } from './LoadCombinationService';
+import { LoadCombination } from '../entities/LoadCombination';
+
+describe('LoadCombinationService - Superposition of load cases', () => {
+    const length = 8;
+    const E = 200e9;
+    const I = 0.0001;
+
+    // Viga simplemente apoyada: D = UDL en toda la luz, L = carga puntual en el centro
+    const input: BeamInput = {
+        length, E, I,
+        supports: [
+            { x: 0, type: 'Pin' },
+            { x: length, type: 'Roller' }
+        ],
+        loads: [
+            { id: 'dead', type: 'DistributedForce', magnitude: -10, startX: 0, endX: length, category: 'Dead' },
+            { id: 'live', type: 'PointForce', magnitude: -20, x: length / 2, category: 'Live' }
+        ]
+    };
+
+    const sumFy = (reactions: Record<string, { fy: number }>) =>
+        Object.values(reactions).reduce((sum, r) => sum + r.fy, 0);
+
+    it('Should label combinations with code symbols', () => {
+        const combo = new LoadCombination('c1', { Dead: 1.2, Live: 1.6, Wind: 1.0 });
+        expect(combo.name).toBe('1.2D + 1.6L + W');
+        expect(combo.factorFor('Snow')).toBe(0);
+    });
+
+    it('Should solve each load category once on a shared mesh', () => {
+        const cases = BeamAnalysisService.analyzeLoadCases(input);
+
+        expect(Object.keys(cases).sort()).toEqual(['Dead', 'Live']);
+        expect(Object.keys(cases.Dead!.displacements)).toEqual(Object.keys(cases.Live!.displacements));
+        expect(sumFy(cases.Dead!.reactions)).toBeCloseTo(80, 6);
+        expect(sumFy(cases.Live!.reactions)).toBeCloseTo(20, 6);
+    });
+
+    it('Should match a direct analysis of the factored loads', () => {
+        const cases = BeamAnalysisService.analyzeLoadCases(input);
+        const combo = new LoadCombination('c', { Dead: 1.2, Live: 1.6 });
+        const combined = LoadCombinationService.combine(cases, combo);
+
+        const factored = BeamAnalysisService.analyze({
+            ...input,
+            loads: [
+                { ...input.loads[0], magnitude: -12 },
+                { ...input.loads[1], magnitude: -32 }
+            ]
+        });
+
+        Object.entries(factored.displacements).forEach(([id, d]) => {
+            expect(combined.displacements[id].y).toBeCloseTo(d.y, 12);
+            expect(combined.displacements[id].rotation).toBeCloseTo(d.rotation, 12);
+        });
+        Object.entries(factored.reactions).forEach(([id, r]) => {
+            expect(combined.reactions[id].fy).toBeCloseTo(r.fy, 6);
+        });
+    });
+
+    it('Should report the governing combination of the ASCE 7 LRFD envelope', () => {
+        const cases = BeamAnalysisService.analyzeLoadCases(input);
+        const envelope = LoadCombinationService.envelope(cases, LoadCombinationService.getCombinations('ASCE7-LRFD'));
+
+        const leftSupport = Object.values(envelope.reactions)[0];
+        // 1.2(40) + 1.6(10) = 64 kN > 1.4(40) = 56 kN
+        expect(leftSupport.fy.max).toBeCloseTo(64, 6);
+        expect(leftSupport.fy.maxCombination).toBe('1.2D + 1.6L + 0.5S');
+        // 0.9D alone gives the smallest reaction
+        expect(leftSupport.fy.min).toBeCloseTo(36, 6);
+        expect(leftSupport.fy.minCombination).toBe('0.9D + W');
+    });
+});
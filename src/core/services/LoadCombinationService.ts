@@ -0,0 +1,172 @@
+import { LoadCombination } from '../entities/LoadCombination';
+import type { LoadCategory } from '../entities/Load';
+import type { AnalysisResults } from '../logic/FemSolver';
+import type { LoadCaseResults } from './BeamAnalysisService';
+
+export type CombinationStandard = 'ASCE7-LRFD' | 'ASCE7-ASD' | 'EN1990-ULS';
+
+export interface EnvelopeValue {
+    max: number;
+    maxCombination: string;
+    min: number;
+    minCombination: string;
+}
+
+export interface CombinationEnvelope {
+    displacements: Record<string, { x: EnvelopeValue, y: EnvelopeValue, rotation: EnvelopeValue }>;
+    reactions: Record<string, { fx: EnvelopeValue, fy: EnvelopeValue, m: EnvelopeValue }>;
+}
+
+export class LoadCombinationService {
+
+    static readonly STANDARD_LABELS: Record<CombinationStandard, string> = {
+        'ASCE7-LRFD': 'ASCE 7 LRFD',
+        'ASCE7-ASD': 'ASCE 7 ASD',
+        'EN1990-ULS': 'Eurocode EN 1990 ULS'
+    };
+
+    /**
+     * Basic combinations per code. Roof live and rain are not modelled, so the
+     * (Lr or S or R) terms use snow. Eurocode uses eq. 6.10 with ψ0 = 0.7 (imposed),
+     * 0.5 (snow), 0.6 (wind) and ψ2 = 0.3 for the seismic situation.
+     * Settlement (Δ) is a self-straining action whose effect may be favourable, so it is
+     * added as extra combinations: factor 1.0 in ASCE 7 (load T) and γ_Gset = 1.2 in EN 1990.
+     * Thermal (T) is added the same way: 1.0 in ASCE 7, and in EN 1990 a variable action
+     * with γ_Q = 1.5 when leading and ψ0 = 0.6 when accompanying.
+     */
+    static readonly STANDARDS: Record<CombinationStandard, LoadCombination[]> = {
+        'ASCE7-LRFD': [
+            new LoadCombination('LRFD-1', { Dead: 1.4 }),
+            new LoadCombination('LRFD-2', { Dead: 1.2, Live: 1.6, Snow: 0.5 }),
+            new LoadCombination('LRFD-3a', { Dead: 1.2, Snow: 1.6, Live: 1.0 }),
+            new LoadCombination('LRFD-3b', { Dead: 1.2, Snow: 1.6, Wind: 0.5 }),
+            new LoadCombination('LRFD-4', { Dead: 1.2, Wind: 1.0, Live: 1.0, Snow: 0.5 }),
+            new LoadCombination('LRFD-5', { Dead: 1.2, Seismic: 1.0, Live: 1.0, Snow: 0.2 }),
+            new LoadCombination('LRFD-6', { Dead: 0.9, Wind: 1.0 }),
+            new LoadCombination('LRFD-7', { Dead: 0.9, Seismic: 1.0 }),
+            new LoadCombination('LRFD-1Δ', { Dead: 1.4, Settlement: 1.0 }),
+            new LoadCombination('LRFD-2Δ', { Dead: 1.2, Live: 1.6, Snow: 0.5, Settlement: 1.0 }),
+            new LoadCombination('LRFD-1T', { Dead: 1.4, Thermal: 1.0 }),
+            new LoadCombination('LRFD-2T', { Dead: 1.2, Live: 1.6, Snow: 0.5, Thermal: 1.0 })
+        ],
+        'ASCE7-ASD': [
+            new LoadCombination('ASD-1', { Dead: 1.0 }),
+            new LoadCombination('ASD-2', { Dead: 1.0, Live: 1.0 }),
+            new LoadCombination('ASD-3', { Dead: 1.0, Snow: 1.0 }),
+            new LoadCombination('ASD-4', { Dead: 1.0, Live: 0.75, Snow: 0.75 }),
+            new LoadCombination('ASD-5a', { Dead: 1.0, Wind: 0.6 }),
+            new LoadCombination('ASD-5b', { Dead: 1.0, Seismic: 0.7 }),
+            new LoadCombination('ASD-6a', { Dead: 1.0, Live: 0.75, Wind: 0.45, Snow: 0.75 }),
+            new LoadCombination('ASD-6b', { Dead: 1.0, Live: 0.75, Seismic: 0.525, Snow: 0.75 }),
+            new LoadCombination('ASD-7a', { Dead: 0.6, Wind: 0.6 }),
+            new LoadCombination('ASD-7b', { Dead: 0.6, Seismic: 0.7 }),
+            new LoadCombination('ASD-1Δ', { Dead: 1.0, Settlement: 1.0 }),
+            new LoadCombination('ASD-2Δ', { Dead: 1.0, Live: 1.0, Settlement: 1.0 }),
+            new LoadCombination('ASD-1T', { Dead: 1.0, Thermal: 1.0 }),
+            new LoadCombination('ASD-2T', { Dead: 1.0, Live: 1.0, Thermal: 1.0 })
+        ],
+        'EN1990-ULS': [
+            new LoadCombination('EC-1', { Dead: 1.35 }),
+            new LoadCombination('EC-2', { Dead: 1.35, Live: 1.5, Snow: 0.75, Wind: 0.9 }),
+            new LoadCombination('EC-3', { Dead: 1.35, Snow: 1.5, Live: 1.05, Wind: 0.9 }),
+            new LoadCombination('EC-4', { Dead: 1.35, Wind: 1.5, Live: 1.05, Snow: 0.75 }),
+            new LoadCombination('EC-5', { Dead: 1.0, Wind: 1.5 }),
+            new LoadCombination('EC-6', { Dead: 1.0, Seismic: 1.0, Live: 0.3 }),
+            new LoadCombination('EC-1Δ', { Dead: 1.35, Settlement: 1.2 }),
+            new LoadCombination('EC-2Δ', { Dead: 1.35, Live: 1.5, Snow: 0.75, Wind: 0.9, Settlement: 1.2 }),
+            new LoadCombination('EC-1T', { Dead: 1.35, Thermal: 1.5 }),
+            new LoadCombination('EC-2T', { Dead: 1.35, Live: 1.5, Snow: 0.75, Wind: 0.9, Thermal: 0.9 })
+        ]
+    };
+
+    static getCombinations(standard: CombinationStandard): LoadCombination[] {
+        return LoadCombinationService.STANDARDS[standard];
+    }
+
+    /**
+     * Superposes the unfactored load cases with the combination factors.
+     * Cases must come from the same mesh (see BeamAnalysisService.analyzeLoadCases).
+     */
+    static combine(cases: LoadCaseResults, combination: LoadCombination): AnalysisResults {
+        const combined: AnalysisResults = { displacements: {}, reactions: {} };
+
+        // Seed every node with zeros so combinations without active cases still cover the mesh
+        Object.values(cases).forEach(caseResult => {
+            if (!caseResult) return;
+            Object.keys(caseResult.displacements).forEach(id => {
+                combined.displacements[id] ??= { x: 0, y: 0, rotation: 0 };
+            });
+            Object.keys(caseResult.reactions).forEach(id => {
+                combined.reactions[id] ??= { fx: 0, fy: 0, m: 0 };
+            });
+        });
+
+        (Object.entries(cases) as [LoadCategory, AnalysisResults | undefined][]).forEach(([category, caseResult]) => {
+            const factor = combination.factorFor(category);
+            if (!caseResult || factor === 0) return;
+
+            Object.entries(caseResult.displacements).forEach(([id, d]) => {
+                combined.displacements[id].x += factor * d.x;
+                combined.displacements[id].y += factor * d.y;
+                combined.displacements[id].rotation += factor * d.rotation;
+                if (d.hingeRotation !== undefined) {
+                    combined.displacements[id].hingeRotation = (combined.displacements[id].hingeRotation ?? 0) + factor * d.hingeRotation;
+                }
+            });
+            Object.entries(caseResult.reactions).forEach(([id, r]) => {
+                combined.reactions[id].fx += factor * r.fx;
+                combined.reactions[id].fy += factor * r.fy;
+                combined.reactions[id].m += factor * r.m;
+            });
+        });
+
+        return combined;
+    }
+
+    /**
+     * Maximum and minimum nodal displacements and reactions over a set of
+     * combinations, recording the combination that governs each extreme.
+     */
+    static envelope(cases: LoadCaseResults, combinations: LoadCombination[]): CombinationEnvelope {
+        const envelope: CombinationEnvelope = { displacements: {}, reactions: {} };
+
+        combinations.forEach(combination => {
+            const combined = LoadCombinationService.combine(cases, combination);
+
+            Object.entries(combined.displacements).forEach(([id, d]) => {
+                const current = envelope.displacements[id];
+                envelope.displacements[id] = {
+                    x: LoadCombinationService.track(current?.x, d.x, combination.name),
+                    y: LoadCombinationService.track(current?.y, d.y, combination.name),
+                    rotation: LoadCombinationService.track(current?.rotation, d.rotation, combination.name)
+                };
+            });
+            Object.entries(combined.reactions).forEach(([id, r]) => {
+                const current = envelope.reactions[id];
+                envelope.reactions[id] = {
+                    fx: LoadCombinationService.track(current?.fx, r.fx, combination.name),
+                    fy: LoadCombinationService.track(current?.fy, r.fy, combination.name),
+                    m: LoadCombinationService.track(current?.m, r.m, combination.name)
+                };
+            });
+        });
+
+        return envelope;
+    }
+
+    private static track(current: EnvelopeValue | undefined, value: number, combination: string): EnvelopeValue {
+        if (!current) {
+            return { max: value, maxCombination: combination, min: value, minCombination: combination };
+        }
+        const next = { ...current };
+        if (value > next.max) {
+            next.max = value;
+            next.maxCombination = combination;
+        }
+        if (value < next.min) {
+            next.min = value;
+            next.minCombination = combination;
+        }
+        return next;
+    }
+}
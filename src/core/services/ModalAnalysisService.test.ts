@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import type { BeamInput } from './BeamAnalysisService';
+import { ModalAnalysisService } from './ModalAnalysisService';
+
+describe('ModalAnalysisService - Natural frequencies', () => {
+    const E = 200e9;
+    const I = 0.0001;
+    const A = 0.01;
+    const density = 7850;
+    const L = 6;
+    const m = density * A;
+    // Rigidez en kN/m: ω con EI en kNm² y masa en t/m
+    const omegaRoot = Math.sqrt(E / 1000 * I / (m / 1000 * L ** 4));
+
+    it('Should match the closed-form frequencies of a simply supported beam', () => {
+        const input: BeamInput = {
+            length: L, E, I, A, density,
+            supports: [{ x: 0, type: 'Pin' }, { x: L, type: 'Roller' }],
+            loads: []
+        };
+        const { modes, totalMass } = ModalAnalysisService.analyze(input, 3);
+        // ωn = (nπ)² √(EI / (m L⁴))
+        const omega = (n: number) => (n * Math.PI) ** 2 * omegaRoot;
+
+        expect(totalMass).toBeCloseTo(m * L, 9);
+        modes.forEach(mode => expect(mode.omega / omega(mode.index)).toBeCloseTo(1, 3));
+        // Modo fundamental: media onda senoidal con el 81% de la masa (8/π²)
+        expect(modes[0].shape.find(p => Math.abs(p.x - L / 4) < 1e-9)!.value).toBeCloseTo(Math.SQRT1_2, 3);
+        expect(modes[0].effectiveMassRatio).toBeCloseTo(8 / Math.PI ** 2, 4);
+        expect(modes[1].effectiveMassRatio).toBeCloseTo(0, 9);
+    });
+
+    it('Should bounce a stiff beam on its spring supports at √(2k/(mL))', () => {
+        // Resortes en kN/m y una viga casi rígida: el primer modo es la traslación sobre los resortes
+        const k = 1000;
+        const input: BeamInput = {
+            length: L, E: E * 1e4, I, A, density,
+            supports: [
+                { x: 0, type: 'Spring', spring: { ky: k, kTheta: 0 } },
+                { x: L, type: 'Spring', spring: { ky: k, kTheta: 0 } }
+            ],
+            loads: []
+        };
+        const [bounce] = ModalAnalysisService.analyze(input, 1).modes;
+
+        expect(bounce.omega).toBeCloseTo(Math.sqrt(2 * k / (m / 1000 * L)), 2);
+        expect(bounce.effectiveMassRatio).toBeCloseTo(1, 4);
+    });
+
+    it('Should lower the cantilever frequency with added mass and require some mass', () => {
+        const input: BeamInput = {
+            length: L, E, I, A, density,
+            supports: [{ x: 0, type: 'Fixed' }],
+            loads: []
+        };
+        const [first] = ModalAnalysisService.analyze(input, 1).modes;
+        const [heavier] = ModalAnalysisService.analyze(input, 1, m).modes;
+
+        expect(first.omega).toBeCloseTo(1.875104 ** 2 * omegaRoot, 3);
+        // Doblar la masa divide la frecuencia por √2
+        expect(first.frequency / heavier.frequency).toBeCloseTo(Math.SQRT2, 6);
+        expect(() => ModalAnalysisService.analyze({ ...input, density: 0 })).toThrow();
+    });
+});
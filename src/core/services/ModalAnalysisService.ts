@@ -0,0 +1,162 @@
+import { EigenSolver } from '../logic/EigenSolver';
+import type { Node } from '../entities/Node';
+import type { Element } from '../entities/Element';
+import { DEFAULT_SECTION_AREA, segmentAt } from '../entities/Section';
+import { BeamAnalysisService, type BeamInput } from './BeamAnalysisService';
+import { DiagramCalculator, type DiagramPoint } from './DiagramCalculator';
+
+export interface VibrationMode {
+    index: number;              // 1 for the fundamental mode
+    omega: number;              // rad/s
+    frequency: number;          // Hz
+    period: number;             // s
+    effectiveMassRatio: number; // Share of the total mass taking part in vertical motion
+    shape: DiagramPoint[];      // Deflected shape scaled to +1 at its largest ordinate
+}
+
+export interface ModalResults {
+    modes: VibrationMode[];
+    totalMass: number;          // kg, beam plus added mass
+}
+
+/** Bending stiffness (kN, m) and consistent mass (t) on [v, θ] per node, with the unrestrained DOFs */
+export interface BendingSystem {
+    nodes: Node[];
+    elements: Element[];
+    K: number[][];
+    M: number[][];
+    free: number[];
+    totalMass: number;          // kg, beam plus added mass
+}
+
+export class ModalAnalysisService {
+
+    /** Elements per span, so the higher modes get several elements per half wave */
+    private static readonly MESH_DIVISIONS = 12;
+    /**
+     * Masses enter in kg (density in kg/m³, added mass in kg/m) and totalMass is reported
+     * in kg, but the stiffness is in kN/m: the elements get their mass per length in t/m,
+     * so M is in tonnes (kN·s²/m) and ω comes out in rad/s. This is the only conversion.
+     */
+    private static readonly KG_PER_TONNE = 1000;
+
+    /**
+     * Natural frequencies and mode shapes of the beam's bending vibration, from its stiffness
+     * and consistent mass. The mass is the density times the section area of each segment,
+     * plus a uniform added mass for finishes or the quasi-permanent live load (kg/m).
+     * Supports, springs, hinges and foundations come from the input; its loads are ignored.
+     */
+    static analyze(input: BeamInput, modeCount: number = 6, addedMass: number = 0, resolution: number = 200): ModalResults {
+        const system = ModalAnalysisService.assemble(input, addedMass);
+        const { nodes, elements, M, free, totalMass } = system;
+        const size = nodes.length * 2;
+        if (free.length === 0) return { modes: [], totalMass: 0 };
+
+        const pairs = EigenSolver.generalized(
+            free.map(i => free.map(j => system.K[i][j])),
+            free.map(i => free.map(j => M[i][j]))
+        );
+        if (pairs[0].value <= 1e-12 * pairs[pairs.length - 1].value) {
+            throw new Error('Structure is unstable (Mechanism): it has a zero-frequency mode.');
+        }
+
+        // M·r for a unit vertical motion of the whole beam, supports included (ground motion)
+        const influence = M.map(row => row.reduce((sum, value, j) => j % 2 === 0 ? sum + value : sum, 0));
+
+        const modes = pairs.slice(0, modeCount).map(({ value, vector }, index): VibrationMode => {
+            const full = new Array(size).fill(0);
+            free.forEach((dof, i) => full[dof] = vector[i]);
+
+            const displacements: Record<string, { y: number, rotation: number, hingeRotation?: number }> = {};
+            nodes.forEach((node, i) => displacements[node.id] = { y: full[2 * i], rotation: full[2 * i + 1] });
+            elements.forEach(el => {
+                if (el.releaseEnd) displacements[el.endNode.id].hingeRotation = ModalAnalysisService.elementDofs(system, el, full)[3];
+            });
+
+            const deformation = DiagramCalculator.calculateDiagrams(
+                input.length, nodes, [], {}, displacements, resolution, undefined, undefined, undefined, [], elements
+            ).deformation;
+            const peak = deformation.reduce((best, p) => Math.abs(p.value) > Math.abs(best) ? p.value : best, 0) || 1;
+
+            // Participation Γ = φᵀ·M·r of the mass-normalised mode, effective mass Γ² (t)
+            const participation = vector.reduce((sum, phi, i) => sum + phi * influence[free[i]], 0);
+            const omega = Math.sqrt(value);
+            return {
+                index: index + 1,
+                omega,
+                frequency: omega / (2 * Math.PI),
+                period: (2 * Math.PI) / omega,
+                effectiveMassRatio: participation * participation * ModalAnalysisService.KG_PER_TONNE / totalMass,
+                shape: deformation.map(p => ({ x: p.x, value: p.value / peak }))
+            };
+        });
+
+        console.log(`🎵 Modal analysis: ${modes.map(m => `f${m.index} = ${m.frequency.toFixed(2)} Hz`).join(', ')}`);
+        return { modes, totalMass };
+    }
+
+    /**
+     * Assembles the bending stiffness and consistent mass of the refined mesh.
+     * Axial vibration does not couple with bending, so only v and θ are kept.
+     * M is in tonnes (see KG_PER_TONNE); addedMass is in kg/m.
+     */
+    static assemble(input: BeamInput, addedMass: number = 0): BendingSystem {
+        const refined: BeamInput = { ...input, loads: [], selfWeight: false, meshDivisions: ModalAnalysisService.MESH_DIVISIONS };
+        const { nodes, elements } = BeamAnalysisService.generateMesh(refined);
+        const segments = BeamAnalysisService.getSegments(input);
+
+        const massPerLength = elements.map(el => {
+            const segment = segmentAt(segments, (el.startNode.x + el.endNode.x) / 2);
+            const area = segment?.A ?? input.A ?? DEFAULT_SECTION_AREA;
+            return (segment?.density ?? input.density ?? 0) * area + addedMass;
+        });
+        if (massPerLength.some(m => m <= 0)) {
+            throw new Error('Vibration analysis needs mass: set a material density or an added mass.');
+        }
+
+        const nodeIndex = new Map(nodes.map((n, i) => [n.id, i]));
+        const size = nodes.length * 2;
+        const K = Array.from({ length: size }, () => new Array(size).fill(0));
+        const M = Array.from({ length: size }, () => new Array(size).fill(0));
+        elements.forEach((el, e) => {
+            const start = nodeIndex.get(el.startNode.id)! * 2;
+            const end = nodeIndex.get(el.endNode.id)! * 2;
+            const dofs = [start, start + 1, end, end + 1];
+            const k = [1, 2, 4, 5].map(i => [1, 2, 4, 5].map(j => el.stiffnessMatrix[i][j]));
+            const m = el.massMatrix(massPerLength[e] / ModalAnalysisService.KG_PER_TONNE);
+            dofs.forEach((row, i) => dofs.forEach((col, j) => {
+                K[row][col] += k[i][j];
+                M[row][col] += m[i][j];
+            }));
+        });
+        nodes.forEach((node, i) => {
+            if (!node.isSpring) return;
+            K[2 * i][2 * i] += node.spring!.ky;
+            K[2 * i + 1][2 * i + 1] += node.spring!.kTheta;
+        });
+
+        const free = nodes.flatMap((node, i) => [
+            ...(node.isRestrainedY ? [] : [2 * i]),
+            ...(node.isRestrainedRotation ? [] : [2 * i + 1])
+        ]);
+        const totalMass = elements.reduce((sum, el, e) => sum + massPerLength[e] * el.length, 0);
+        return { nodes, elements, K, M, free, totalMass };
+    }
+
+    /** Value at x of a field given on the system DOFs (deflection, velocity or acceleration) */
+    static valueAt(system: BendingSystem, full: number[], x: number): number {
+        const el = system.elements.find(e => x >= e.startNode.x - 1e-9 && x <= e.endNode.x + 1e-9);
+        if (!el) throw new Error(`Point x = ${x} m is outside the beam.`);
+        const n = el.shapeFunctions(x - el.startNode.x).n;
+        return ModalAnalysisService.elementDofs(system, el, full).reduce((sum, d, i) => sum + n[i] * d, 0);
+    }
+
+    /** Element DOFs [v1, θ1, v2, θ2], with the element's own end rotation at a hinge */
+    private static elementDofs(system: BendingSystem, el: Element, full: number[]): number[] {
+        const start = system.nodes.indexOf(el.startNode) * 2;
+        const end = system.nodes.indexOf(el.endNode) * 2;
+        const d = [0, full[start], full[start + 1], 0, full[end], full[end + 1]];
+        if (!el.releaseEnd) return [d[1], d[2], d[4], d[5]];
+        return [d[1], d[2], d[4], el.endRotations(d, [0, 0, 0, 0, 0, 0])[1]];
+    }
+}
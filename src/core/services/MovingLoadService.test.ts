@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import type { BeamInput } from './BeamAnalysisService';
+import { MovingLoadService } from './MovingLoadService';
+
+describe('MovingLoadService - Moving axle groups', () => {
+    const L = 10;
+    const input: BeamInput = {
+        length: L, E: 200e9, I: 0.0001,
+        supports: [{ x: 0, type: 'Pin' }, { x: L, type: 'Roller' }],
+        loads: []
+    };
+
+    it('Should find PL/4 at midspan for a single axle', () => {
+        const P = 100;
+        const results = MovingLoadService.analyze(input, { name: 'single', axles: [{ offset: 0, load: P }] });
+
+        expect(results.maxMoment.value).toBeCloseTo(P * L / 4, 6);
+        expect(results.maxMoment.x).toBeCloseTo(L / 2, 6);
+        expect(results.maxMoment.position).toBeCloseTo(L / 2, 6);
+        // Reacción máxima con el eje sobre el apoyo
+        expect(results.reactions[0].max).toBeCloseTo(P, 6);
+        // El cortante tiende a P con el eje junto al apoyo
+        expect(Math.abs(results.maxShear.value)).toBeGreaterThan(0.99 * P);
+        expect(Math.abs(results.maxShear.value)).toBeLessThanOrEqual(P + 1e-9);
+        expect(results.envelope.bendingMoment).toHaveLength(201);
+    });
+
+    it('Should place two equal axles by the classical critical position rule', () => {
+        const P = 100;
+        const s = 3;
+        const results = MovingLoadService.analyze(input, { name: 'crane', axles: [{ offset: 0, load: P }, { offset: s, load: P }] });
+        // Un eje a L/2 - s/4 del centro: Mmax = P (L - s/2)² / (2L)
+        const exact = P * (L - s / 2) ** 2 / (2 * L);
+
+        expect(Math.abs(results.maxMoment.value - exact) / exact).toBeLessThan(1e-3);
+        expect(Math.abs(results.maxMoment.x - L / 2)).toBeCloseTo(s / 4, 1);
+        expect(results.reactions[1].max).toBeCloseTo(P * (2 - s / L), 6);
+        expect(results.minMoment.value).toBeCloseTo(0, 9);
+        expect(() => MovingLoadService.analyze(input, { name: 'empty', axles: [] })).toThrow();
+    });
+
+    it('Should trail the axles behind the first one as the train moves in +x', () => {
+        const results = MovingLoadService.analyze(input, { name: 'truck', axles: [{ offset: 0, load: 100 }, { offset: 3, load: 50 }] });
+
+        // Del primer eje entrando al último saliendo
+        expect(results.positions[0].position).toBe(0);
+        expect(results.positions[results.positions.length - 1].position).toBeCloseTo(L + 3, 9);
+        // Primer eje sobre el apoyo derecho y el segundo 3 m detrás: 100 + 50·(L - 3)/L
+        expect(results.reactions[1].max).toBeCloseTo(100 + 50 * (L - 3) / L, 6);
+        expect(results.reactions[1].maxPosition).toBeCloseTo(L, 6);
+    });
+
+    it('Should report the force of a spring support as a reaction', () => {
+        const P = 100;
+        const sprung: BeamInput = { ...input, supports: [{ x: 0, type: 'Pin' }, { x: L, type: 'Spring', spring: { ky: 5000, kTheta: 0 } }] };
+        const results = MovingLoadService.analyze(sprung, { name: 'single', axles: [{ offset: 0, load: P }] });
+
+        // Pin + resorte es isostática: el resorte toma P con el eje encima y el momento sigue siendo PL/4
+        expect(results.reactions.map(r => r.x)).toEqual([0, L]);
+        expect(results.reactions[1].max).toBeCloseTo(P, 6);
+        expect(results.reactions[1].maxPosition).toBeCloseTo(L, 6);
+        expect(results.maxMoment.value).toBeCloseTo(P * L / 4, 6);
+    });
+});
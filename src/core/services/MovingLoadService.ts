@@ -0,0 +1,136 @@
+import { FemSolver, type AnalysisResults } from '../logic/FemSolver';
+import { PointForceLoad } from '../entities/Load';
+import { axleGroupLength, type AxleGroup } from '../entities/AxleGroup';
+import { BeamAnalysisService, type BeamInput } from './BeamAnalysisService';
+import { DiagramCalculator, type DiagramData, type DiagramEnvelope } from './DiagramCalculator';
+
+/** Train position: x of the first axle, the rest trailing at their offsets towards -x */
+export interface MovingLoadPosition {
+    position: number;
+    results: AnalysisResults;
+    diagrams: DiagramData;
+}
+
+export interface MovingLoadExtreme {
+    value: number;
+    x: number;         // Section where it occurs
+    position: number;  // First axle position that produces it
+}
+
+export interface MovingLoadReaction {
+    nodeId: string;
+    x: number;
+    max: number;
+    maxPosition: number;
+    min: number;
+    minPosition: number;
+}
+
+export interface MovingLoadResults {
+    group: AxleGroup;
+    positions: MovingLoadPosition[];
+    envelope: DiagramEnvelope;   // Cases named by the first axle position
+    maxMoment: MovingLoadExtreme;
+    minMoment: MovingLoadExtreme;
+    maxShear: MovingLoadExtreme; // Largest |V|, signed
+    reactions: MovingLoadReaction[];
+}
+
+export class MovingLoadService {
+
+    /** Just beyond the section tolerance of the diagrams, as in the influence lines */
+    private static readonly SECTION_OFFSET = 2e-3;
+
+    /**
+     * Steps an axle group across the beam in +x, led by the first axle, from the first
+     * axle entering to the last axle leaving, and solves each position. The governing sections of the coarse
+     * pass are then re-checked with each axle placed right on them, where the maxima
+     * of point loads occur. The stiffness is factored once and reused for every position.
+     * Hinges, springs and foundations come from the input; its loads are ignored.
+     */
+    static analyze(input: BeamInput, group: AxleGroup, step: number = 0.1, resolution: number = 200): MovingLoadResults {
+        if (group.axles.length === 0) throw new Error('Axle group has no axles.');
+        if (group.axles.some(a => a.offset < 0)) throw new Error('Axle offsets must be measured behind the first axle.');
+        if (!(step > 0)) throw new Error('Step must be positive.');
+
+        const unloaded: BeamInput = { ...input, loads: [], selfWeight: false };
+        const { nodes, elements } = BeamAnalysisService.generateMesh(unloaded);
+        const foundations = BeamAnalysisService.getFoundations(input);
+        const system = FemSolver.factor(nodes, elements);
+        const start = 0;
+        const end = input.length + axleGroupLength(group);
+
+        const solved = new Map<number, MovingLoadPosition>();
+        const solveAt = (position: number) => {
+            const key = Math.round(position * 1e6) / 1e6;
+            if (key < start || key > end || solved.has(key)) return;
+            const loads = group.axles
+                .map((a, i) => ({ x: key - a.offset, load: a.load, i }))
+                .filter(a => a.x >= 0 && a.x <= input.length)
+                .map(a => new PointForceLoad(`axle-${a.i + 1}`, -a.load, a.x, 'Live'));
+            const results = FemSolver.solveFactored(system, loads);
+            const diagrams = DiagramCalculator.calculateDiagrams(
+                input.length, nodes, loads, results.reactions, results.displacements, resolution, 'live', undefined, undefined,
+                foundations, elements
+            );
+            solved.set(key, { position: key, results, diagrams });
+        };
+
+        const count = Math.ceil((end - start) / step);
+        for (let i = 0; i <= count; i++) solveAt(Math.min(end, start + i * step));
+        console.log(`🚚 Moving ${group.name}: ${solved.size} positions at ${step} m`);
+
+        // Posición crítica: cada eje sobre las secciones que gobiernan el primer barrido
+        const coarse = MovingLoadService.extremes([...solved.values()]);
+        for (const extreme of [coarse.maxMoment, coarse.minMoment, coarse.maxShear]) {
+            group.axles.forEach(a => solveAt(extreme.x + a.offset));
+        }
+        // Una carga sobre la sección cuenta a su izquierda: el salto de cortante se busca justo después
+        group.axles.forEach(a => solveAt(coarse.maxShear.x + a.offset + MovingLoadService.SECTION_OFFSET));
+
+        const positions = [...solved.values()].sort((a, b) => a.position - b.position);
+        const extremes = MovingLoadService.extremes(positions);
+        const reactions: MovingLoadReaction[] = nodes.filter(n => n.isRestrainedY || (n.isSpring && n.spring!.ky > 0)).map(n => {
+            const reaction: MovingLoadReaction = { nodeId: n.id, x: n.x, max: -Infinity, maxPosition: 0, min: Infinity, minPosition: 0 };
+            for (const p of positions) {
+                const fy = p.results.reactions[n.id]?.fy ?? 0;
+                if (fy > reaction.max) {
+                    reaction.max = fy;
+                    reaction.maxPosition = p.position;
+                }
+                if (fy < reaction.min) {
+                    reaction.min = fy;
+                    reaction.minPosition = p.position;
+                }
+            }
+            return reaction;
+        });
+
+        console.log(`🚚 Critical positions: M+ ${extremes.maxMoment.value.toFixed(2)} at first axle ${extremes.maxMoment.position} m`);
+        return {
+            group,
+            positions,
+            envelope: DiagramCalculator.envelope(positions.map(p => ({ name: `axle 1 @ ${p.position.toFixed(2)} m`, data: p.diagrams }))),
+            ...extremes,
+            reactions
+        };
+    }
+
+    /** Largest sagging and hogging moments and largest |V| over every position and station */
+    private static extremes(positions: MovingLoadPosition[]): Pick<MovingLoadResults, 'maxMoment' | 'minMoment' | 'maxShear'> {
+        const maxMoment: MovingLoadExtreme = { value: 0, x: 0, position: positions[0]?.position ?? 0 };
+        const minMoment: MovingLoadExtreme = { ...maxMoment };
+        const maxShear: MovingLoadExtreme = { ...maxMoment };
+
+        for (const p of positions) {
+            p.diagrams.bendingMoment.forEach(({ x, value }) => {
+                if (value > maxMoment.value) Object.assign(maxMoment, { value, x, position: p.position });
+                if (value < minMoment.value) Object.assign(minMoment, { value, x, position: p.position });
+            });
+            p.diagrams.shearForce.forEach(({ x, value }) => {
+                if (Math.abs(value) > Math.abs(maxShear.value)) Object.assign(maxShear, { value, x, position: p.position });
+            });
+        }
+        return { maxMoment, minMoment, maxShear };
+    }
+}
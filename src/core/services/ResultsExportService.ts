@@ -0,0 +1,40 @@
+import type { Node } from '../entities/Node';
+import { LOAD_CATEGORIES } from '../entities/Load';
+import type { LoadCaseResults } from './BeamAnalysisService';
+
+export class ResultsExportService {
+
+    /**
+     * One row per node and load case with reactions and displacements.
+     * Free nodes report zero reactions so every case covers the full mesh.
+     */
+    static loadCasesToCsv(nodes: Node[], loadCases: LoadCaseResults): string {
+        const header = ['Load Case', 'Node', 'x (m)', 'Support', 'Fx (kN)', 'Fy (kN)', 'M (kNm)', 'u (m)', 'v (m)', 'θ (rad)'];
+        const rows: string[] = [header.join(',')];
+        const sortedNodes = [...nodes].sort((a, b) => a.x - b.x);
+
+        LOAD_CATEGORIES.forEach(category => {
+            const caseResult = loadCases[category];
+            if (!caseResult) return;
+
+            sortedNodes.forEach(node => {
+                const reaction = caseResult.reactions[node.id] ?? { fx: 0, fy: 0, m: 0 };
+                const displacement = caseResult.displacements[node.id] ?? { x: 0, y: 0, rotation: 0 };
+                rows.push([
+                    category,
+                    node.id,
+                    node.x.toFixed(4),
+                    node.support,
+                    reaction.fx.toFixed(4),
+                    reaction.fy.toFixed(4),
+                    reaction.m.toFixed(4),
+                    displacement.x.toExponential(6),
+                    displacement.y.toExponential(6),
+                    displacement.rotation.toExponential(6)
+                ].join(','));
+            });
+        });
+
+        return rows.join('\n');
+    }
+}
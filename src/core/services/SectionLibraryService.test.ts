@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { SectionLibraryService } from './SectionLibraryService';
+import { STEEL_DENSITY } from '../entities/Section';
+
+describe('SectionLibraryService - Steel section library', () => {
+
+    it('Should find sections regardless of spacing and case', () => {
+        expect(SectionLibraryService.find('ipe300')?.name).toBe('IPE 300');
+        expect(SectionLibraryService.find('w12x26')?.name).toBe('W12X26');
+        expect(SectionLibraryService.find('HEB 1000')).toBeUndefined();
+    });
+
+    it('Should convert the European tables to SI units', () => {
+        const ipe = SectionLibraryService.find('IPE 300')!;
+
+        expect(ipe.depth).toBeCloseTo(0.3, 12);
+        expect(ipe.A).toBeCloseTo(53.8e-4, 12);
+        expect(ipe.I).toBeCloseTo(8356e-8, 12);
+        expect(ipe.tw).toBeCloseTo(7.1e-3, 12);
+        // Módulo elástico coherente con I/(h/2)
+        expect(ipe.S / (ipe.I / (ipe.depth / 2))).toBeCloseTo(1, 2);
+    });
+
+    it('Should convert the AISC tables from US units', () => {
+        const w = SectionLibraryService.find('W12X26')!;
+
+        expect(w.I).toBeCloseTo(204 * 0.0254 ** 4, 12);
+        expect(w.weight).toBeCloseTo(38.69, 2);
+        // El peso tabulado corresponde al área con la densidad del acero
+        expect(w.A * STEEL_DENSITY / w.weight).toBeCloseTo(1, 2);
+    });
+
+    it('Should list a family lightest first when searching', () => {
+        const heb = SectionLibraryService.search('', 'HEB');
+
+        expect(heb.every(s => s.family === 'HEB')).toBe(true);
+        expect(heb[0].name).toBe('HEB 100');
+        expect(SectionLibraryService.search('30', 'IPE').map(s => s.name)).toEqual(['IPE 300', 'IPE 330']);
+    });
+});
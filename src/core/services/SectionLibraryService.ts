@@ -0,0 +1,29 @@
+import { STEEL_SECTIONS } from '../data/steelSections';
+import type { SteelSection, SteelSectionFamily } from '../entities/SteelSection';
+
+export class SectionLibraryService {
+
+    static readonly FAMILIES: SteelSectionFamily[] = ['W', 'IPE', 'HEA', 'HEB'];
+
+    /** Designations compare without spaces and case: "ipe300", "IPE 300" and "w12x26" all match */
+    private static normalize(name: string): string {
+        return name.replace(/\s+/g, '').toUpperCase();
+    }
+
+    /**
+     * Sections whose designation contains the query, lightest first.
+     * An empty query lists the whole family (or the whole library).
+     */
+    static search(query: string, family?: SteelSectionFamily): SteelSection[] {
+        const needle = SectionLibraryService.normalize(query);
+        return STEEL_SECTIONS
+            .filter(s => !family || s.family === family)
+            .filter(s => SectionLibraryService.normalize(s.name).includes(needle))
+            .sort((a, b) => a.weight - b.weight);
+    }
+
+    static find(name: string): SteelSection | undefined {
+        const needle = SectionLibraryService.normalize(name);
+        return STEEL_SECTIONS.find(s => SectionLibraryService.normalize(s.name) === needle);
+    }
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import type { BeamInput } from './BeamAnalysisService';
+import { ServiceabilityService } from './ServiceabilityService';
+
+describe('ServiceabilityService - Deflection limits', () => {
+    const E = 200e9;
+    const I = 0.0001;
+    const EI = E / 1000 * I; // kNm², con cargas en kN
+
+    it('Should compare the live midspan deflection with L/360', () => {
+        const L = 6;
+        const w = 20; // kN/m
+        const input: BeamInput = {
+            length: L, E, I,
+            supports: [{ x: 0, type: 'Pin' }, { x: L, type: 'Roller' }],
+            loads: [{ id: 'q', type: 'DistributedForce', magnitude: -w, startX: 0, endX: L, category: 'Live' }]
+        };
+
+        const [check] = ServiceabilityService.checkDeflections(input);
+        const expected = 5 * w * L ** 4 / (384 * EI);
+
+        expect(check.limit).toBe('live');
+        expect(check.x).toBeCloseTo(L / 2, 6);
+        expect(check.deflection).toBeCloseTo(-expected, 6);
+        expect(check.ratio).toBeCloseTo(expected / (L / 360), 4);
+        // 16.9 mm > 16.7 mm: no cumple por poco
+        expect(check.passes).toBe(false);
+        expect(ServiceabilityService.checkDeflections(input, { live: 300, total: 240, cantilever: 180 })[0].passes).toBe(true);
+    });
+
+    it('Should check overhangs at the tip with twice their length and add the total case', () => {
+        const a = 2;
+        const P = 10; // kN/m
+        const input: BeamInput = {
+            length: 8, E, I,
+            supports: [{ x: 0, type: 'Pin' }, { x: 6, type: 'Roller' }],
+            loads: [
+                { id: 'd', type: 'DistributedForce', magnitude: -P, startX: 0, endX: 8, category: 'Dead' },
+                { id: 'l', type: 'DistributedForce', magnitude: -P, startX: 6, endX: 8, category: 'Live' }
+            ]
+        };
+
+        const checks = ServiceabilityService.checkDeflections(input);
+        const tip = checks.filter(c => c.span.kind === 'cantilever');
+
+        expect(checks.map(c => c.caseName)).toEqual(['Dead', 'Live', 'Total', 'Dead', 'Live', 'Total']);
+        expect(tip.every(c => c.limit === 'cantilever' && c.referenceLength === 2 * a)).toBe(true);
+        expect(tip.every(c => c.x === 8)).toBe(true);
+        // El total es la suma de los casos en el extremo del voladizo
+        expect(tip[2].deflection).toBeCloseTo(tip[0].deflection + tip[1].deflection, 12);
+        expect(tip[2].allowable).toBeCloseTo(2 * a / 180, 12);
+    });
+});
@@ -0,0 +1,122 @@
+import type { LoadCategory } from '../entities/Load';
+import { BeamAnalysisService, type BeamInput, type Span } from './BeamAnalysisService';
+import { DiagramCalculator, type DiagramPoint } from './DiagramCalculator';
+
+/** Deflection limits as the n of L/n; cantilevers use twice the overhang as L */
+export interface DeflectionLimits {
+    live: number;
+    total: number;
+    cantilever: number;
+}
+
+export type DeflectionLimitKind = keyof DeflectionLimits;
+
+export interface DeflectionCheck {
+    span: Span;
+    caseName: string;           // Load case, or 'Total' for the sum of all cases
+    limit: DeflectionLimitKind;
+    referenceLength: number;    // m, span length or 2× overhang
+    deflection: number;         // m, relative to the supports, signed (negative downward)
+    x: number;                  // m, where the governing deflection occurs
+    allowable: number;          // m, referenceLength / n
+    ratio: number;              // |deflection| / allowable
+    passes: boolean;
+}
+
+export class ServiceabilityService {
+
+    static readonly DEFAULT_LIMITS: DeflectionLimits = { live: 360, total: 240, cantilever: 180 };
+
+    /** Elements per span: the cubic interpolation between nodes misses the load term inside elements */
+    private static readonly MESH_DIVISIONS = 8;
+
+    /**
+     * Span-by-span deflection check of each unfactored load case and of their sum.
+     * Deflections are measured from the chord between the span's supports (from the
+     * support for cantilevers), so settlements and springs do not count against the limit.
+     * The live case is checked against the live limit, every other case and the total
+     * against the total limit, and cantilever tips against the cantilever limit.
+     */
+    static checkDeflections(
+        input: BeamInput,
+        limits: DeflectionLimits = ServiceabilityService.DEFAULT_LIMITS,
+        resolution: number = 200
+    ): DeflectionCheck[] {
+        const spans = BeamAnalysisService.getSpans(input);
+        if (spans.length === 0) return [];
+
+        const refined: BeamInput = { ...input, meshDivisions: ServiceabilityService.MESH_DIVISIONS };
+        const { nodes, elements } = BeamAnalysisService.generateMesh(refined);
+        const caseResults = Object.entries(BeamAnalysisService.analyzeLoadCases(refined));
+        if (caseResults.length === 0) return [];
+
+        // Uniform stations plus every node, so span ends and supports are sampled exactly
+        const stations = Array.from(new Set([
+            ...Array.from({ length: resolution + 1 }, (_, i) => (i * input.length) / resolution),
+            ...nodes.map(n => n.x)
+        ])).sort((a, b) => a - b);
+
+        // Only the deformation is needed, and it follows from the displacements alone
+        const cases: Array<{ name: string, deformation: DiagramPoint[], limit: DeflectionLimitKind }> = caseResults.map(([category, results]) => ({
+            name: category,
+            deformation: DiagramCalculator.calculateDiagrams(
+                input.length, nodes, [], results!.reactions, results!.displacements, resolution, undefined, undefined, stations,
+                BeamAnalysisService.getFoundations(input), elements
+            ).deformation,
+            limit: (category as LoadCategory) === 'Live' ? 'live' : 'total'
+        }));
+        if (cases.length > 1) {
+            cases.push({
+                name: 'Total',
+                deformation: stations.map((x, i) => ({ x, value: cases.reduce((sum, c) => sum + c.deformation[i].value, 0) })),
+                limit: 'total'
+            });
+        }
+
+        const supportX = input.supports.filter(s => s.type !== 'Free').map(s => s.x);
+        const checks: DeflectionCheck[] = [];
+        for (const span of spans) {
+            const spanLength = span.endX - span.startX;
+            const isCantilever = span.kind === 'cantilever';
+            // A cantilever hangs from whichever end sits on a support
+            const supportEnd = supportX.some(x => Math.abs(x - span.endX) < 1e-4) ? span.endX : span.startX;
+
+            for (const c of cases) {
+                const at = (x: number) => ServiceabilityService.interpolate(c.deformation, x);
+                const chord = isCantilever
+                    ? () => at(supportEnd)
+                    : (x: number) => at(span.startX) + (at(span.endX) - at(span.startX)) * (x - span.startX) / spanLength;
+
+                let deflection = 0;
+                let x = span.startX;
+                for (const point of c.deformation) {
+                    if (point.x < span.startX - 1e-9 || point.x > span.endX + 1e-9) continue;
+                    const relative = point.value - chord(point.x);
+                    if (Math.abs(relative) > Math.abs(deflection)) {
+                        deflection = relative;
+                        x = point.x;
+                    }
+                }
+
+                const limit: DeflectionLimitKind = isCantilever ? 'cantilever' : c.limit;
+                const referenceLength = isCantilever ? 2 * spanLength : spanLength;
+                const allowable = referenceLength / limits[limit];
+                const ratio = Math.abs(deflection) / allowable;
+                checks.push({ span, caseName: c.name, limit, referenceLength, deflection, x, allowable, ratio, passes: ratio <= 1 });
+            }
+        }
+
+        console.log(`📏 Deflection checks: ${checks.length} (${checks.filter(c => !c.passes).length} failing)`);
+        return checks;
+    }
+
+    /** Linear interpolation between diagram stations */
+    private static interpolate(points: DiagramPoint[], x: number): number {
+        const i = points.findIndex(p => p.x >= x);
+        if (i === -1) return points[points.length - 1]?.value ?? 0;
+        if (i === 0) return points[0].value;
+        const a = points[i - 1];
+        const b = points[i];
+        return a.value + (b.value - a.value) * (x - a.x) / (b.x - a.x);
+    }
+}
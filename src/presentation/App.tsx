@@ -10,20 +10,40 @@ function App() {
             <UnifiedWorkspace 
                 length={controller.length}
                 setLength={controller.setLength}
+                spanLayout={controller.spanLayout}
+                applySpanLayout={controller.applySpanLayout}
+                resizeSpan={controller.resizeSpan}
                 supports={controller.supports}
                 addSupport={controller.addSupport}
                 removeSupport={controller.removeSupport}
+                hinges={controller.hinges}
+                addHinge={controller.addHinge}
+                removeHinge={controller.removeHinge}
+                foundations={controller.foundations}
+                addFoundation={controller.addFoundation}
+                removeFoundation={controller.removeFoundation}
+                segments={controller.segments}
+                addSegment={controller.addSegment}
+                removeSegment={controller.removeSegment}
                 loads={controller.loads}
                 addLoad={controller.addLoad}
+                addSupportDisplacement={controller.addSupportDisplacement}
+                addThermalLoad={controller.addThermalLoad}
                 removeLoad={controller.removeLoad}
                 updateLoadCategory={controller.updateLoadCategory}
                 solve={controller.solve}
                 results={controller.results}
+                loadCases={controller.loadCases}
+                solvedInput={controller.solvedInput}
                 error={controller.error}
                 nodes={controller.nodes}
                 processedLoads={controller.processedLoads}
                 material={controller.material}
                 setMaterial={controller.setMaterial}
+                applySection={controller.applySection}
+                applyShape={controller.applyShape}
+                shearModel={controller.shearModel}
+                setShearModel={controller.setShearModel}
             />
         </div>
     );
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
 import { useBeamAnalysis } from './useBeamAnalysis';
+import { ServiceabilityService } from '../../core/services/ServiceabilityService';
 
 describe('useBeamAnalysis Integration Hook', () => {
     
@@ -109,4 +110,123 @@ describe('useBeamAnalysis Integration Hook', () => {
         expect(result.current.error).toBeNull();
         expect(result.current.results).not.toBeNull();
     });
-});
\ No newline at end of file
+
+    it('Should solve Wind, Snow and Seismic loads as their own load cases', () => {
+        const { result } = renderHook(() => useBeamAnalysis());
+
+        act(() => {
+            result.current.addSupport(0, 'Pin');
+            result.current.addSupport(10, 'Roller');
+            result.current.addLoad('DistributedForce', 2, undefined, 0, 10, 'down', 'Dead');
+            result.current.addLoad('DistributedForce', 1.5, undefined, 0, 10, 'up', 'Wind');
+            result.current.addLoad('DistributedForce', 3, undefined, 0, 4, 'down', 'Snow');
+            result.current.addLoad('PointForce', 5, 5, undefined, undefined, 'down', 'Seismic');
+        });
+
+        act(() => {
+            result.current.solve();
+        });
+
+        const cases = result.current.loadCases!;
+        expect(Object.keys(cases).sort()).toEqual(['Dead', 'Seismic', 'Snow', 'Wind']);
+
+        const totalFy = (category: 'Wind' | 'Snow') =>
+            Object.values(cases[category]!.reactions).reduce((sum, r) => sum + r.fy, 0);
+        // Wind uplift pulls the supports down, snow pushes them up
+        expect(totalFy('Wind')).toBeCloseTo(-15, 6);
+        expect(totalFy('Snow')).toBeCloseTo(12, 6);
+    });
+
+    it('Should generate supports from a span layout', () => {
+        const { result } = renderHook(() => useBeamAnalysis());
+
+        act(() => {
+            result.current.applySpanLayout({ lengths: [4, 6, 5, 1.5], leftEnd: 'Pin', rightEnd: 'Free', interior: 'Roller' });
+        });
+
+        expect(result.current.length).toBeCloseTo(16.5, 9);
+        // Extremo derecho libre: el último vano queda en voladizo
+        expect(result.current.supports.map(s => [s.x, s.type])).toEqual([
+            [0, 'Pin'], [4, 'Roller'], [10, 'Roller'], [15, 'Roller']
+        ]);
+    });
+
+    it('Should shift downstream loads when a span is resized', () => {
+        const { result } = renderHook(() => useBeamAnalysis());
+
+        act(() => {
+            result.current.applySpanLayout({ lengths: [5, 5, 5], leftEnd: 'Pin', rightEnd: 'Roller', interior: 'Roller' });
+        });
+        act(() => {
+            result.current.addLoad('PointForce', 10, 2);
+            result.current.addLoad('PointForce', 10, 12);
+            result.current.addLoad('DistributedForce', 4, undefined, 6, 9);
+        });
+        act(() => {
+            result.current.resizeSpan(1, 8);
+        });
+
+        expect(result.current.length).toBe(18);
+        expect(result.current.supports.map(s => s.x)).toEqual([0, 5, 13, 18]);
+        const [upstream, downstream, distributed] = result.current.loads;
+        expect(upstream.x).toBe(2);
+        // Misma posición relativa en el tercer vano
+        expect(downstream.x).toBe(15);
+        expect([distributed.startX, distributed.endX]).toEqual([6, 9]);
+
+        // Acortar la viga recorta el último vano en lugar de borrar cargas
+        act(() => {
+            result.current.setLength(16);
+        });
+        expect(result.current.spanLayout?.lengths).toEqual([5, 8, 3]);
+        expect(result.current.loads.map(l => l.x)).toEqual([2, 15, undefined]);
+    });
+
+    it('Should move loads and settlements on an interior support with the support', () => {
+        const { result } = renderHook(() => useBeamAnalysis());
+
+        act(() => {
+            result.current.applySpanLayout({ lengths: [5, 5, 5], leftEnd: 'Pin', rightEnd: 'Roller', interior: 'Roller' });
+        });
+        act(() => {
+            result.current.addLoad('DistributedForce', 4, undefined, 5, 10);
+            result.current.addLoad('PointForce', 10, 5);
+            result.current.addSupportDisplacement(5, 0.01);
+            result.current.addSupport(10, 'Spring', { ky: 5000, kTheta: 0 });
+        });
+        act(() => {
+            result.current.resizeSpan(0, 7);
+        });
+
+        expect(result.current.supports.map(s => [s.x, s.type])).toEqual([
+            [0, 'Pin'], [7, 'Roller'], [12, 'Spring'], [17, 'Roller']
+        ]);
+        expect(result.current.supports[2].spring).toEqual({ ky: 5000, kTheta: 0 });
+        const [distributed, point, settlement] = result.current.loads;
+        // The UDL still fills the second span, and nothing is left on the old support position
+        expect([distributed.startX, distributed.endX]).toEqual([7, 12]);
+        expect(point.x).toBe(7);
+        expect(settlement.type).toBe('SupportDisplacement');
+        expect(settlement.x).toBe(7);
+    });
+
+    it('Should check deflections on the solved input in the workspace units', () => {
+        const { result } = renderHook(() => useBeamAnalysis());
+
+        act(() => {
+            result.current.addSupport(0, 'Pin');
+            result.current.addSupport(10, 'Roller');
+            result.current.addLoad('DistributedForce', 10, undefined, 0, 10);
+        });
+        act(() => {
+            result.current.solve();
+        });
+
+        // 10 kN/m en 10 m con E = 200 GPa e I = 1e-4 m⁴: 5wL⁴/(384EI) ≈ 65 mm > L/360 ≈ 28 mm
+        const [check] = ServiceabilityService.checkDeflections(result.current.solvedInput!);
+        expect(check.limit).toBe('live');
+        expect(check.deflection * 1000).toBeCloseTo(-5 * 10 * 10 ** 4 / (384 * 200e6 * 0.0001) * 1000, 6);
+        expect(check.deflection * 1000).toBeCloseTo(-65.1, 1);
+        expect(check.passes).toBe(false);
+    });
+});
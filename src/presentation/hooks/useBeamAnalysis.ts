@@ -1,112 +1,325 @@
 import { useState, useCallback, useMemo } from 'react';
 import { BeamAnalysisService } from '../../core/services/BeamAnalysisService';
-import type { BeamInput, BeamLoadInput } from '../../core/services/BeamAnalysisService';
-import type { SupportType } from '../../core/entities/Node';
-import { Node } from '../../core/entities/Node';
+import type { BeamInput, BeamLoadInput, BeamTheory, LoadCaseResults } from '../../core/services/BeamAnalysisService';
+import type { SupportType, SpringStiffness } from '../../core/entities/Node';
+import { DEFAULT_SECTION_AREA, STEEL_DENSITY, type SectionTaper } from '../../core/entities/Section';
+import type { SteelSection } from '../../core/entities/SteelSection';
+import type { CrossSectionShape } from '../../core/entities/CrossSection';
+import { SectionProperties } from '../../core/logic/SectionProperties';
+import { spanBoundaries, spanSupports, remapToSpans, type SpanLayout } from '../../core/entities/SpanLayout';
 import type { AnalysisResults } from '../../core/logic/FemSolver';
 import type { LoadType, Load, LoadCategory } from '../../core/entities/Load';
-import { PointForceLoad, PointMomentLoad, DistributedForceLoad } from '../../core/entities/Load';
+import { PointForceLoad, PointMomentLoad, DistributedForceLoad, SupportDisplacementLoad, TemperatureLoad } from '../../core/entities/Load';
 
 const generateId = () => Math.random().toString(36).substr(2, 9);
 
 export const useBeamAnalysis = () => {
     // --- STATE ---
     const [length, setLength] = useState<number>(10);
-    const [supports, setSupports] = useState<{ id: string, x: number, type: SupportType }[]>([]);
+    const [supports, setSupports] = useState<{ id: string, x: number, type: SupportType, spring?: SpringStiffness }[]>([]);
     const [loads, setLoads] = useState<BeamLoadInput[]>([]);
-    // Material properties (Steel default: E=200 GPa, I=0.0001 m⁴)
-    const [material, setMaterial] = useState({ E: 200e9, I: 0.0001 });
+    const [hinges, setHinges] = useState<{ id: string, x: number }[]>([]);
+    // Winkler foundation ranges (modulus in kN/m per m of beam)
+    const [foundations, setFoundations] = useState<{ id: string, startX: number, endX: number, modulus: number }[]>([]);
+    // Material properties (Steel default: E=200 GPa, I=0.0001 m⁴, A=0.01 m², ρ=7850 kg/m³)
+    // selfWeight adds ρ·g·A as an automatic Dead load; section (library) or shape (section editor) is where I and A came from
+    const [material, setMaterial] = useState<{ E: number, I: number, A: number, density: number, selfWeight: boolean, section: SteelSection | null, shape: CrossSectionShape | null }>({
+        E: 200e9, I: 0.0001, A: DEFAULT_SECTION_AREA, density: STEEL_DENSITY, selfWeight: false, section: null, shape: null
+    });
+    // Beam theory; Timoshenko adds shear deformation from G and the shear area As
+    const [shearModel, setShearModel] = useState<{ theory: BeamTheory, G: number, As: number }>({ theory: 'Bernoulli', G: 77e9, As: 0.005 });
+    // Stepped sections overriding E, I and optionally A along part of the beam
+    const [segments, setSegments] = useState<{ id: string, startX: number, endX: number, E: number, I: number, taper?: SectionTaper, A?: number }[]>([]);
+    // Span wizard layout; null while supports are placed by hand
+    const [spanLayout, setSpanLayout] = useState<SpanLayout | null>(null);
     
     const [results, setResults] = useState<AnalysisResults | null>(null);
+    const [loadCases, setLoadCases] = useState<LoadCaseResults | null>(null);
+    // Model the current results were solved for (post-processing re-runs it on demand)
+    const [solvedInput, setSolvedInput] = useState<BeamInput | null>(null);
     const [error, setError] = useState<string | null>(null);
 
-    // Generate nodes from supports and loads for visualization
-    const nodes = useMemo(() => {
-        const points = new Set<number>();
-        points.add(0);
-        points.add(length);
-        supports.forEach(s => points.add(s.x));
-        loads.forEach(l => {
-            if (typeof l.x === 'number') points.add(l.x);
-            if (typeof l.startX === 'number') points.add(l.startX);
-            if (typeof l.endX === 'number') points.add(l.endX);
-        });
-
-        const sortedX = Array.from(points)
-            .sort((a, b) => a - b)
-            .filter(x => x >= 0 && x <= length);
-
-        return sortedX.map((x, i) => {
-            const supportConf = supports.find(s => Math.abs(s.x - x) < 1e-4);
-            const type = supportConf ? supportConf.type : 'Free';
-            return new Node(`n${i}`, x, type);
-        });
-    }, [length, supports, loads]);
+    // Generate nodes from supports and loads for visualization.
+    // Same mesh as the solver so node ids line up with the analysis results
+    const nodes = useMemo(
+        () => BeamAnalysisService.generateMesh({ length, E: material.E, I: material.I, supports, loads, hinges: hinges.map(h => h.x), foundations, segments }).nodes,
+        [length, material, supports, loads, hinges, foundations, segments]
+    );
 
     // Convert BeamLoadInput to Load for diagram calculations
     const processedLoads = useMemo((): Load[] => {
         return loads.map(load => {
             const category = load.category || 'Dead';
             if (load.type === 'PointForce' && typeof load.x === 'number') {
-                return new PointForceLoad(load.id, load.magnitude, load.x, category);
+                return new PointForceLoad(load.id, load.magnitude, load.x, category, load.horizontal ?? 0);
             } else if (load.type === 'PointMoment' && typeof load.x === 'number') {
                 return new PointMomentLoad(load.id, load.magnitude, load.x, category);
             } else if (load.type === 'DistributedForce' && typeof load.startX === 'number' && typeof load.endX === 'number') {
-                return new DistributedForceLoad(load.id, load.magnitude, load.startX, load.endX, category);
+                return new DistributedForceLoad(
+                    load.id, load.magnitude, load.startX, load.endX, category, load.endMagnitude, load.horizontal ?? 0, load.endHorizontal
+                );
+            } else if (load.type === 'SupportDisplacement' && typeof load.x === 'number') {
+                return new SupportDisplacementLoad(load.id, load.magnitude, load.x, load.rotation ?? 0, 'Settlement');
+            } else if (load.type === 'Temperature' && typeof load.startX === 'number' && typeof load.endX === 'number') {
+                return new TemperatureLoad(load.id, load.magnitude, load.startX, load.endX, load.gradient ?? 0, load.alpha, load.depth ?? 0);
             }
             // Fallback - shouldn't happen
             return new PointForceLoad(load.id, 0, 0, category);
-        }).filter(l => l.type !== 'PointForce' || (l as PointForceLoad).magnitude !== 0);
-    }, [loads]);
+        }).filter(l => l.type !== 'PointForce' || (l as PointForceLoad).magnitude !== 0 || (l as PointForceLoad).horizontal !== 0)
+            // The automatic self-weight belongs in the diagrams like any drawn load
+            .concat(BeamAnalysisService.selfWeightLoads({
+                length, E: material.E, I: material.I, A: material.A, supports, loads: [], segments,
+                density: material.density, selfWeight: material.selfWeight
+            }).map(l => new DistributedForceLoad(l.id, l.magnitude, l.startX!, l.endX!, 'Dead')));
+    }, [loads, length, material, supports, segments]);
 
     // --- ACTIONS ---
+    const clearResults = () => {
+        setResults(null);
+        setLoadCases(null);
+        setSolvedInput(null);
+    };
+
+    /** Takes I and A from a library section; steel density keeps the self-weight equal to the tabulated weight */
+    const applySection = (section: SteelSection) => {
+        setMaterial(prev => ({ ...prev, E: 200e9, I: section.I, A: section.A, density: STEEL_DENSITY, section, shape: null }));
+        clearResults();
+    };
+
+    /** Takes I and A from a parametric cross-section; E and density stay with the chosen material */
+    const applyShape = (shape: CrossSectionShape) => {
+        const { I, A } = SectionProperties.compute(shape);
+        setMaterial(prev => ({ ...prev, I, A, section: null, shape }));
+        clearResults();
+    };
+
+    // Limpiar elementos que queden fuera
+    const clipToLength = (newLength: number) => {
+        setSupports(prev => prev.filter(s => s.x <= newLength));
+        setLoads(prev => prev.filter(l => (l.x ?? 0) <= newLength));
+        setHinges(prev => prev.filter(h => h.x < newLength));
+        setFoundations(prev => prev
+            .filter(f => f.startX < newLength)
+            .map(f => ({ ...f, endX: Math.min(f.endX, newLength) })));
+        setSegments(prev => prev
+            .filter(s => s.startX < newLength)
+            .map(s => ({ ...s, endX: Math.min(s.endX, newLength) })));
+    };
+
+    // Moves every positioned item along the beam; supports are regenerated by the caller
+    const remapPositions = (map: (x: number) => number) => {
+        const move = (x?: number) => x === undefined ? x : map(x);
+        setLoads(prev => prev.map(l => ({ ...l, x: move(l.x), startX: move(l.startX), endX: move(l.endX) })));
+        setHinges(prev => prev.map(h => ({ ...h, x: map(h.x) })));
+        setFoundations(prev => prev.map(f => ({ ...f, startX: map(f.startX), endX: map(f.endX) })));
+        setSegments(prev => prev.map(s => ({ ...s, startX: map(s.startX), endX: map(s.endX) })));
+    };
+
+    /**
+     * Rebuilds the beam from a span layout: length is the sum of the spans and the
+     * supports are regenerated on the span boundaries. With the same number of spans
+     * as the current layout, loads, hinges, foundations and segments keep their
+     * span-relative position and items on a support move with it. When only the
+     * lengths change, the supports themselves move too, keeping their type and spring
+     * stiffness; otherwise everything keeps its absolute position.
+     */
+    const applySpanLayout = (layout: SpanLayout) => {
+        if (layout.lengths.length === 0 || layout.lengths.some(l => !(l > 0))) return;
+        const newLength = layout.lengths.reduce((sum, l) => sum + l, 0);
+        const resized = spanLayout && spanLayout.lengths.length === layout.lengths.length ? spanLayout : null;
+        const bounds = spanBoundaries(layout.lengths);
+        const onBoundary = (x: number) => bounds.some(b => Math.abs(b - x) <= 1e-3);
+        const moved = resized && resized.leftEnd === layout.leftEnd && resized.rightEnd === layout.rightEnd && resized.interior === layout.interior
+            ? supports.map(s => ({ ...s, x: remapToSpans(resized.lengths, layout.lengths, s.x) })).filter(s => onBoundary(s.x))
+            : [];
+        const generated = [
+            ...moved,
+            ...spanSupports(layout)
+                .filter(s => !moved.some(support => Math.abs(support.x - s.x) <= 1e-3))
+                .map(s => ({ id: generateId(), ...s }))
+        ].sort((a, b) => a.x - b.x);
+
+        if (resized) {
+            remapPositions(x => remapToSpans(resized.lengths, layout.lengths, x));
+        }
+        clipToLength(newLength);
+        setSupports(generated);
+        // A settlement cannot outlive the support it moves
+        setLoads(prev => prev.filter(l =>
+            l.type !== 'SupportDisplacement' || generated.some(s => Math.abs(s.x - (l.x ?? 0)) <= 1e-3)));
+        setLength(newLength);
+        setSpanLayout(layout);
+        clearResults();
+    };
+
+    const resizeSpan = (index: number, newLength: number) => {
+        if (!spanLayout) return;
+        applySpanLayout({ ...spanLayout, lengths: spanLayout.lengths.map((l, i) => i === index ? newLength : l) });
+    };
+
     const updateLength = (newLength: number) => {
         if (newLength > 0) {
+            // With a span layout the change goes to the last span, so nothing upstream moves
+            if (spanLayout) {
+                const last = spanLayout.lengths.length - 1;
+                const lastSpan = newLength - spanLayout.lengths.slice(0, last).reduce((sum, l) => sum + l, 0);
+                if (lastSpan > 0) {
+                    resizeSpan(last, lastSpan);
+                    return;
+                }
+                setSpanLayout(null);
+            }
             setLength(newLength);
-            setResults(null);
-            // Limpiar elementos que queden fuera
-            setSupports(prev => prev.filter(s => s.x <= newLength));
-            setLoads(prev => prev.filter(l => (l.x ?? 0) <= newLength));
+            clearResults();
+            clipToLength(newLength);
         }
     };
 
-    const addSupport = (x: number, type: SupportType) => {
+    const addSupport = (x: number, type: SupportType, spring?: SpringStiffness) => {
+        // Replacing a support on a span boundary keeps the layout, so a resize moves it
+        if (!spanLayout || !spanBoundaries(spanLayout.lengths).some(b => Math.abs(b - x) <= 1e-3)) setSpanLayout(null);
         setSupports(prev => {
             const filtered = prev.filter(s => Math.abs(s.x - x) > 1e-3);
-            return [...filtered, { id: generateId(), x, type }];
+            return [...filtered, type === 'Spring' && spring ? { id: generateId(), x, type, spring } : { id: generateId(), x, type }];
         });
-        setResults(null);
+        clearResults();
     };
 
     const removeSupport = (id: string) => {
+        const removed = supports.find(s => s.id === id);
+        setSpanLayout(null);
         setSupports(prev => prev.filter(s => s.id !== id));
-        setResults(null);
+        // A settlement cannot outlive the support it moves
+        if (removed) {
+            setLoads(prev => prev.filter(l => l.type !== 'SupportDisplacement' || Math.abs((l.x ?? 0) - removed.x) > 1e-3));
+        }
+        clearResults();
+    };
+
+    const addHinge = (x: number) => {
+        // Hinges only make sense inside the beam
+        if (x <= 0 || x >= length) return;
+        setHinges(prev => {
+            const filtered = prev.filter(h => Math.abs(h.x - x) > 1e-3);
+            return [...filtered, { id: generateId(), x }];
+        });
+        clearResults();
+    };
+
+    const removeHinge = (id: string) => {
+        setHinges(prev => prev.filter(h => h.id !== id));
+        clearResults();
+    };
+
+    const addFoundation = (startX: number, endX: number, modulus: number) => {
+        const from = Math.max(0, Math.min(startX, endX));
+        const to = Math.min(length, Math.max(startX, endX));
+        if (to - from < 1e-3 || modulus <= 0) return;
+        setFoundations(prev => [...prev, { id: generateId(), startX: from, endX: to, modulus }]);
+        clearResults();
+    };
+
+    const removeFoundation = (id: string) => {
+        setFoundations(prev => prev.filter(f => f.id !== id));
+        clearResults();
+    };
+
+    /** A is optional: without it the segment keeps the beam's area for EA and the self-weight */
+    const addSegment = (startX: number, endX: number, E: number, I: number, taper?: SectionTaper, A?: number) => {
+        const from = Math.max(0, Math.min(startX, endX));
+        const to = Math.min(length, Math.max(startX, endX));
+        if (to - from < 1e-3 || E <= 0 || I <= 0 || (taper && taper.IEnd <= 0) || (A !== undefined && A <= 0)) return;
+        // I is given at startX; entered right to left, the tapered ends swap with the range
+        const reversed = taper && startX > endX;
+        const section = reversed ? { I: taper.IEnd, taper: { ...taper, IEnd: I } } : { I, taper };
+        setSegments(prev => [...prev, { id: generateId(), startX: from, endX: to, E, ...section, ...(A !== undefined && { A }) }]);
+        clearResults();
+    };
+
+    const removeSegment = (id: string) => {
+        setSegments(prev => prev.filter(s => s.id !== id));
+        clearResults();
     };
 
-    const addLoad = (type: LoadType, magnitude: number, x?: number, startX?: number, endX?: number, direction: 'up' | 'down' = 'down', category: LoadCategory = 'Live') => {
+    /**
+     * horizontal: signed component along the beam axis (positive to the right) for
+     * horizontal and inclined forces; the direction only applies to the vertical part.
+     * Inclined distributed loads give the axial intensity at startX and, when linear, endHorizontal at endX.
+     */
+    const addLoad = (type: LoadType, magnitude: number, x?: number, startX?: number, endX?: number, direction: 'up' | 'down' = 'down', category: LoadCategory = 'Live', endMagnitude?: number, horizontal?: number, endHorizontal?: number) => {
         // Apply direction: 'down' means negative (downward), 'up' means positive (upward)
-        const signedMagnitude = direction === 'down' ? -Math.abs(magnitude) : Math.abs(magnitude);
+        const sign = (value: number) => direction === 'down' ? -Math.abs(value) : Math.abs(value);
+        const signedMagnitude = sign(magnitude);
         const newLoad: BeamLoadInput = {
             id: generateId(), type, magnitude: signedMagnitude, x, startX, endX, category
         };
+        // Linearly varying loads: intensity goes from magnitude at startX to endMagnitude at endX
+        if (type === 'DistributedForce' && typeof endMagnitude === 'number') {
+            newLoad.endMagnitude = sign(endMagnitude);
+        }
+        if (type === 'PointForce' && horizontal) {
+            newLoad.horizontal = horizontal;
+        }
+        if (type === 'DistributedForce' && (horizontal || endHorizontal)) {
+            newLoad.horizontal = horizontal ?? 0;
+            if (typeof endHorizontal === 'number') newLoad.endHorizontal = endHorizontal;
+        }
         setLoads(prev => [...prev, newLoad]);
-        setResults(null);
+        clearResults();
+    };
+
+    /**
+     * Prescribed movement of the support at x: settlement in metres (positive = downward)
+     * and rotation in radians. Replaces any previous movement of the same support.
+     */
+    const addSupportDisplacement = (x: number, settlement: number, rotation: number = 0) => {
+        const newLoad: BeamLoadInput = {
+            id: generateId(), type: 'SupportDisplacement', magnitude: -settlement, rotation, x, category: 'Settlement'
+        };
+        setLoads(prev => [
+            ...prev.filter(l => l.type !== 'SupportDisplacement' || Math.abs((l.x ?? 0) - x) > 1e-3),
+            newLoad
+        ]);
+        clearResults();
+    };
+
+    /**
+     * Temperature change over a range: uniform ΔT and gradient T_top - T_bottom in °C,
+     * alpha in 1/°C and the section depth in m. Always solved as the Thermal case.
+     */
+    const addThermalLoad = (startX: number, endX: number, uniform: number, gradient: number, alpha: number, depth: number) => {
+        const from = Math.max(0, Math.min(startX, endX));
+        const to = Math.min(length, Math.max(startX, endX));
+        if (to - from < 1e-3 || (uniform === 0 && gradient === 0) || alpha <= 0 || (gradient !== 0 && depth <= 0)) return;
+        const newLoad: BeamLoadInput = {
+            id: generateId(), type: 'Temperature', magnitude: uniform, gradient, alpha, depth, startX: from, endX: to, category: 'Thermal'
+        };
+        setLoads(prev => [...prev, newLoad]);
+        clearResults();
     };
 
     const removeLoad = (id: string) => {
         setLoads(prev => prev.filter(l => l.id !== id));
-        setResults(null);
+        clearResults();
     };
 
     const updateLoadCategory = (id: string, category: LoadCategory) => {
         setLoads(prev => prev.map(l => l.id === id ? { ...l, category } : l));
-        setResults(null);
+        clearResults();
     };
 
     const solve = useCallback(() => {
         setError(null);
         try {
-            const input: BeamInput = { length, E: material.E, I: material.I, supports, loads };
+            const input: BeamInput = {
+                length, E: material.E, I: material.I, A: material.A, supports, loads,
+                hinges: hinges.map(h => h.x),
+                foundations: foundations.map(({ startX, endX, modulus }) => ({ startX, endX, modulus })),
+                segments: segments.map(({ startX, endX, E, I, taper, A }) => ({ startX, endX, E, I, taper, A })),
+                density: material.density,
+                selfWeight: material.selfWeight,
+                ...shearModel
+            };
             
             // Log backend input
             console.log('═══════════════════════════════════════════════════════');
@@ -116,23 +329,57 @@ export const useBeamAnalysis = () => {
             console.log('   Length:', input.length, 'm');
             console.log('   E (Young\'s Modulus):', input.E, 'Pa =', (input.E / 1e9).toFixed(2), 'GPa');
             console.log('   I (Moment of Inertia):', input.I, 'm⁴');
+            console.log('   A (Cross-section Area):', input.A, 'm²');
+            if (material.section) {
+                console.log('   Section:', material.section.name, `(S = ${material.section.S.toExponential(3)} m³, Z = ${material.section.Z.toExponential(3)} m³, ${material.section.weight.toFixed(1)} kg/m)`);
+            }
+            if (material.shape) {
+                console.log('   Section shape:', material.shape.kind);
+            }
+            if (material.selfWeight) {
+                console.log('   Self-weight: ρ =', material.density, 'kg/m³');
+            }
+            if (shearModel.theory === 'Timoshenko') {
+                console.log('   Theory: Timoshenko, G =', (shearModel.G / 1e9).toFixed(2), 'GPa, As =', shearModel.As, 'm²');
+            }
+            segments.forEach(s => {
+                const inertia = s.taper ? `${s.I}→${s.taper.IEnd} m⁴ (tapered, n = ${s.taper.exponent})` : `${s.I} m⁴`;
+                const area = s.A !== undefined ? `, A = ${s.A} m²` : '';
+                console.log(`   Segment x = ${s.startX.toFixed(3)}→${s.endX.toFixed(3)} m: E = ${(s.E / 1e9).toFixed(2)} GPa, I = ${inertia}${area}`);
+            });
             console.log('');
             console.log('🔩 Supports (' + input.supports.length + '):');
             input.supports.forEach((s, i) => {
-                console.log(`   ${i + 1}. ${s.type} support at x = ${s.x.toFixed(3)} m`);
+                const stiffness = s.spring ? ` (k_y = ${s.spring.ky} kN/m, k_θ = ${s.spring.kTheta} kNm/rad)` : '';
+                console.log(`   ${i + 1}. ${s.type} support at x = ${s.x.toFixed(3)} m${stiffness}`);
             });
             console.log('');
+            if (hinges.length > 0) {
+                console.log('🔗 Internal hinges:', hinges.map(h => `x = ${h.x.toFixed(3)} m`).join(', '));
+                console.log('');
+            }
+            if (foundations.length > 0) {
+                console.log('🪨 Elastic foundations:', foundations.map(f => `x = ${f.startX.toFixed(3)}→${f.endX.toFixed(3)} m, k = ${f.modulus} kN/m²`).join(', '));
+                console.log('');
+            }
             console.log('⚖️  Loads (' + input.loads.length + '):');
             input.loads.forEach((l, i) => {
                 if (l.type === 'PointForce' && typeof l.x === 'number') {
-                    console.log(`   ${i + 1}. Point Force: ${l.magnitude.toFixed(2)} kN at x = ${l.x.toFixed(3)} m`);
+                    const horizontal = l.horizontal ? `, H = ${l.horizontal.toFixed(2)} kN` : '';
+                    console.log(`   ${i + 1}. Point Force: ${l.magnitude.toFixed(2)} kN${horizontal} at x = ${l.x.toFixed(3)} m`);
                 } else if (l.type === 'PointMoment' && typeof l.x === 'number') {
                     console.log(`   ${i + 1}. Point Moment: ${l.magnitude.toFixed(2)} kNm at x = ${l.x.toFixed(3)} m`);
+                } else if (l.type === 'SupportDisplacement' && typeof l.x === 'number') {
+                    console.log(`   ${i + 1}. Support Displacement: Δ = ${(l.magnitude * 1000).toFixed(1)} mm, θ = ${l.rotation ?? 0} rad at x = ${l.x.toFixed(3)} m`);
                 } else if (l.type === 'DistributedForce' && typeof l.startX === 'number' && typeof l.endX === 'number') {
                     const span = l.endX - l.startX;
-                    const totalLoad = l.magnitude * span;
-                    console.log(`   ${i + 1}. Distributed Force: ${l.magnitude.toFixed(2)} kN/m from x = ${l.startX.toFixed(3)} m to ${l.endX.toFixed(3)} m`);
+                    const endMagnitude = l.endMagnitude ?? l.magnitude;
+                    const totalLoad = (l.magnitude + endMagnitude) / 2 * span;
+                    const horizontal = l.horizontal ? `, H = ${l.horizontal.toFixed(2)}→${(l.endHorizontal ?? l.horizontal).toFixed(2)} kN/m` : '';
+                    console.log(`   ${i + 1}. Distributed Force: ${l.magnitude.toFixed(2)}→${endMagnitude.toFixed(2)} kN/m${horizontal} from x = ${l.startX.toFixed(3)} m to ${l.endX.toFixed(3)} m`);
                     console.log(`      → Span: ${span.toFixed(3)} m, Total Load: ${totalLoad.toFixed(2)} kN`);
+                } else if (l.type === 'Temperature' && typeof l.startX === 'number' && typeof l.endX === 'number') {
+                    console.log(`   ${i + 1}. Temperature: ΔT = ${l.magnitude.toFixed(1)} °C, ΔT top-bottom = ${(l.gradient ?? 0).toFixed(1)} °C (α = ${l.alpha}, h = ${l.depth} m) from x = ${l.startX.toFixed(3)} m to ${l.endX.toFixed(3)} m`);
                 }
             });
             console.log('');
@@ -141,21 +388,30 @@ export const useBeamAnalysis = () => {
             
             const calculatedResults = BeamAnalysisService.analyze(input);
             setResults(calculatedResults);
+            setLoadCases(BeamAnalysisService.analyzeLoadCases(input));
+            setSolvedInput(input);
         } catch (err) {
             console.error('❌ Calculation Error:', err);
             const msg = err instanceof Error ? err.message : "Calculation error";
             setError(msg);
             setResults(null);
+            setLoadCases(null);
+            setSolvedInput(null);
         }
-    }, [length, supports, loads, material]);
+    }, [length, supports, loads, hinges, foundations, segments, material, shearModel]);
 
     return { 
         length, setLength: updateLength, 
+        spanLayout, applySpanLayout, resizeSpan,
         supports, addSupport, removeSupport, 
-        loads, addLoad, removeLoad, updateLoadCategory,
-        solve, results, error,
+        hinges, addHinge, removeHinge,
+        foundations, addFoundation, removeFoundation,
+        segments, addSegment, removeSegment,
+        loads, addLoad, addSupportDisplacement, addThermalLoad, removeLoad, updateLoadCategory,
+        solve, results, loadCases, solvedInput, error,
         nodes,
         processedLoads,
-        material, setMaterial
+        material, setMaterial, applySection, applyShape,
+        shearModel, setShearModel
     };
 };
\ No newline at end of file
@@ -0,0 +1,14 @@
+import type { LoadCategory } from '../core/entities/Load';
+
+/**
+ * Colors shared by the canvas badges, the category toggle and the diagram view modes
+ */
+export const LOAD_CATEGORY_STYLES: Record<LoadCategory, { label: string, hex: string, activeClass: string }> = {
+    Dead: { label: 'Dead', hex: '#64748b', activeClass: 'bg-slate-600 text-white shadow-md' },
+    Live: { label: 'Live', hex: '#3b82f6', activeClass: 'bg-blue-600 text-white shadow-md shadow-blue-500/20' },
+    Wind: { label: 'Wind', hex: '#14b8a6', activeClass: 'bg-teal-600 text-white shadow-md shadow-teal-500/20' },
+    Snow: { label: 'Snow', hex: '#0ea5e9', activeClass: 'bg-sky-500 text-white shadow-md shadow-sky-500/20' },
+    Seismic: { label: 'Seismic', hex: '#a855f7', activeClass: 'bg-purple-600 text-white shadow-md shadow-purple-500/20' },
+    Settlement: { label: 'Settlement', hex: '#f97316', activeClass: 'bg-orange-600 text-white shadow-md shadow-orange-500/20' },
+    Thermal: { label: 'Thermal', hex: '#ef4444', activeClass: 'bg-red-600 text-white shadow-md shadow-red-500/20' }
+};
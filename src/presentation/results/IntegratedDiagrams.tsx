@@ -1,94 +1,333 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Download } from 'lucide-react';
 import type { AnalysisResults } from '../../core/logic/FemSolver';
-import type { DiagramViewMode, DiagramPoint } from '../../core/services/DiagramCalculator';
+import type { DiagramPoint, DiagramData, EnvelopePoint, StressDiagrams } from '../../core/services/DiagramCalculator';
 import { DiagramCalculator } from '../../core/services/DiagramCalculator';
-import { BeamAnalysisService } from '../../core/services/BeamAnalysisService';
-import type { Node } from '../../core/entities/Node';
-import type { Load } from '../../core/entities/Load';
-import type { SupportType } from '../../core/entities/Node';
+import { BeamAnalysisService, type BeamInput, type LoadCaseResults } from '../../core/services/BeamAnalysisService';
+import { LoadCombinationService, type CombinationStandard } from '../../core/services/LoadCombinationService';
+import { ResultsExportService } from '../../core/services/ResultsExportService';
+import { ServiceabilityService, type DeflectionLimits } from '../../core/services/ServiceabilityService';
+import { InfluenceLineService, type InfluenceResponse } from '../../core/services/InfluenceLineService';
+import { MovingLoadService } from '../../core/services/MovingLoadService';
+import { ModalAnalysisService } from '../../core/services/ModalAnalysisService';
+import { DynamicAnalysisService } from '../../core/services/DynamicAnalysisService';
+import { LoadCombination } from '../../core/entities/LoadCombination';
+import type { Node, SpringStiffness } from '../../core/entities/Node';
+import type { CrossSectionProperties } from '../../core/entities/CrossSection';
+import { AXLE_GROUP_PRESETS, axleGroupTotal, type AxleGroup } from '../../core/entities/AxleGroup';
+import { walkingLoads, type DynamicLoad } from '../../core/entities/DynamicLoad';
+import type { Load, LoadCategory, PointForceLoad } from '../../core/entities/Load';
+import { LOAD_CATEGORIES, LOAD_CATEGORY_SYMBOLS } from '../../core/entities/Load';
+import { LOAD_CATEGORY_STYLES } from '../loadCategoryStyles';
+import { springZigzagPath, rotationalSpringPath, foundationBedPath, forceArrow } from '../supportSymbols';
 
 interface IntegratedDiagramsProps {
     results: AnalysisResults;
+    loadCases: LoadCaseResults;
+    input: BeamInput;
     length: number;
     nodes: Node[];
-    supports: Array<{ id: string, x: number, type: string }>;
+    supports: Array<{ id: string, x: number, type: string, spring?: SpringStiffness }>;
     loads: Load[];
-    material: { E: number, I: number };
+    // Beam section for the stress diagrams; null when I and A were typed in by hand
+    section: CrossSectionProperties | null;
 }
 
-type DiagramType = 'deflection' | 'sfd' | 'bmd' | 'reactions';
+type DiagramType = 'deflection' | 'sfd' | 'bmd' | 'afd' | 'soil' | 'stress' | 'shear-stress' | 'utilization' | 'influence' | 'moving' | 'modal' | 'dynamic' | 'reactions';
+const STRESS_DIAGRAMS: DiagramType[] = ['stress', 'shear-stress', 'utilization'];
+
+// A single unfactored load case, a factored combination of the solved cases,
+// or the max/min envelope over all cases or all combinations of the standard
+type ResultView =
+    | { kind: 'case', category: LoadCategory }
+    | { kind: 'combination', id: string }
+    | { kind: 'envelope', source: 'cases' | 'combinations' | 'patterns' };
+
+type HoverPoint = { x: number, y: number, value: number, position: number, envelope?: EnvelopePoint };
+
+const superposeCombination = (
+    caseDiagrams: Partial<Record<LoadCategory, DiagramData>>,
+    combination: LoadCombination,
+    length: number
+): DiagramData => {
+    const parts = (Object.entries(caseDiagrams) as [LoadCategory, DiagramData][])
+        .map(([category, data]) => ({ data, factor: combination.factorFor(category) }))
+        .filter(p => p.factor !== 0);
+    return DiagramCalculator.superpose(parts, length, 200);
+};
+
+interface AnimatedModeShapeProps {
+    scale: number;                        // Amplitude in px at the extreme positions
+    linePath: (scale: number) => string;
+    fillPath: (scale: number) => string;
+}
+
+// Mode shape swinging between its extremes: one slow oscillation every two seconds,
+// whatever the frequency. It owns the phase so only it re-renders on each frame
+const AnimatedModeShape: React.FC<AnimatedModeShapeProps> = ({ scale, linePath, fillPath }) => {
+    const [phase, setPhase] = useState(0);
+    useEffect(() => {
+        let frame = 0;
+        const start = performance.now();
+        const tick = (now: number) => {
+            setPhase(((now - start) / 2000) * 2 * Math.PI);
+            frame = requestAnimationFrame(tick);
+        };
+        frame = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(frame);
+    }, []);
+    const current = scale * Math.cos(phase);
+
+    return (
+        <>
+            <path d={fillPath(current)} fill="#14b8a6" fillOpacity="0.2" />
+            <path d={linePath(current)} fill="none" stroke="#14b8a6" strokeWidth="2.5" />
+        </>
+    );
+};
 
 export const IntegratedDiagrams: React.FC<IntegratedDiagramsProps> = ({
     results,
+    loadCases,
+    input,
     length,
     nodes,
     supports,
     loads,
-    material
+    section
 }) => {
     const [activeDiagram, setActiveDiagram] = useState<DiagramType>('deflection');
-    const [viewMode, setViewMode] = useState<DiagramViewMode>('dead');
-    const [hoverPoint, setHoverPoint] = useState<{ x: number, y: number, value: number, position: number } | null>(null);
+    const [view, setView] = useState<ResultView>({ kind: 'case', category: 'Dead' });
+    const [standard, setStandard] = useState<CombinationStandard>('ASCE7-LRFD');
+    const [hoverPoint, setHoverPoint] = useState<HoverPoint | null>(null);
+    // Serviceability limits as the n of L/n
+    const [deflectionLimits, setDeflectionLimits] = useState<DeflectionLimits>(ServiceabilityService.DEFAULT_LIMITS);
+    // Response followed by the influence line; the section is picked on the diagram
+    const [influenceResponse, setInfluenceResponse] = useState<InfluenceResponse>({ kind: 'moment', x: length / 2 });
+    // Axle group stepped across the beam, and the effect whose envelope is drawn
+    const [axleGroup, setAxleGroup] = useState<AxleGroup>(AXLE_GROUP_PRESETS[0]);
+    const [movingStep, setMovingStep] = useState(0.1);
+    const [movingEffect, setMovingEffect] = useState<'moment' | 'shear'>('moment');
+    // Modal analysis: modes to extract, non-structural mass (kg/m) and the animated mode
+    const [modeCount, setModeCount] = useState(6);
+    const [addedMass, setAddedMass] = useState(0);
+    const [selectedMode, setSelectedMode] = useState(0);
+    // Forced vibration: loads in kN like the static loads, and the reported point
+    const [dynamicLoads, setDynamicLoads] = useState<DynamicLoad[]>([{ kind: 'harmonic', x: length / 2, amplitude: -1, frequency: 25 }]);
+    const [dynamicOptions, setDynamicOptions] = useState({ duration: 3, outputX: length / 2, damping: DynamicAnalysisService.DEFAULT_DAMPING });
+    const [dynamicHistory, setDynamicHistory] = useState<'displacement' | 'acceleration'>('acceleration');
+    // Allowable (or yield) normal stress in MPa for the utilization check
+    const [allowableStress, setAllowableStress] = useState(250);
     const svgRef = React.useRef<SVGSVGElement>(null);
 
-    // Calculate reactions based on view mode (only Dead or Live, no superposition)
-    const filteredReactions = useMemo(() => {
-        if (!results || nodes.length === 0) return results?.reactions || {};
-        
+    const combinations = LoadCombinationService.getCombinations(standard);
+    const activeCombination = view.kind === 'combination'
+        ? combinations.find(c => c.id === view.id) ?? null
+        : null;
+
+    // Solved elements, so deflections follow their own shape functions (Timoshenko, tapered)
+    const elements = useMemo(() => {
         try {
-            // Filter loads by category and recalculate
-            const filteredLoads = loads.filter(l => 
-                viewMode === 'dead' ? l.category === 'Dead' : l.category === 'Live'
-            );
-            
-            if (filteredLoads.length === 0) {
-                // No loads of this category, return empty reactions
-                return {};
+            return BeamAnalysisService.generateMesh(input).elements;
+        } catch {
+            return undefined;
+        }
+    }, [input]);
+    // Foundations as the solver sees them: clipped to the beam, empty ranges dropped
+    const foundations = useMemo(() => BeamAnalysisService.getFoundations(input), [input]);
+
+    // Diagrams of each unfactored load case, computed once per solve
+    const caseDiagrams = useMemo(() => {
+        const diagrams: Partial<Record<LoadCategory, DiagramData>> = {};
+        if (nodes.length === 0) return diagrams;
+        (Object.entries(loadCases) as [LoadCategory, AnalysisResults | undefined][]).forEach(([category, caseResult]) => {
+            if (!caseResult) return;
+            try {
+                diagrams[category] = DiagramCalculator.calculateDiagrams(
+                    length,
+                    nodes,
+                    loads,
+                    caseResult.reactions,
+                    caseResult.displacements,
+                    200,
+                    undefined,
+                    [category],
+                    undefined,
+                    foundations,
+                    elements
+                );
+            } catch (err) {
+                console.error(`Error calculating ${category} diagrams:`, err);
             }
-            
-            const filteredInput = {
-                length,
-                E: material.E,
-                I: material.I,
-                supports: supports.map(s => ({ x: s.x, type: s.type as SupportType })),
-                loads: filteredLoads.map(l => ({
-                    id: l.id,
-                    type: l.type,
-                    magnitude: (l as any).magnitude,
-                    x: (l as any).x,
-                    startX: (l as any).startX,
-                    endX: (l as any).endX,
-                    category: l.category
-                }))
-            };
-            const filteredResults = BeamAnalysisService.analyze(filteredInput);
-            return filteredResults.reactions;
+        });
+        return diagrams;
+    }, [loadCases, length, nodes, loads, foundations, elements]);
+
+    // Reactions of the selected case, or superposed with the combination factors
+    const filteredReactions = useMemo(() => {
+        if (activeCombination) {
+            return LoadCombinationService.combine(loadCases, activeCombination).reactions;
+        }
+        if (view.kind === 'case') {
+            return loadCases[view.category]?.reactions ?? {};
+        }
+        return {};
+    }, [loadCases, view, activeCombination]);
+
+    // Members of the governing envelope: unit "combinations" of each case, or the code combinations
+    const envelopeCombinations = useMemo(() => {
+        if (view.kind === 'envelope' && view.source === 'cases') {
+            return LOAD_CATEGORIES
+                .filter(category => loadCases[category])
+                .map(category => new LoadCombination(category, { [category]: 1 }, LOAD_CATEGORY_STYLES[category].label));
+        }
+        return combinations;
+    }, [view, loadCases, combinations]);
+
+    // Checkerboard live load patterns, only for continuous beams with live load
+    const patternLoading = useMemo(() => {
+        try {
+            return BeamAnalysisService.analyzePatternLiveLoading(input);
         } catch (err) {
-            console.error('Error calculating filtered reactions:', err);
-            return results.reactions;
+            console.error('Error calculating pattern live loading:', err);
+            return null;
+        }
+    }, [input]);
+
+    const diagramEnvelope = useMemo(() => {
+        if (view.kind === 'envelope' && view.source === 'patterns') {
+            if (!patternLoading) return null;
+            return DiagramCalculator.envelope(patternLoading.patterns.map(p => ({ name: p.name, data: p.diagrams })));
         }
-    }, [results, length, nodes, supports, loads, viewMode, material]);
+        if (view.kind !== 'envelope' || envelopeCombinations.length === 0) return null;
+        return DiagramCalculator.envelope(envelopeCombinations.map(c => ({
+            name: c.name,
+            data: superposeCombination(caseDiagrams, c, length)
+        })));
+    }, [view, envelopeCombinations, caseDiagrams, length, patternLoading]);
 
-    // Calculate diagrams based on view mode (only Dead or Live, no superposition)
     const diagramData = useMemo(() => {
         if (!results || nodes.length === 0) return null;
+        if (activeCombination) {
+            return superposeCombination(caseDiagrams, activeCombination, length);
+        }
+        if (view.kind === 'case') {
+            return caseDiagrams[view.category] ?? DiagramCalculator.superpose([], length, 200);
+        }
+        if (diagramEnvelope) {
+            // The upper bound is drawn as the main curve, the lower bound on top of it
+            const upper = (points: EnvelopePoint[]) => points.map(p => ({ x: p.x, value: p.max }));
+            return {
+                shearForce: upper(diagramEnvelope.shearForce),
+                bendingMoment: upper(diagramEnvelope.bendingMoment),
+                deformation: upper(diagramEnvelope.deformation),
+                soilPressure: upper(diagramEnvelope.soilPressure),
+                axialForce: upper(diagramEnvelope.axialForce)
+            };
+        }
+        return DiagramCalculator.superpose([], length, 200);
+    }, [results, nodes, length, view, activeCombination, caseDiagrams, diagramEnvelope]);
+
+    const envelopeMinData = useMemo((): DiagramData | null => {
+        if (!diagramEnvelope) return null;
+        const lower = (points: EnvelopePoint[]) => points.map(p => ({ x: p.x, value: p.min }));
+        return {
+            shearForce: lower(diagramEnvelope.shearForce),
+            bendingMoment: lower(diagramEnvelope.bendingMoment),
+            deformation: lower(diagramEnvelope.deformation),
+            soilPressure: lower(diagramEnvelope.soilPressure),
+            axialForce: lower(diagramEnvelope.axialForce)
+        };
+    }, [diagramEnvelope]);
+
+    // Section stresses of the shown diagrams (both bounds of an envelope)
+    const stressData = useMemo(
+        () => section && diagramData ? DiagramCalculator.stressDiagrams(diagramData, section, allowableStress) : null,
+        [section, diagramData, allowableStress]
+    );
+    const stressMinData = useMemo(
+        () => section && envelopeMinData ? DiagramCalculator.stressDiagrams(envelopeMinData, section, allowableStress) : null,
+        [section, envelopeMinData, allowableStress]
+    );
+    const criticalStress = stressMinData && stressData && stressMinData.critical.ratio > stressData.critical.ratio
+        ? stressMinData.critical
+        : stressData?.critical ?? null;
+
+    // Span-by-span deflection checks, solved on a refined mesh only while the deflection view is open
+    const deflectionChecks = useMemo(() => {
+        if (activeDiagram !== 'deflection') return [];
         try {
-            // Single category view only
-            return DiagramCalculator.calculateDiagrams(
-                length,
-                nodes,
-                loads,
-                filteredReactions,
-                results.displacements,
-                200,
-                viewMode,
-                viewMode === 'dead' ? ['Dead'] : ['Live']
-            );
+            return ServiceabilityService.checkDeflections(input, deflectionLimits);
         } catch (err) {
-            console.error('Error calculating diagrams:', err);
-            return null;
+            console.error('Error checking deflections:', err);
+            return [];
+        }
+    }, [activeDiagram, input, deflectionLimits]);
+
+    // Influence line of the chosen response, one solve per unit load position
+    const influence = useMemo(() => {
+        if (activeDiagram !== 'influence') return { line: null, error: null };
+        try {
+            return { line: InfluenceLineService.compute(input, influenceResponse), error: null };
+        } catch (err) {
+            return { line: null, error: err instanceof Error ? err.message : String(err) };
+        }
+    }, [activeDiagram, input, influenceResponse]);
+    const influenceLine = influence.line;
+
+    // Moving load train, one solve per position of the group
+    const moving = useMemo(() => {
+        if (activeDiagram !== 'moving') return { results: null, error: null };
+        try {
+            return { results: MovingLoadService.analyze(input, axleGroup, movingStep), error: null };
+        } catch (err) {
+            return { results: null, error: err instanceof Error ? err.message : String(err) };
         }
-    }, [results, length, nodes, loads, viewMode, filteredReactions]);
+    }, [activeDiagram, input, axleGroup, movingStep]);
+    const movingResults = moving.results;
+
+    // Natural frequencies and mode shapes, solved only while the modal view is open
+    const modal = useMemo(() => {
+        if (activeDiagram !== 'modal') return { results: null, error: null };
+        try {
+            return { results: ModalAnalysisService.analyze(input, modeCount, addedMass), error: null };
+        } catch (err) {
+            return { results: null, error: err instanceof Error ? err.message : String(err) };
+        }
+    }, [activeDiagram, input, modeCount, addedMass]);
+    const modalResults = modal.results;
+    const activeMode = modalResults?.modes[Math.min(selectedMode, modalResults.modes.length - 1)] ?? null;
+
+    // Time-history response at the chosen point
+    const dynamic = useMemo(() => {
+        if (activeDiagram !== 'dynamic') return { response: null, error: null };
+        try {
+            return { response: DynamicAnalysisService.analyze(input, dynamicLoads, { ...dynamicOptions, addedMass }), error: null };
+        } catch (err) {
+            return { response: null, error: err instanceof Error ? err.message : String(err) };
+        }
+    }, [activeDiagram, input, dynamicLoads, dynamicOptions, addedMass]);
+    const dynamicResponse = dynamic.response;
+    const updateDynamicLoad = (i: number, load: DynamicLoad) =>
+        setDynamicLoads(dynamicLoads.map((l, j) => j === i ? load : l));
+
+    const movingEnvelope = movingResults
+        ? (movingEffect === 'moment' ? movingResults.envelope.bendingMoment : movingResults.envelope.shearForce)
+        : [];
+    // Axle positions that produce the governing effect, drawn on the beam
+    const movingGoverning = movingResults
+        ? (movingEffect === 'moment' ? movingResults.maxMoment : movingResults.maxShear)
+        : null;
+
+    // Governing reactions over the combinations (or cases) of the envelope
+    const combinationEnvelope = useMemo(
+        () => LoadCombinationService.envelope(loadCases, envelopeCombinations),
+        [loadCases, envelopeCombinations]
+    );
+
+    // Horizontal reactions only get their own columns when some combination produces them
+    const hasHorizontalReactions = Object.values(combinationEnvelope.reactions)
+        .some(env => Math.abs(env.fx.max) > 1e-6 || Math.abs(env.fx.min) > 1e-6);
 
     // Canvas dimensions
     const width = 800;
@@ -98,24 +337,65 @@ export const IntegratedDiagrams: React.FC<IntegratedDiagramsProps> = ({
     const beamY = 150;
     const diagramHeight = 200;
     const diagramY = beamY + 80;
+    const spans = useMemo(() => BeamAnalysisService.getSpans(input), [input]);
 
     const metersToPx = (m: number) => (m / length) * (width - paddingX * 2) + paddingX;
     const pxToMeters = (px: number) => ((px - paddingX) / (width - paddingX * 2)) * length;
 
-    // Calculate scales - handle null diagramData
-    const maxDeflection = diagramData ? Math.max(...diagramData.deformation.map((d: DiagramPoint) => Math.abs(d.value))) : 0;
-    const maxShear = diagramData ? Math.max(...diagramData.shearForce.map((sf: DiagramPoint) => Math.abs(sf.value))) : 0;
-    const maxMoment = diagramData ? Math.max(...diagramData.bendingMoment.map((bm: DiagramPoint) => Math.abs(bm.value))) : 0;
+    // Calculate scales - handle null diagramData, envelopes scale to both bounds
+    const scaled = [diagramData, envelopeMinData].filter((d): d is DiagramData => d !== null);
+    const maxAbs = (pick: (d: DiagramData) => DiagramPoint[]) =>
+        Math.max(0, ...scaled.flatMap(d => pick(d).map(p => Math.abs(p.value))));
+    const maxDeflection = maxAbs(d => d.deformation);
+    const maxShear = maxAbs(d => d.shearForce);
+    const maxMoment = maxAbs(d => d.bendingMoment);
+    const maxSoilPressure = maxAbs(d => d.soilPressure);
+    const maxAxial = maxAbs(d => d.axialForce);
+    const stressScaled = [stressData, stressMinData].filter((d): d is StressDiagrams => d !== null);
+    const maxStressAbs = (pick: (d: StressDiagrams) => DiagramPoint[]) =>
+        Math.max(0, ...stressScaled.flatMap(d => pick(d).map(p => Math.abs(p.value))));
+    const maxNormalStress = maxStressAbs(d => d.normalStress);
+    const maxShearStress = maxStressAbs(d => d.shearStress);
+    // The utilization axis always reaches the 1.0 limit line
+    const maxUtilization = Math.max(1, maxStressAbs(d => d.utilization));
     
     const deflectionScale = maxDeflection > 0 ? (diagramHeight * 0.4) / maxDeflection : 1;
     const shearScale = maxShear > 0 ? (diagramHeight * 0.4) / maxShear : 1;
     const momentScale = maxMoment > 0 ? (diagramHeight * 0.4) / maxMoment : 1;
+    const soilScale = maxSoilPressure > 0 ? (diagramHeight * 0.4) / maxSoilPressure : 1;
+    const axialScale = maxAxial > 0 ? (diagramHeight * 0.4) / maxAxial : 1;
+    const normalStressScale = maxNormalStress > 0 ? (diagramHeight * 0.4) / maxNormalStress : 1;
+    const shearStressScale = maxShearStress > 0 ? (diagramHeight * 0.4) / maxShearStress : 1;
+    const utilizationScale = (diagramHeight * 0.4) / maxUtilization;
+    const maxInfluence = Math.max(0, ...(influenceLine?.points ?? []).map(p => Math.abs(p.value)));
+    const influenceScale = maxInfluence > 0 ? (diagramHeight * 0.4) / maxInfluence : 1;
+    const maxMoving = Math.max(0, ...movingEnvelope.flatMap(p => [Math.abs(p.max), Math.abs(p.min)]));
+    const movingScale = maxMoving > 0 ? (diagramHeight * 0.4) / maxMoving : 1;
+    const modalScale = diagramHeight * 0.4;
+
+    const hasFoundation = foundations.length > 0;
+    // Uplift is governed by the lower bound when an envelope is shown
+    const upliftRegions = diagramData
+        ? DiagramCalculator.upliftRegions((envelopeMinData ?? diagramData).soilPressure)
+        : [];
+    const accentColor = activeDiagram === 'deflection' ? '#a855f7'
+        : activeDiagram === 'sfd' ? '#f43f5e'
+        : activeDiagram === 'soil' ? '#ca8a04'
+        : activeDiagram === 'afd' ? '#10b981'
+        : activeDiagram === 'stress' ? '#0ea5e9'
+        : activeDiagram === 'shear-stress' ? '#d946ef'
+        : activeDiagram === 'utilization' ? '#84cc16'
+        : activeDiagram === 'influence' ? '#6366f1'
+        : activeDiagram === 'moving' ? '#f97316'
+        : activeDiagram === 'modal' ? '#14b8a6'
+        : activeDiagram === 'dynamic' ? '#ec4899'
+        : '#f59e0b';
 
     // Generate diagram paths - handle null diagramData
-    const generateDeflectionPath = () => {
-        if (!diagramData) return '';
+    const generateDeflectionPath = (data: DiagramData | null = diagramData) => {
+        if (!data) return '';
         let path = '';
-        diagramData.deformation.forEach((point: DiagramPoint, i: number) => {
+        data.deformation.forEach((point: DiagramPoint, i: number) => {
             const x = metersToPx(point.x);
             const y = diagramY - (point.value * deflectionScale);
             path += `${i === 0 ? 'M' : 'L'} ${x} ${y} `;
@@ -123,11 +403,11 @@ export const IntegratedDiagrams: React.FC<IntegratedDiagramsProps> = ({
         return path;
     };
 
-    const generateShearPath = () => {
-        if (!diagramData) return '';
+    const generateShearPath = (data: DiagramData | null = diagramData) => {
+        if (!data) return '';
         let path = '';
         const zeroY = diagramY;
-        diagramData.shearForce.forEach((point: DiagramPoint, i: number) => {
+        data.shearForce.forEach((point: DiagramPoint, i: number) => {
             const x = metersToPx(point.x);
             const y = zeroY - (point.value * shearScale);
             path += `${i === 0 ? 'M' : 'L'} ${x} ${y} `;
@@ -135,11 +415,11 @@ export const IntegratedDiagrams: React.FC<IntegratedDiagramsProps> = ({
         return path;
     };
 
-    const generateMomentPath = () => {
-        if (!diagramData) return '';
+    const generateMomentPath = (data: DiagramData | null = diagramData) => {
+        if (!data) return '';
         let path = '';
         const zeroY = diagramY;
-        diagramData.bendingMoment.forEach((point: DiagramPoint, i: number) => {
+        data.bendingMoment.forEach((point: DiagramPoint, i: number) => {
             const x = metersToPx(point.x);
             // Invert moment diagram: positive moments go upward, negative downward
             const y = zeroY + (point.value * momentScale);
@@ -148,26 +428,87 @@ export const IntegratedDiagrams: React.FC<IntegratedDiagramsProps> = ({
         return path;
     };
 
-    const generateShearFill = () => {
-        if (!diagramData) return '';
+    const generateShearFill = (data: DiagramData | null = diagramData) => {
+        if (!data) return '';
+        const zeroY = diagramY;
+        let path = generateShearPath(data);
+        const lastPoint = data.shearForce[data.shearForce.length - 1] as DiagramPoint;
+        const lastX = metersToPx(lastPoint.x);
+        path += `L ${lastX} ${zeroY} L ${metersToPx(0)} ${zeroY} Z`;
+        return path;
+    };
+
+    const generateMomentFill = (data: DiagramData | null = diagramData) => {
+        if (!data) return '';
         const zeroY = diagramY;
-        let path = generateShearPath();
-        const lastPoint = diagramData.shearForce[diagramData.shearForce.length - 1] as DiagramPoint;
+        let path = generateMomentPath(data);
+        const lastPoint = data.bendingMoment[data.bendingMoment.length - 1] as DiagramPoint;
         const lastX = metersToPx(lastPoint.x);
         path += `L ${lastX} ${zeroY} L ${metersToPx(0)} ${zeroY} Z`;
         return path;
     };
 
-    const generateMomentFill = () => {
-        if (!diagramData) return '';
+    const generateAxialPath = (data: DiagramData | null = diagramData) => {
+        if (!data) return '';
+        let path = '';
+        const zeroY = diagramY;
+        data.axialForce.forEach((point: DiagramPoint, i: number) => {
+            const x = metersToPx(point.x);
+            // Tension above the axis, compression below
+            const y = zeroY - (point.value * axialScale);
+            path += `${i === 0 ? 'M' : 'L'} ${x} ${y} `;
+        });
+        return path;
+    };
+
+    const generateAxialFill = (data: DiagramData | null = diagramData) => {
+        if (!data) return '';
         const zeroY = diagramY;
-        let path = generateMomentPath();
-        const lastPoint = diagramData.bendingMoment[diagramData.bendingMoment.length - 1] as DiagramPoint;
+        let path = generateAxialPath(data);
+        const lastPoint = data.axialForce[data.axialForce.length - 1] as DiagramPoint;
         const lastX = metersToPx(lastPoint.x);
         path += `L ${lastX} ${zeroY} L ${metersToPx(0)} ${zeroY} Z`;
         return path;
     };
 
+    const generateSoilPath = (data: DiagramData | null = diagramData) => {
+        if (!data) return '';
+        let path = '';
+        const zeroY = diagramY;
+        data.soilPressure.forEach((point: DiagramPoint, i: number) => {
+            const x = metersToPx(point.x);
+            // Compression pushes into the ground, so it is drawn below the axis
+            const y = zeroY + (point.value * soilScale);
+            path += `${i === 0 ? 'M' : 'L'} ${x} ${y} `;
+        });
+        return path;
+    };
+
+    const generateSoilFill = (data: DiagramData | null = diagramData) => {
+        if (!data) return '';
+        const zeroY = diagramY;
+        let path = generateSoilPath(data);
+        const lastPoint = data.soilPressure[data.soilPressure.length - 1] as DiagramPoint;
+        const lastX = metersToPx(lastPoint.x);
+        path += `L ${lastX} ${zeroY} L ${metersToPx(0)} ${zeroY} Z`;
+        return path;
+    };
+
+    // Stress diagrams: σ is drawn on the tension side like the moment, τ and utilization upward
+    const generateStressPath = (points: DiagramPoint[] | undefined, scale: number, inverted: boolean = false) => {
+        if (!points) return '';
+        return points.map((point, i) => {
+            const y = inverted ? diagramY + point.value * scale : diagramY - point.value * scale;
+            return `${i === 0 ? 'M' : 'L'} ${metersToPx(point.x)} ${y}`;
+        }).join(' ');
+    };
+
+    const generateStressFill = (points: DiagramPoint[] | undefined, scale: number, inverted: boolean = false) => {
+        if (!points || points.length === 0) return '';
+        const lastX = metersToPx(points[points.length - 1].x);
+        return `${generateStressPath(points, scale, inverted)} L ${lastX} ${diagramY} L ${metersToPx(points[0].x)} ${diagramY} Z`;
+    };
+
     // Find closest data point to mouse position
     const findClosestPoint = (mouseX: number, mouseY: number) => {
         if (!svgRef.current) return null;
@@ -185,37 +526,69 @@ export const IntegratedDiagrams: React.FC<IntegratedDiagramsProps> = ({
         if (!diagramData) return null;
         
         let dataPoints: Array<{ x: number, value: number }> = [];
+        let envelopePoints: EnvelopePoint[] = [];
         let scale = 1;
         let zeroY = diagramY;
         
         if (activeDiagram === 'deflection') {
             dataPoints = diagramData.deformation;
+            envelopePoints = diagramEnvelope?.deformation ?? [];
             scale = deflectionScale;
         } else if (activeDiagram === 'sfd') {
             dataPoints = diagramData.shearForce;
+            envelopePoints = diagramEnvelope?.shearForce ?? [];
             scale = shearScale;
         } else if (activeDiagram === 'bmd') {
             dataPoints = diagramData.bendingMoment;
+            envelopePoints = diagramEnvelope?.bendingMoment ?? [];
             scale = momentScale;
+        } else if (activeDiagram === 'afd') {
+            dataPoints = diagramData.axialForce;
+            envelopePoints = diagramEnvelope?.axialForce ?? [];
+            scale = axialScale;
+        } else if (activeDiagram === 'soil') {
+            dataPoints = diagramData.soilPressure;
+            envelopePoints = diagramEnvelope?.soilPressure ?? [];
+            scale = soilScale;
+        } else if (activeDiagram === 'stress' && stressData) {
+            dataPoints = stressData.normalStress;
+            scale = normalStressScale;
+        } else if (activeDiagram === 'shear-stress' && stressData) {
+            dataPoints = stressData.shearStress;
+            scale = shearStressScale;
+        } else if (activeDiagram === 'utilization' && stressData) {
+            dataPoints = stressData.utilization;
+            scale = utilizationScale;
+        } else if (activeDiagram === 'influence' && influenceLine) {
+            dataPoints = influenceLine.points;
+            scale = influenceScale;
+        } else if (activeDiagram === 'modal' && activeMode) {
+            dataPoints = activeMode.shape;
+            scale = modalScale;
+        } else if (activeDiagram === 'moving' && movingEnvelope.length > 0) {
+            dataPoints = movingEnvelope.map(p => ({ x: p.x, value: p.max }));
+            envelopePoints = movingEnvelope;
+            scale = movingScale;
         } else {
             return null; // No tooltip for reactions
         }
         
         // Find closest point
-        let closest = dataPoints[0];
-        let minDist = Math.abs(closest.x - xMeters);
+        let closestIndex = 0;
+        let minDist = Math.abs(dataPoints[0].x - xMeters);
         
-        for (const point of dataPoints) {
+        dataPoints.forEach((point, i) => {
             const dist = Math.abs(point.x - xMeters);
             if (dist < minDist) {
                 minDist = dist;
-                closest = point;
+                closestIndex = i;
             }
-        }
+        });
+        const closest = dataPoints[closestIndex];
         
         const pointX = metersToPx(closest.x);
-        // Moment diagram is inverted (positive moments go upward), others go downward
-        const pointY = activeDiagram === 'bmd' 
+        // Moment, soil pressure and normal stress diagrams are inverted (positive values go downward on screen)
+        const pointY = activeDiagram === 'bmd' || activeDiagram === 'soil' || activeDiagram === 'stress' || (activeDiagram === 'moving' && movingEffect === 'moment')
             ? zeroY + (closest.value * scale)  // Inverted for moment
             : zeroY - (closest.value * scale); // Normal for deflection and shear
         
@@ -223,7 +596,8 @@ export const IntegratedDiagrams: React.FC<IntegratedDiagramsProps> = ({
             x: pointX,
             y: pointY,
             value: closest.value,
-            position: closest.x
+            position: closest.x,
+            envelope: envelopePoints[closestIndex]
         };
     };
 
@@ -232,10 +606,42 @@ export const IntegratedDiagrams: React.FC<IntegratedDiagramsProps> = ({
         setHoverPoint(point);
     };
 
+    const formatDiagramValue = (value: number) => {
+        if (activeDiagram === 'deflection') return `${(value * 1000).toFixed(2)} mm`;
+        if (activeDiagram === 'sfd' || activeDiagram === 'afd') return `${value.toFixed(2)} kN`;
+        if (activeDiagram === 'soil') return `${value.toFixed(2)} kN/m`;
+        if (activeDiagram === 'stress' || activeDiagram === 'shear-stress') return `${value.toFixed(2)} MPa`;
+        if (activeDiagram === 'utilization') return `η = ${value.toFixed(3)}`;
+        if (activeDiagram === 'influence') return `${value.toFixed(3)} ${influenceResponse.kind === 'moment' ? 'kNm' : 'kN'}/kN`;
+        if (activeDiagram === 'modal') return `φ = ${value.toFixed(3)}`;
+        if (activeDiagram === 'moving') return `${value.toFixed(2)} ${movingEffect === 'moment' ? 'kNm' : 'kN'}`;
+        return `${value.toFixed(2)} kNm`;
+    };
+
+    // In the influence view a click on the diagram moves the section (supports for reactions)
+    const handleDiagramClick = (e: React.MouseEvent<SVGSVGElement>) => {
+        if (activeDiagram !== 'influence' || influenceResponse.kind === 'reaction' || !svgRef.current) return;
+        const rect = svgRef.current.getBoundingClientRect();
+        const svgX = ((e.clientX - rect.left) / rect.width) * width;
+        if (svgX < paddingX || svgX > width - paddingX) return;
+        const x = Math.round(pxToMeters(svgX) * 100) / 100;
+        setInfluenceResponse({ kind: influenceResponse.kind, x: Math.max(0, Math.min(length, x)) });
+    };
+
     const handleMouseLeave = () => {
         setHoverPoint(null);
     };
 
+    const handleExport = () => {
+        const csv = ResultsExportService.loadCasesToCsv(nodes, loadCases);
+        const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'beam-load-cases.csv';
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
     if (!diagramData) {
         return (
             <div className="bg-gradient-to-br from-slate-800/90 to-slate-900/90 backdrop-blur-sm rounded-2xl shadow-2xl border border-slate-700/50 p-8 max-w-6xl mx-auto text-center text-slate-400">
@@ -251,45 +657,106 @@ export const IntegratedDiagrams: React.FC<IntegratedDiagramsProps> = ({
                     <div>
                         <h3 className="text-slate-100 text-2xl font-bold mb-2">Structural Analysis</h3>
                         <p className="text-slate-400 text-sm leading-relaxed">
-                            Interactive diagrams showing deflection, shear force, bending moment, and support reactions.
+                            Interactive diagrams showing deflection, shear force, bending moment, axial force, section stresses, and support reactions.
                         </p>
                     </div>
+                    <button
+                        onClick={handleExport}
+                        className="flex items-center gap-2 px-4 py-2 text-xs font-semibold rounded-lg bg-slate-700/60 text-slate-300 hover:bg-slate-600/80 border border-slate-600/50 transition-all"
+                        title="Export reactions and displacements of every load case"
+                    >
+                        <Download size={14} />
+                        Export CSV
+                    </button>
                 </div>
                 
-                {/* Load Category View Mode - Show for all diagrams (Dead or Live only) */}
-                <div className="mb-4 flex items-center gap-3">
+                {/* Load Case / Combination View Mode */}
+                <div className="mb-4 flex items-center gap-3 flex-wrap">
                     <span className="text-xs text-slate-500 uppercase tracking-wider font-semibold">View Mode:</span>
                     <div className="flex gap-2">
-                        <button
-                            onClick={() => setViewMode('dead')}
-                            className={`px-4 py-2 text-xs font-semibold rounded-lg transition-all ${
-                                viewMode === 'dead'
-                                    ? 'bg-slate-600 text-white shadow-md'
-                                    : 'bg-slate-700/60 text-slate-400 hover:bg-slate-600/80'
-                            }`}
-                        >
-                            Dead (D)
-                        </button>
-                        <button
-                            onClick={() => setViewMode('live')}
-                            className={`px-4 py-2 text-xs font-semibold rounded-lg transition-all ${
-                                viewMode === 'live'
-                                    ? 'bg-blue-600 text-white shadow-md'
-                                    : 'bg-slate-700/60 text-slate-400 hover:bg-slate-600/80'
-                            }`}
-                        >
-                            Live (L)
-                        </button>
+                        {LOAD_CATEGORIES.map(category => (
+                            <button
+                                key={category}
+                                onClick={() => setView({ kind: 'case', category })}
+                                disabled={!loadCases[category]}
+                                className={`px-4 py-2 text-xs font-semibold rounded-lg transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                                    view.kind === 'case' && view.category === category
+                                        ? LOAD_CATEGORY_STYLES[category].activeClass
+                                        : 'bg-slate-700/60 text-slate-400 hover:bg-slate-600/80'
+                                }`}
+                            >
+                                {LOAD_CATEGORY_STYLES[category].label} ({LOAD_CATEGORY_SYMBOLS[category]})
+                            </button>
+                        ))}
+                    </div>
+                    <div className="w-[1px] h-6 bg-slate-700" />
+                    <span className="text-xs text-slate-500 uppercase tracking-wider font-semibold">Combination:</span>
+                    <select
+                        value={standard}
+                        onChange={e => {
+                            const next = e.target.value as CombinationStandard;
+                            setStandard(next);
+                            if (view.kind === 'combination') {
+                                setView({ kind: 'combination', id: LoadCombinationService.getCombinations(next)[0].id });
+                            }
+                        }}
+                        className="px-3 py-2 bg-slate-900/50 border border-slate-600/50 rounded-lg text-xs font-semibold text-slate-200 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                    >
+                        {(Object.keys(LoadCombinationService.STANDARD_LABELS) as CombinationStandard[]).map(key => (
+                            <option key={key} value={key}>{LoadCombinationService.STANDARD_LABELS[key]}</option>
+                        ))}
+                    </select>
+                    <select
+                        value={activeCombination?.id ?? ''}
+                        onChange={e => setView(e.target.value ? { kind: 'combination', id: e.target.value } : { kind: 'case', category: 'Dead' })}
+                        className={`px-3 py-2 border rounded-lg text-xs font-semibold focus:outline-none focus:ring-2 focus:ring-emerald-500/50 ${
+                            activeCombination
+                                ? 'bg-emerald-600 border-emerald-500 text-white'
+                                : 'bg-slate-900/50 border-slate-600/50 text-slate-400'
+                        }`}
+                    >
+                        <option value="">Select combination…</option>
+                        {combinations.map(c => (
+                            <option key={c.id} value={c.id}>{c.name}</option>
+                        ))}
+                    </select>
+                    <div className="w-[1px] h-6 bg-slate-700" />
+                    <span className="text-xs text-slate-500 uppercase tracking-wider font-semibold">Envelope:</span>
+                    <div className="flex gap-2">
+                        {(['cases', 'combinations', 'patterns'] as const).map(source => (
+                            <button
+                                key={source}
+                                onClick={() => setView({ kind: 'envelope', source })}
+                                disabled={source === 'patterns' && !patternLoading}
+                                title={source === 'patterns' ? 'Pattern live loading (3+ supports with live load)' : undefined}
+                                className={`px-4 py-2 text-xs font-semibold rounded-lg transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                                    view.kind === 'envelope' && view.source === source
+                                        ? 'bg-amber-600 text-white shadow-md shadow-amber-500/20'
+                                        : 'bg-slate-700/60 text-slate-400 hover:bg-slate-600/80'
+                                }`}
+                            >
+                                {source === 'cases' ? 'Load Cases' : source === 'combinations' ? 'Combinations' : 'Live Patterns'}
+                            </button>
+                        ))}
                     </div>
                 </div>
                 
                 {/* Diagram Type Buttons - Enhanced */}
                 <div className="flex gap-3 flex-wrap">
-                    {(['deflection', 'sfd', 'bmd', 'reactions'] as DiagramType[]).map((type) => {
+                    {(['deflection', 'sfd', 'bmd', 'afd', 'soil', 'stress', 'shear-stress', 'utilization', 'influence', 'moving', 'modal', 'dynamic', 'reactions'] as DiagramType[]).filter(type => type !== 'soil' || hasFoundation).map((type) => {
                         const colors = {
                             deflection: { bg: 'bg-purple-500', hover: 'hover:bg-purple-600', shadow: 'shadow-purple-500/30', text: 'text-purple-400' },
                             sfd: { bg: 'bg-rose-500', hover: 'hover:bg-rose-600', shadow: 'shadow-rose-500/30', text: 'text-rose-400' },
                             bmd: { bg: 'bg-amber-500', hover: 'hover:bg-amber-600', shadow: 'shadow-amber-500/30', text: 'text-amber-400' },
+                            afd: { bg: 'bg-emerald-500', hover: 'hover:bg-emerald-600', shadow: 'shadow-emerald-500/30', text: 'text-emerald-400' },
+                            soil: { bg: 'bg-yellow-600', hover: 'hover:bg-yellow-700', shadow: 'shadow-yellow-500/30', text: 'text-yellow-500' },
+                            stress: { bg: 'bg-sky-500', hover: 'hover:bg-sky-600', shadow: 'shadow-sky-500/30', text: 'text-sky-400' },
+                            'shear-stress': { bg: 'bg-fuchsia-500', hover: 'hover:bg-fuchsia-600', shadow: 'shadow-fuchsia-500/30', text: 'text-fuchsia-400' },
+                            utilization: { bg: 'bg-lime-500', hover: 'hover:bg-lime-600', shadow: 'shadow-lime-500/30', text: 'text-lime-400' },
+                            influence: { bg: 'bg-indigo-500', hover: 'hover:bg-indigo-600', shadow: 'shadow-indigo-500/30', text: 'text-indigo-400' },
+                            modal: { bg: 'bg-teal-500', hover: 'hover:bg-teal-600', shadow: 'shadow-teal-500/30', text: 'text-teal-400' },
+                            dynamic: { bg: 'bg-pink-500', hover: 'hover:bg-pink-600', shadow: 'shadow-pink-500/30', text: 'text-pink-400' },
+                            moving: { bg: 'bg-orange-500', hover: 'hover:bg-orange-600', shadow: 'shadow-orange-500/30', text: 'text-orange-400' },
                             reactions: { bg: 'bg-cyan-500', hover: 'hover:bg-cyan-600', shadow: 'shadow-cyan-500/30', text: 'text-cyan-400' }
                         };
                         const colorScheme = colors[type];
@@ -297,7 +764,9 @@ export const IntegratedDiagrams: React.FC<IntegratedDiagramsProps> = ({
                             <button
                                 key={type}
                                 onClick={() => setActiveDiagram(type)}
-                                className={`px-6 py-3 text-sm font-bold rounded-xl transition-all ${
+                                disabled={STRESS_DIAGRAMS.includes(type) && !section}
+                                title={STRESS_DIAGRAMS.includes(type) && !section ? 'Pick a library section or apply one from the section editor' : undefined}
+                                className={`px-6 py-3 text-sm font-bold rounded-xl transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
                                     activeDiagram === type
                                         ? `${colorScheme.bg} text-white shadow-lg ${colorScheme.shadow} scale-105`
                                         : 'bg-slate-700/60 text-slate-300 hover:bg-slate-600/80 border border-slate-600/50'
@@ -305,11 +774,362 @@ export const IntegratedDiagrams: React.FC<IntegratedDiagramsProps> = ({
                             >
                                 {type === 'deflection' ? 'Deflection' : 
                                  type === 'sfd' ? 'Shear Force (SFD)' : 
-                                 type === 'bmd' ? 'Bending Moment (BMD)' : 'Reactions'}
+                                 type === 'bmd' ? 'Bending Moment (BMD)' :
+                                 type === 'afd' ? 'Axial Force (AFD)' :
+                                 type === 'soil' ? 'Soil Pressure' :
+                                 type === 'stress' ? 'Bending Stress (σ)' :
+                                 type === 'shear-stress' ? 'Shear Stress (τ)' :
+                                 type === 'utilization' ? 'Utilization' :
+                                 type === 'influence' ? 'Influence Lines' :
+                                 type === 'moving' ? 'Moving Loads' :
+                                 type === 'modal' ? 'Modal Analysis' :
+                                 type === 'dynamic' ? 'Dynamic Response' : 'Reactions'}
                             </button>
                         );
                     })}
                 </div>
+
+                {/* Influence line response: a support reaction, or V or M at a section */}
+                {activeDiagram === 'influence' && (
+                    <div className="mt-4 flex items-center gap-3 flex-wrap text-xs">
+                        <span className="text-slate-500 uppercase tracking-wider font-semibold">Response:</span>
+                        <div className="flex gap-2">
+                            {(['reaction', 'shear', 'moment'] as const).map(kind => (
+                                <button
+                                    key={kind}
+                                    onClick={() => setInfluenceResponse({
+                                        kind,
+                                        x: kind === 'reaction'
+                                            ? supports.find(s => s.type !== 'Free')?.x ?? 0
+                                            : influenceResponse.kind === 'reaction' ? length / 2 : influenceResponse.x
+                                    })}
+                                    className={`px-4 py-2 font-semibold rounded-lg transition-all ${
+                                        influenceResponse.kind === kind
+                                            ? 'bg-indigo-600 text-white shadow-md shadow-indigo-500/20'
+                                            : 'bg-slate-700/60 text-slate-400 hover:bg-slate-600/80'
+                                    }`}
+                                >
+                                    {kind === 'reaction' ? 'Reaction' : kind === 'shear' ? 'Shear V' : 'Moment M'}
+                                </button>
+                            ))}
+                        </div>
+                        {influenceResponse.kind === 'reaction' ? (
+                            <select
+                                value={influenceResponse.x}
+                                onChange={(e) => setInfluenceResponse({ kind: 'reaction', x: Number(e.target.value) })}
+                                className="px-3 py-2 bg-slate-900/50 border border-slate-600/50 rounded-lg font-semibold text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+                            >
+                                {supports.filter(s => s.type !== 'Free').map(s => (
+                                    <option key={s.id} value={s.x}>{s.type} at {s.x.toFixed(2)} m</option>
+                                ))}
+                            </select>
+                        ) : (
+                            <>
+                                <span className="text-slate-400 font-semibold">at x =</span>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    max={length}
+                                    step="0.1"
+                                    value={influenceResponse.x}
+                                    onChange={(e) => setInfluenceResponse({ ...influenceResponse, x: Math.max(0, Math.min(length, Number(e.target.value))) })}
+                                    className="w-20 px-3 py-1.5 bg-slate-900/50 border border-slate-600/50 rounded-lg font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+                                />
+                                <span className="text-slate-500 font-medium">m · click the diagram to move the section</span>
+                            </>
+                        )}
+                    </div>
+                )}
+
+                {/* Axle group: a preset to start from, then editable offsets and loads */}
+                {activeDiagram === 'moving' && (
+                    <div className="mt-4 flex flex-col gap-3 text-xs">
+                        <div className="flex items-center gap-3 flex-wrap">
+                            <span className="text-slate-500 uppercase tracking-wider font-semibold">Axle group:</span>
+                            <select
+                                value={AXLE_GROUP_PRESETS.findIndex(p => p.name === axleGroup.name)}
+                                onChange={(e) => setAxleGroup(AXLE_GROUP_PRESETS[Number(e.target.value)])}
+                                className="px-3 py-2 bg-slate-900/50 border border-slate-600/50 rounded-lg font-semibold text-slate-200 focus:outline-none focus:ring-2 focus:ring-orange-500/50"
+                            >
+                                <option value={-1} disabled>Custom</option>
+                                {AXLE_GROUP_PRESETS.map((preset, i) => (
+                                    <option key={preset.name} value={i}>{preset.name}</option>
+                                ))}
+                            </select>
+                            <span className="text-slate-400 font-semibold">step</span>
+                            <input
+                                type="number"
+                                min="0.01"
+                                step="0.05"
+                                value={movingStep}
+                                onChange={(e) => setMovingStep(Math.max(0.01, Number(e.target.value)))}
+                                className="w-20 px-3 py-1.5 bg-slate-900/50 border border-slate-600/50 rounded-lg font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-orange-500/50"
+                            />
+                            <span className="text-slate-500 font-medium">m</span>
+                            <div className="flex gap-2 ml-auto">
+                                {(['moment', 'shear'] as const).map(effect => (
+                                    <button
+                                        key={effect}
+                                        onClick={() => setMovingEffect(effect)}
+                                        className={`px-4 py-2 font-semibold rounded-lg transition-all ${
+                                            movingEffect === effect
+                                                ? 'bg-orange-600 text-white shadow-md shadow-orange-500/20'
+                                                : 'bg-slate-700/60 text-slate-400 hover:bg-slate-600/80'
+                                        }`}
+                                    >
+                                        {effect === 'moment' ? 'Moment envelope' : 'Shear envelope'}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="flex items-center gap-2 flex-wrap">
+                            {axleGroup.axles.map((axle, i) => (
+                                <div key={i} className="flex items-center gap-1 px-2 py-1 bg-slate-900/50 border border-slate-700/50 rounded-lg">
+                                    <span className="text-slate-500 font-semibold">#{i + 1}</span>
+                                    <input
+                                        type="number"
+                                        step="0.1"
+                                        value={axle.load}
+                                        onChange={(e) => setAxleGroup({
+                                            name: 'Custom',
+                                            axles: axleGroup.axles.map((a, j) => j === i ? { ...a, load: Number(e.target.value) } : a)
+                                        })}
+                                        className="w-16 px-2 py-1 bg-slate-900/50 border border-slate-600/50 rounded font-semibold text-slate-100"
+                                    />
+                                    <span className="text-slate-500">kN @</span>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step="0.1"
+                                        value={axle.offset}
+                                        disabled={i === 0}
+                                        onChange={(e) => setAxleGroup({
+                                            name: 'Custom',
+                                            axles: axleGroup.axles.map((a, j) => j === i ? { ...a, offset: Math.max(0, Number(e.target.value)) } : a)
+                                        })}
+                                        className="w-16 px-2 py-1 bg-slate-900/50 border border-slate-600/50 rounded font-semibold text-slate-100 disabled:opacity-50"
+                                    />
+                                    <span className="text-slate-500">m</span>
+                                    {axleGroup.axles.length > 1 && (
+                                        <button
+                                            onClick={() => setAxleGroup({ name: 'Custom', axles: axleGroup.axles.filter((_, j) => j !== i) })}
+                                            className="ml-1 text-slate-500 hover:text-red-400 font-bold"
+                                            title="Remove axle"
+                                        >
+                                            ×
+                                        </button>
+                                    )}
+                                </div>
+                            ))}
+                            <button
+                                onClick={() => {
+                                    const last = axleGroup.axles[axleGroup.axles.length - 1];
+                                    setAxleGroup({ name: 'Custom', axles: [...axleGroup.axles, { offset: (last?.offset ?? 0) + 1, load: last?.load ?? 100 }] });
+                                }}
+                                className="px-3 py-1.5 bg-slate-700/60 text-slate-300 hover:bg-slate-600/80 rounded-lg font-semibold"
+                            >
+                                + Axle
+                            </button>
+                            <span className="text-slate-500 font-medium">Σ {axleGroupTotal(axleGroup).toFixed(1)} kN · offsets behind axle 1</span>
+                        </div>
+                    </div>
+                )}
+
+                {/* Modal analysis: number of modes, added mass and the mode to animate */}
+                {activeDiagram === 'modal' && (
+                    <div className="mt-4 flex items-center gap-3 flex-wrap text-xs">
+                        <span className="text-slate-500 uppercase tracking-wider font-semibold">Modes:</span>
+                        <input
+                            type="number"
+                            min="1"
+                            max="20"
+                            step="1"
+                            value={modeCount}
+                            onChange={(e) => setModeCount(Math.max(1, Math.min(20, Math.round(Number(e.target.value)))))}
+                            className="w-16 px-3 py-1.5 bg-slate-900/50 border border-slate-600/50 rounded-lg font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-teal-500/50"
+                        />
+                        <span className="text-slate-500 uppercase tracking-wider font-semibold ml-2">Added mass:</span>
+                        <input
+                            type="number"
+                            min="0"
+                            step="10"
+                            value={addedMass}
+                            onChange={(e) => setAddedMass(Math.max(0, Number(e.target.value)))}
+                            className="w-24 px-3 py-1.5 bg-slate-900/50 border border-slate-600/50 rounded-lg font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-teal-500/50"
+                        />
+                        <span className="text-slate-500 font-medium">kg/m (finishes, quasi-permanent live load)</span>
+                        <div className="flex gap-2 flex-wrap">
+                            {modalResults?.modes.map((mode, i) => (
+                                <button
+                                    key={mode.index}
+                                    onClick={() => setSelectedMode(i)}
+                                    className={`px-4 py-2 font-semibold rounded-lg transition-all ${
+                                        activeMode === mode
+                                            ? 'bg-teal-600 text-white shadow-md shadow-teal-500/20'
+                                            : 'bg-slate-700/60 text-slate-400 hover:bg-slate-600/80'
+                                    }`}
+                                >
+                                    Mode {mode.index} · {mode.frequency.toFixed(2)} Hz
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {/* Dynamic loads (presets to start from) and the integration settings */}
+                {activeDiagram === 'dynamic' && (
+                    <div className="mt-4 flex flex-col gap-3 text-xs">
+                        <div className="flex items-center gap-2 flex-wrap">
+                            <span className="text-slate-500 uppercase tracking-wider font-semibold">Presets:</span>
+                            {([
+                                ['Machine 1 kN @ 25 Hz', [{ kind: 'harmonic', x: length / 2, amplitude: -1, frequency: 25 }]],
+                                ['Walking (DG11, 2 Hz)', walkingLoads(length / 2)],
+                                // Heel drop: about 2.7 kN decaying linearly over 50 ms
+                                ['Heel drop', [{ kind: 'timeHistory', x: length / 2, points: [{ t: 0, value: -2.7 }, { t: 0.05, value: 0 }] }]]
+                            ] as Array<[string, DynamicLoad[]]>).map(([label, preset]) => (
+                                <button
+                                    key={label}
+                                    onClick={() => setDynamicLoads(preset)}
+                                    className="px-3 py-1.5 bg-slate-700/60 text-slate-300 hover:bg-slate-600/80 rounded-lg font-semibold"
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                            <button
+                                onClick={() => setDynamicLoads([...dynamicLoads, { kind: 'harmonic', x: length / 2, amplitude: -1, frequency: 10 }])}
+                                className="px-3 py-1.5 bg-slate-700/60 text-slate-300 hover:bg-slate-600/80 rounded-lg font-semibold"
+                            >
+                                + Harmonic
+                            </button>
+                            <button
+                                onClick={() => setDynamicLoads([...dynamicLoads, { kind: 'timeHistory', x: length / 2, points: [{ t: 0, value: -1 }, { t: 0.1, value: 0 }] }])}
+                                className="px-3 py-1.5 bg-slate-700/60 text-slate-300 hover:bg-slate-600/80 rounded-lg font-semibold"
+                            >
+                                + Time history
+                            </button>
+                        </div>
+                        {dynamicLoads.map((load, i) => (
+                            <div key={i} className="flex items-start gap-2 flex-wrap px-3 py-2 bg-slate-900/50 border border-slate-700/50 rounded-lg">
+                                <span className="text-pink-300 font-semibold w-24">{load.kind === 'harmonic' ? 'Harmonic' : 'Time history'}</span>
+                                <span className="text-slate-500">x =</span>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    max={length}
+                                    step="0.1"
+                                    value={load.x}
+                                    onChange={(e) => updateDynamicLoad(i, { ...load, x: Math.max(0, Math.min(length, Number(e.target.value))) })}
+                                    className="w-16 px-2 py-1 bg-slate-900/50 border border-slate-600/50 rounded font-semibold text-slate-100"
+                                />
+                                <span className="text-slate-500">m</span>
+                                {load.kind === 'harmonic' ? (
+                                    <>
+                                        <span className="text-slate-500 ml-2">F =</span>
+                                        <input
+                                            type="number"
+                                            step="0.1"
+                                            value={load.amplitude}
+                                            onChange={(e) => updateDynamicLoad(i, { ...load, amplitude: Number(e.target.value) })}
+                                            className="w-20 px-2 py-1 bg-slate-900/50 border border-slate-600/50 rounded font-semibold text-slate-100"
+                                        />
+                                        <span className="text-slate-500">kN · sin(2π ·</span>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="0.1"
+                                            value={load.frequency}
+                                            onChange={(e) => updateDynamicLoad(i, { ...load, frequency: Math.max(0, Number(e.target.value)) })}
+                                            className="w-16 px-2 py-1 bg-slate-900/50 border border-slate-600/50 rounded font-semibold text-slate-100"
+                                        />
+                                        <span className="text-slate-500">Hz · t)</span>
+                                    </>
+                                ) : (
+                                    <>
+                                        <span className="text-slate-500 ml-2">t (s), F (kN) per line:</span>
+                                        <textarea
+                                            key={JSON.stringify(load.points)}
+                                            rows={Math.min(6, load.points.length + 1)}
+                                            defaultValue={load.points.map(p => `${p.t}, ${p.value}`).join('\n')}
+                                            onBlur={(e) => updateDynamicLoad(i, {
+                                                ...load,
+                                                points: e.target.value.split('\n')
+                                                    .map(line => line.split(/[,;\s]+/).filter(Boolean).map(Number))
+                                                    .filter(([t, value]) => Number.isFinite(t) && Number.isFinite(value))
+                                                    .map(([t, value]) => ({ t, value }))
+                                                    .sort((a, b) => a.t - b.t)
+                                            })}
+                                            className="w-40 font-mono px-2 py-1 bg-slate-900/50 border border-slate-600/50 rounded font-semibold text-slate-100"
+                                        />
+                                    </>
+                                )}
+                                <button
+                                    onClick={() => setDynamicLoads(dynamicLoads.filter((_, j) => j !== i))}
+                                    className="ml-auto text-slate-500 hover:text-red-400 font-bold"
+                                    title="Remove load"
+                                >
+                                    ×
+                                </button>
+                            </div>
+                        ))}
+                        <div className="flex items-center gap-3 flex-wrap">
+                            <span className="text-slate-500 uppercase tracking-wider font-semibold">Response at x =</span>
+                            <input
+                                type="number"
+                                min="0"
+                                max={length}
+                                step="0.1"
+                                value={dynamicOptions.outputX}
+                                onChange={(e) => setDynamicOptions({ ...dynamicOptions, outputX: Math.max(0, Math.min(length, Number(e.target.value))) })}
+                                className="w-16 px-2 py-1 bg-slate-900/50 border border-slate-600/50 rounded font-semibold text-slate-100"
+                            />
+                            <span className="text-slate-500">m · duration</span>
+                            <input
+                                type="number"
+                                min="0.1"
+                                step="0.5"
+                                value={dynamicOptions.duration}
+                                onChange={(e) => setDynamicOptions({ ...dynamicOptions, duration: Math.max(0.1, Number(e.target.value)) })}
+                                className="w-16 px-2 py-1 bg-slate-900/50 border border-slate-600/50 rounded font-semibold text-slate-100"
+                            />
+                            <span className="text-slate-500">s · damping ζ</span>
+                            <input
+                                type="number"
+                                min="0"
+                                step="0.5"
+                                value={dynamicOptions.damping * 100}
+                                onChange={(e) => setDynamicOptions({ ...dynamicOptions, damping: Math.max(0, Number(e.target.value)) / 100 })}
+                                className="w-16 px-2 py-1 bg-slate-900/50 border border-slate-600/50 rounded font-semibold text-slate-100"
+                            />
+                            <span className="text-slate-500">% · added mass</span>
+                            <input
+                                type="number"
+                                min="0"
+                                step="10"
+                                value={addedMass}
+                                onChange={(e) => setAddedMass(Math.max(0, Number(e.target.value)))}
+                                className="w-20 px-2 py-1 bg-slate-900/50 border border-slate-600/50 rounded font-semibold text-slate-100"
+                            />
+                            <span className="text-slate-500">kg/m</span>
+                        </div>
+                    </div>
+                )}
+
+                {/* Allowable stress for the utilization check */}
+                {STRESS_DIAGRAMS.includes(activeDiagram) && section && (
+                    <div className="mt-4 flex items-center gap-3 flex-wrap text-xs">
+                        <span className="text-slate-500 uppercase tracking-wider font-semibold">Allowable σ:</span>
+                        <input
+                            type="number"
+                            min="1"
+                            step="5"
+                            value={allowableStress}
+                            onChange={(e) => setAllowableStress(Math.max(1, Number(e.target.value)))}
+                            className="w-24 px-3 py-1.5 bg-slate-900/50 border border-slate-600/50 rounded-lg font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-lime-500/50"
+                            title="Allowable or yield normal stress"
+                        />
+                        <span className="text-slate-500 font-medium">MPa · τ allowable = σ/√3 = {(allowableStress / Math.sqrt(3)).toFixed(1)} MPa</span>
+                    </div>
+                )}
             </div>
 
             {/* Integrated Canvas - Enhanced */}
@@ -321,6 +1141,7 @@ export const IntegratedDiagrams: React.FC<IntegratedDiagramsProps> = ({
                     style={{ maxHeight: '500px' }}
                     onMouseMove={handleMouseMove}
                     onMouseLeave={handleMouseLeave}
+                    onClick={handleDiagramClick}
                 >
                     <defs>
                         <filter id="glow">
@@ -353,6 +1174,40 @@ export const IntegratedDiagrams: React.FC<IntegratedDiagramsProps> = ({
                         strokeLinecap="round"
                     />
 
+                    {/* Section segment boundaries: stiffness changes show up as kinks in curvature */}
+                    {Array.from(new Set((input.segments ?? []).flatMap(seg => [seg.startX, seg.endX])))
+                        .filter(bx => bx > 0 && bx < length)
+                        .map(bx => (
+                            <line
+                                key={`segment-${bx}`}
+                                x1={metersToPx(bx)}
+                                y1={beamY - 12}
+                                x2={metersToPx(bx)}
+                                y2={diagramY + diagramHeight * 0.45}
+                                stroke="#818cf8"
+                                strokeWidth="1"
+                                strokeDasharray="3,3"
+                                opacity="0.6"
+                            />
+                        ))}
+
+                    {/* Internal hinges (moment releases) */}
+                    {(input.hinges ?? []).map(hx => (
+                        <circle key={`hinge-${hx}`} cx={metersToPx(hx)} cy={beamY} r="5" fill="#0f172a" stroke="#fbbf24" strokeWidth="2" />
+                    ))}
+
+                    {/* Winkler foundations under the beam */}
+                    {activeDiagram !== 'reactions' && foundations.map(f => (
+                        <path
+                            key={`foundation-${f.startX}-${f.endX}`}
+                            d={foundationBedPath(metersToPx(f.startX), metersToPx(f.endX), beamY + 3, 16)}
+                            fill="none"
+                            stroke="#ca8a04"
+                            strokeWidth="1.2"
+                            opacity="0.8"
+                        />
+                    ))}
+
                     {/* Supports - SAP2000 Style: Black with Yellow highlights */}
                     {/* Completely hide supports in reactions view to avoid visual clutter with large triangles */}
                     {/* Only render supports when NOT viewing reactions - this prevents the large Pin support triangles from appearing */}
@@ -390,6 +1245,16 @@ export const IntegratedDiagrams: React.FC<IntegratedDiagramsProps> = ({
                                     <line x1={x + 2} y1={beamY + 5} x2={x + 6} y2={beamY + 12} stroke="#fbbf24" strokeWidth="2" />
                                 </g>
                             );
+                        } else if (s.type === 'Spring') {
+                            return (
+                                <g key={s.id}>
+                                    <path d={springZigzagPath(x, beamY, 22, 3, 5)} fill="none" stroke="#2dd4bf" strokeWidth="2" strokeLinejoin="round" />
+                                    <line x1={x - 10} y1={beamY + 22} x2={x + 10} y2={beamY + 22} stroke="#fbbf24" strokeWidth="2.5" />
+                                    {(s.spring?.kTheta ?? 0) > 0 && (
+                                        <path d={rotationalSpringPath(x, beamY, 10)} fill="none" stroke="#2dd4bf" strokeWidth="1.5" />
+                                    )}
+                                </g>
+                            );
                         }
                         return null;
                     })}
@@ -398,8 +1263,10 @@ export const IntegratedDiagrams: React.FC<IntegratedDiagramsProps> = ({
 
                     {/* Loads - SAP2000 Style: Red (downward), Yellow (upward) */}
                     {/* Hide loads in reactions view to keep the display clean and focused on reactions */}
-                    {activeDiagram !== 'reactions' && loads && Array.isArray(loads) && loads.length > 0 && loads.map(l => {
-                        const isDownward = l.magnitude < 0;
+                    {activeDiagram !== 'reactions' && activeDiagram !== 'influence' && activeDiagram !== 'moving' && activeDiagram !== 'modal' && activeDiagram !== 'dynamic' && loads && Array.isArray(loads) && loads.length > 0 && loads.map(l => {
+                        // Triangular loads may start at zero, so the direction comes from the end intensity
+                        const leadMagnitude = l.magnitude !== 0 ? l.magnitude : ((l as { endMagnitude?: number }).endMagnitude ?? 0);
+                        const isDownward = leadMagnitude < 0;
                         const loadColor = isDownward ? "#dc2626" : "#fbbf24"; // Red for down, Yellow for up
                         const loadStroke = isDownward ? "#991b1b" : "#d97706"; // Darker outline
                         const arrowY1 = isDownward ? beamY - 50 : beamY + 50;
@@ -408,43 +1275,69 @@ export const IntegratedDiagrams: React.FC<IntegratedDiagramsProps> = ({
                         const labelY = isDownward ? beamY - 60 : beamY + 70;
                         
                         if (l.type === 'PointForce') {
-                            const pf = l as { x: number, magnitude: number };
+                            const pf = l as PointForceLoad;
                             const x = metersToPx(pf.x);
+                            // Horizontal and inclined forces are drawn along their line of action
+                            const arrow = pf.horizontal ? forceArrow(x, beamY, pf.horizontal, pf.magnitude, 50, 10) : null;
+                            const labelX = arrow ? arrow.tailX : x;
+                            const labelCenterY = arrow ? arrow.tailY + (arrow.tailY <= beamY ? -12 : 12) : labelY;
                             return (
                                 <g key={l.id}>
-                                    <line x1={x} y1={arrowY1} x2={x} y2={arrowY2} stroke={loadColor} strokeWidth="3" />
-                                    <line x1={x} y1={arrowY1} x2={x} y2={arrowY2} stroke={loadStroke} strokeWidth="1.5" opacity="0.5" />
-                                    <path d={`M ${x-6} ${arrowTipY} L ${x} ${beamY} L ${x+6} ${arrowTipY}`} fill={loadColor} stroke={loadStroke} strokeWidth="1" />
-                                    <rect x={x - 28} y={labelY - 9} width="56" height="18" rx="3" fill={loadColor} opacity="0.95" stroke={loadStroke} strokeWidth="1" />
-                                    <text x={x} y={labelY + 2} textAnchor="middle" fill={isDownward ? "white" : "#000000"} fontSize="11" fontWeight="bold">
-                                        {Math.abs(pf.magnitude)}kN
+                                    {arrow ? (
+                                        <>
+                                            <line x1={arrow.tailX} y1={arrow.tailY} x2={x} y2={beamY} stroke={loadColor} strokeWidth="3" />
+                                            <path d={arrow.headPath} fill={loadColor} stroke={loadStroke} strokeWidth="1" />
+                                        </>
+                                    ) : (
+                                        <>
+                                            <line x1={x} y1={arrowY1} x2={x} y2={arrowY2} stroke={loadColor} strokeWidth="3" />
+                                            <line x1={x} y1={arrowY1} x2={x} y2={arrowY2} stroke={loadStroke} strokeWidth="1.5" opacity="0.5" />
+                                            <path d={`M ${x-6} ${arrowTipY} L ${x} ${beamY} L ${x+6} ${arrowTipY}`} fill={loadColor} stroke={loadStroke} strokeWidth="1" />
+                                        </>
+                                    )}
+                                    <rect x={labelX - 28} y={labelCenterY - 9} width="56" height="18" rx="3" fill={loadColor} opacity="0.95" stroke={loadStroke} strokeWidth="1" />
+                                    <text x={labelX} y={labelCenterY + 2} textAnchor="middle" fill={isDownward ? "white" : "#000000"} fontSize="11" fontWeight="bold">
+                                        {Number(Math.hypot(pf.magnitude, pf.horizontal).toFixed(2))}kN
                                     </text>
                                 </g>
                             );
                         } else if (l.type === 'DistributedForce') {
-                            const df = l as { startX: number, endX: number, magnitude: number };
+                            const df = l as { startX: number, endX: number, magnitude: number, endMagnitude?: number };
                             const startX = metersToPx(df.startX);
                             const endX = metersToPx(df.endX);
+                            const endMagnitude = df.endMagnitude ?? df.magnitude;
+                            const isUniform = endMagnitude === df.magnitude;
                             const arrowSpacing = 30;
                             const arrows = [];
                             for (let x = startX; x <= endX; x += arrowSpacing) {
                                 arrows.push(x);
                             }
                             if (arrows[arrows.length - 1] !== endX) arrows.push(endX);
+                            // Arrow length follows the local intensity of linearly varying loads
+                            const peak = Math.max(Math.abs(df.magnitude), Math.abs(endMagnitude)) || 1;
+                            const tailY = (x: number) => {
+                                if (isUniform) return arrowY1;
+                                const t = endX > startX ? (x - startX) / (endX - startX) : 0;
+                                const arrowLength = 45 * Math.abs(df.magnitude + (endMagnitude - df.magnitude) * t) / peak;
+                                return isDownward ? arrowY2 - arrowLength : arrowY2 + arrowLength;
+                            };
                             return (
                                 <g key={l.id}>
                                     {arrows.map((x, i) => (
                                         <g key={i}>
-                                            <line x1={x} y1={arrowY1} x2={x} y2={arrowY2} stroke={loadColor} strokeWidth="2.5" />
-                                            <line x1={x} y1={arrowY1} x2={x} y2={arrowY2} stroke={loadStroke} strokeWidth="1.2" opacity="0.5" />
+                                            <line x1={x} y1={tailY(x)} x2={x} y2={arrowY2} stroke={loadColor} strokeWidth="2.5" />
+                                            <line x1={x} y1={tailY(x)} x2={x} y2={arrowY2} stroke={loadStroke} strokeWidth="1.2" opacity="0.5" />
                                             <path d={`M ${x-4} ${arrowTipY} L ${x} ${beamY} L ${x+4} ${arrowTipY}`} fill={loadColor} stroke={loadStroke} strokeWidth="0.8" />
                                         </g>
                                     ))}
+                                    <line x1={startX} y1={tailY(startX)} x2={endX} y2={tailY(endX)} stroke={loadColor} strokeWidth="2.5" />
                                     <line x1={startX} y1={arrowY2} x2={endX} y2={arrowY2} stroke={loadColor} strokeWidth="2.5" />
                                     <line x1={startX} y1={arrowY2} x2={endX} y2={arrowY2} stroke={loadStroke} strokeWidth="1.2" opacity="0.5" />
-                                    <rect x={(startX + endX) / 2 - 32} y={labelY - 8} width="64" height="16" rx="3" fill={loadColor} opacity="0.95" stroke={loadStroke} strokeWidth="0.8" />
+                                    <rect x={(startX + endX) / 2 - (isUniform ? 32 : 46)} y={labelY - 8} width={isUniform ? 64 : 92} height="16" rx="3" fill={loadColor} opacity="0.95" stroke={loadStroke} strokeWidth="0.8" />
                                     <text x={(startX + endX) / 2} y={labelY + 2} textAnchor="middle" fill={isDownward ? "white" : "#000000"} fontSize="10" fontWeight="bold">
-                                        {Math.abs(df.magnitude)} kN/m
+                                        {isUniform
+                                            ? `${Math.abs(df.magnitude)} kN/m`
+                                            : `${Math.abs(df.magnitude)}→${Math.abs(endMagnitude)} kN/m`}
                                     </text>
                                 </g>
                             );
@@ -474,6 +1367,15 @@ export const IntegratedDiagrams: React.FC<IntegratedDiagramsProps> = ({
                                 strokeWidth="3"
                                 filter="url(#glow)"
                             />
+                            {envelopeMinData && (
+                                <path
+                                    d={generateDeflectionPath(envelopeMinData)}
+                                    fill="none"
+                                    stroke="#a855f7"
+                                    strokeWidth="2"
+                                    strokeDasharray="6,3"
+                                />
+                            )}
                         </>
                     )}
 
@@ -490,6 +1392,12 @@ export const IntegratedDiagrams: React.FC<IntegratedDiagramsProps> = ({
                                 stroke="#f43f5e"
                                 strokeWidth="2"
                             />
+                            {envelopeMinData && (
+                                <>
+                                    <path d={generateShearFill(envelopeMinData)} fill="#f43f5e" fillOpacity="0.15" />
+                                    <path d={generateShearPath(envelopeMinData)} fill="none" stroke="#f43f5e" strokeWidth="2" strokeDasharray="6,3" />
+                                </>
+                            )}
                         </>
                     )}
 
@@ -506,25 +1414,283 @@ export const IntegratedDiagrams: React.FC<IntegratedDiagramsProps> = ({
                                 stroke="#f59e0b"
                                 strokeWidth="2"
                             />
+                            {envelopeMinData && (
+                                <>
+                                    <path d={generateMomentFill(envelopeMinData)} fill="#f59e0b" fillOpacity="0.15" />
+                                    <path d={generateMomentPath(envelopeMinData)} fill="none" stroke="#f59e0b" strokeWidth="2" strokeDasharray="6,3" />
+                                </>
+                            )}
+                        </>
+                    )}
+
+                    {activeDiagram === 'afd' && (
+                        <>
+                            <path
+                                d={generateAxialFill()}
+                                fill="#10b981"
+                                fillOpacity="0.3"
+                            />
+                            <path
+                                d={generateAxialPath()}
+                                fill="none"
+                                stroke="#10b981"
+                                strokeWidth="2"
+                            />
+                            {envelopeMinData && (
+                                <>
+                                    <path d={generateAxialFill(envelopeMinData)} fill="#10b981" fillOpacity="0.15" />
+                                    <path d={generateAxialPath(envelopeMinData)} fill="none" stroke="#10b981" strokeWidth="2" strokeDasharray="6,3" />
+                                </>
+                            )}
+                        </>
+                    )}
+
+                    {activeDiagram === 'soil' && (
+                        <>
+                            {/* Uplift: the soil would have to pull the beam down */}
+                            {upliftRegions.map(region => (
+                                <rect
+                                    key={`uplift-${region.startX}`}
+                                    x={metersToPx(region.startX)}
+                                    y={diagramY - diagramHeight * 0.45}
+                                    width={Math.max(2, metersToPx(region.endX) - metersToPx(region.startX))}
+                                    height={diagramHeight * 0.45}
+                                    fill="#dc2626"
+                                    fillOpacity="0.12"
+                                />
+                            ))}
+                            <path
+                                d={generateSoilFill()}
+                                fill="#ca8a04"
+                                fillOpacity="0.3"
+                            />
+                            <path
+                                d={generateSoilPath()}
+                                fill="none"
+                                stroke="#ca8a04"
+                                strokeWidth="2"
+                            />
+                            {envelopeMinData && (
+                                <>
+                                    <path d={generateSoilFill(envelopeMinData)} fill="#ca8a04" fillOpacity="0.15" />
+                                    <path d={generateSoilPath(envelopeMinData)} fill="none" stroke="#ca8a04" strokeWidth="2" strokeDasharray="6,3" />
+                                </>
+                            )}
+                        </>
+                    )}
+
+                    {activeDiagram === 'stress' && stressData && (
+                        <>
+                            <path d={generateStressFill(stressData.normalStress, normalStressScale, true)} fill="#0ea5e9" fillOpacity="0.3" />
+                            <path d={generateStressPath(stressData.normalStress, normalStressScale, true)} fill="none" stroke="#0ea5e9" strokeWidth="2" />
+                            {stressMinData && (
+                                <>
+                                    <path d={generateStressFill(stressMinData.normalStress, normalStressScale, true)} fill="#0ea5e9" fillOpacity="0.15" />
+                                    <path d={generateStressPath(stressMinData.normalStress, normalStressScale, true)} fill="none" stroke="#0ea5e9" strokeWidth="2" strokeDasharray="6,3" />
+                                </>
+                            )}
+                        </>
+                    )}
+
+                    {activeDiagram === 'shear-stress' && stressData && (
+                        <>
+                            <path d={generateStressFill(stressData.shearStress, shearStressScale)} fill="#d946ef" fillOpacity="0.3" />
+                            <path d={generateStressPath(stressData.shearStress, shearStressScale)} fill="none" stroke="#d946ef" strokeWidth="2" />
+                            {stressMinData && (
+                                <>
+                                    <path d={generateStressFill(stressMinData.shearStress, shearStressScale)} fill="#d946ef" fillOpacity="0.15" />
+                                    <path d={generateStressPath(stressMinData.shearStress, shearStressScale)} fill="none" stroke="#d946ef" strokeWidth="2" strokeDasharray="6,3" />
+                                </>
+                            )}
+                        </>
+                    )}
+
+                    {activeDiagram === 'utilization' && stressData && (
+                        <>
+                            {/* Limit line: η = 1 */}
+                            <line
+                                x1={paddingX}
+                                y1={diagramY - utilizationScale}
+                                x2={width - paddingX}
+                                y2={diagramY - utilizationScale}
+                                stroke="#dc2626"
+                                strokeWidth="1"
+                                strokeDasharray="6,3"
+                            />
+                            <text x={width - paddingX + 4} y={diagramY - utilizationScale + 4} fill="#dc2626" fontSize="10">1.0</text>
+                            <path d={generateStressFill(stressData.utilization, utilizationScale)} fill="#84cc16" fillOpacity="0.3" />
+                            <path d={generateStressPath(stressData.utilization, utilizationScale)} fill="none" stroke="#84cc16" strokeWidth="2" />
+                            {stressMinData && (
+                                <path d={generateStressPath(stressMinData.utilization, utilizationScale)} fill="none" stroke="#84cc16" strokeWidth="2" strokeDasharray="6,3" />
+                            )}
+                        </>
+                    )}
+
+                    {activeDiagram === 'influence' && influenceLine && (
+                        <>
+                            <path
+                                d={generateStressFill(influenceLine.points, influenceScale)}
+                                fill="#6366f1"
+                                fillOpacity="0.3"
+                            />
+                            <path
+                                d={generateStressPath(influenceLine.points, influenceScale)}
+                                fill="none"
+                                stroke="#6366f1"
+                                strokeWidth="2"
+                            />
+                            {/* Section (or support) the line belongs to */}
+                            <line
+                                x1={metersToPx(influenceResponse.x)}
+                                y1={beamY - 20}
+                                x2={metersToPx(influenceResponse.x)}
+                                y2={diagramY + diagramHeight * 0.45}
+                                stroke="#a5b4fc"
+                                strokeWidth="1.5"
+                                strokeDasharray="4,3"
+                            />
+                            <text x={metersToPx(influenceResponse.x)} y={beamY - 26} textAnchor="middle" fill="#a5b4fc" fontSize="11" fontWeight="bold">
+                                {influenceResponse.kind === 'reaction' ? 'R' : influenceResponse.kind === 'shear' ? 'V' : 'M'} @ {influenceResponse.x.toFixed(2)}m
+                            </text>
+                        </>
+                    )}
+
+                    {activeDiagram === 'moving' && movingEnvelope.length > 0 && movingGoverning && (
+                        <>
+                            {/* Max and min envelopes; moments drawn with sagging downward as in the BMD */}
+                            <path
+                                d={generateStressFill(movingEnvelope.map(p => ({ x: p.x, value: p.max })), movingScale, movingEffect === 'moment')}
+                                fill="#f97316"
+                                fillOpacity="0.25"
+                            />
+                            <path
+                                d={generateStressFill(movingEnvelope.map(p => ({ x: p.x, value: p.min })), movingScale, movingEffect === 'moment')}
+                                fill="#f97316"
+                                fillOpacity="0.15"
+                            />
+                            <path
+                                d={generateStressPath(movingEnvelope.map(p => ({ x: p.x, value: p.max })), movingScale, movingEffect === 'moment')}
+                                fill="none"
+                                stroke="#f97316"
+                                strokeWidth="2"
+                            />
+                            <path
+                                d={generateStressPath(movingEnvelope.map(p => ({ x: p.x, value: p.min })), movingScale, movingEffect === 'moment')}
+                                fill="none"
+                                stroke="#f97316"
+                                strokeWidth="2"
+                                strokeDasharray="6,3"
+                            />
+                            {/* Axles at the governing position */}
+                            {axleGroup.axles
+                                .map(a => movingGoverning.position - a.offset)
+                                .filter(x => x >= 0 && x <= length)
+                                .map((x, i) => (
+                                    <g key={i}>
+                                        <line x1={metersToPx(x)} y1={beamY - 45} x2={metersToPx(x)} y2={beamY - 10} stroke="#f97316" strokeWidth="2.5" />
+                                        <polygon
+                                            points={`${metersToPx(x)},${beamY - 3} ${metersToPx(x) - 5},${beamY - 12} ${metersToPx(x) + 5},${beamY - 12}`}
+                                            fill="#f97316"
+                                        />
+                                    </g>
+                                ))}
+                            <line
+                                x1={metersToPx(movingGoverning.x)}
+                                y1={beamY + 10}
+                                x2={metersToPx(movingGoverning.x)}
+                                y2={diagramY + diagramHeight * 0.45}
+                                stroke="#fdba74"
+                                strokeWidth="1.5"
+                                strokeDasharray="4,3"
+                            />
+                            <text x={metersToPx(movingGoverning.x)} y={beamY - 52} textAnchor="middle" fill="#fdba74" fontSize="11" fontWeight="bold">
+                                {movingEffect === 'moment' ? 'M max' : '|V| max'} @ {movingGoverning.x.toFixed(2)}m
+                            </text>
                         </>
                     )}
 
+                    {activeDiagram === 'modal' && activeMode && (
+                        <>
+                            {/* Extreme positions of the mode, and the mode swinging between them */}
+                            <path d={generateStressPath(activeMode.shape, modalScale)} fill="none" stroke="#14b8a6" strokeOpacity="0.3" strokeWidth="1.5" strokeDasharray="4,3" />
+                            <path d={generateStressPath(activeMode.shape, -modalScale)} fill="none" stroke="#14b8a6" strokeOpacity="0.3" strokeWidth="1.5" strokeDasharray="4,3" />
+                            <AnimatedModeShape
+                                scale={modalScale}
+                                linePath={scale => generateStressPath(activeMode.shape, scale)}
+                                fillPath={scale => generateStressFill(activeMode.shape, scale)}
+                            />
+                            <text x={width - paddingX} y={diagramY - diagramHeight * 0.45} textAnchor="end" fill="#5eead4" fontSize="12" fontWeight="bold">
+                                Mode {activeMode.index}: f = {activeMode.frequency.toFixed(2)} Hz, T = {activeMode.period.toFixed(3)} s
+                            </text>
+                        </>
+                    )}
+
+                    {activeDiagram === 'dynamic' && (
+                        <>
+                            {/* Dynamic load positions and the point whose response is reported */}
+                            {dynamicLoads.map((load, i) => (
+                                <g key={i}>
+                                    <line x1={metersToPx(load.x)} y1={beamY - 45} x2={metersToPx(load.x)} y2={beamY - 10} stroke="#ec4899" strokeWidth="2.5" />
+                                    <polygon
+                                        points={`${metersToPx(load.x)},${beamY - 3} ${metersToPx(load.x) - 5},${beamY - 12} ${metersToPx(load.x) + 5},${beamY - 12}`}
+                                        fill="#ec4899"
+                                    />
+                                    <text x={metersToPx(load.x)} y={beamY - 52} textAnchor="middle" fill="#f9a8d4" fontSize="10" fontWeight="bold">
+                                        {load.kind === 'harmonic' ? `${Math.abs(load.amplitude).toFixed(2)} kN @ ${load.frequency} Hz` : 'F(t)'}
+                                    </text>
+                                </g>
+                            ))}
+                            <circle cx={metersToPx(dynamicOptions.outputX)} cy={beamY} r="6" fill="none" stroke="#f9a8d4" strokeWidth="2" />
+                            <text x={metersToPx(dynamicOptions.outputX)} y={beamY + 24} textAnchor="middle" fill="#f9a8d4" fontSize="11" fontWeight="bold">
+                                output @ {dynamicOptions.outputX.toFixed(2)}m
+                            </text>
+                        </>
+                    )}
+
+                    {/* Critical section of the stress check */}
+                    {STRESS_DIAGRAMS.includes(activeDiagram) && criticalStress && criticalStress.ratio > 0 && (
+                        <g>
+                            <line
+                                x1={metersToPx(criticalStress.x)}
+                                y1={diagramY - diagramHeight * 0.45}
+                                x2={metersToPx(criticalStress.x)}
+                                y2={diagramY + diagramHeight * 0.45}
+                                stroke="#dc2626"
+                                strokeWidth="2"
+                            />
+                            <circle cx={metersToPx(criticalStress.x)} cy={beamY} r="6" fill="none" stroke="#dc2626" strokeWidth="2" />
+                            <text x={metersToPx(criticalStress.x)} y={diagramY - diagramHeight * 0.45 - 6} textAnchor="middle" fill="#fca5a5" fontSize="11" fontWeight="bold">
+                                η = {criticalStress.ratio.toFixed(2)} ({criticalStress.governs}) @ {criticalStress.x.toFixed(2)}m
+                            </text>
+                        </g>
+                    )}
+
                     {activeDiagram === 'reactions' && (
                         <>
                             {Object.entries(filteredReactions).map(([nodeId, reaction]) => {
                                 const node = nodes.find(n => n.id === nodeId);
-                                if (!node || (Math.abs(reaction.fy) < 1e-6 && Math.abs(reaction.m) < 1e-6)) return null;
+                                if (!node || (Math.abs(reaction.fx) < 1e-6 && Math.abs(reaction.fy) < 1e-6 && Math.abs(reaction.m) < 1e-6)) return null;
                                 const x = metersToPx(node.x);
                                 const reactionColor = "#06b6d4"; // Cyan for reactions
+                                const horizontalArrow = Math.abs(reaction.fx) > 1e-6 ? forceArrow(x, beamY - 12, reaction.fx, 0, 45, 8) : null;
                                 return (
                                     <g key={nodeId}>
+                                        {horizontalArrow && (
+                                            <>
+                                                <line x1={horizontalArrow.tailX} y1={beamY - 12} x2={x} y2={beamY - 12} stroke={reactionColor} strokeWidth="3" />
+                                                <path d={horizontalArrow.headPath} fill={reactionColor} />
+                                                <text x={horizontalArrow.tailX} y={beamY - 18} textAnchor="middle" fill={reactionColor} fontSize="11" fontWeight="bold">
+                                                    H {reaction.fx.toFixed(2)}kN
+                                                </text>
+                                            </>
+                                        )}
                                         {reaction.fy !== 0 && (
                                             <>
                                                 {/* Inverted reaction arrow: pointing upward (reactions oppose loads) */}
                                                 <line x1={x} y1={beamY - 30} x2={x} y2={beamY - 60} stroke={reactionColor} strokeWidth="3" />
                                                 <path d={`M ${x-5} ${beamY-55} L ${x} ${beamY-60} L ${x+5} ${beamY-55}`} fill={reactionColor} />
                                                 <text x={x} y={beamY - 75} textAnchor="middle" fill={reactionColor} fontSize="12" fontWeight="bold">
-                                                    {reaction.fy.toFixed(2)}kN
+                                                    {node.isSpring ? 'Spring ' : ''}{reaction.fy.toFixed(2)}kN
                                                 </text>
                                             </>
                                         )}
@@ -546,6 +1712,22 @@ export const IntegratedDiagrams: React.FC<IntegratedDiagramsProps> = ({
                     <text x={paddingX} y={beamY + 25} fill="#94a3b8" fontSize="10" textAnchor="middle">0</text>
                     <text x={width - paddingX} y={beamY + 25} fill="#94a3b8" fontSize="10" textAnchor="middle">{length.toFixed(1)}m</text>
 
+                    {/* Span labels along the bottom, numbered like the span wizard */}
+                    {spans.length > 1 && spans.map(span => {
+                        const x1 = metersToPx(span.startX);
+                        const x2 = metersToPx(span.endX);
+                        return (
+                            <g key={`span-${span.index}`}>
+                                <line x1={x1} y1={height - 30} x2={x2} y2={height - 30} stroke="#475569" strokeWidth="1" />
+                                <line x1={x1} y1={height - 35} x2={x1} y2={height - 25} stroke="#475569" strokeWidth="1" />
+                                <line x1={x2} y1={height - 35} x2={x2} y2={height - 25} stroke="#475569" strokeWidth="1" />
+                                <text x={(x1 + x2) / 2} y={height - 12} textAnchor="middle" fill="#94a3b8" fontSize="10" fontFamily="monospace">
+                                    S{span.index + 1}{span.kind === 'cantilever' ? ' cant.' : ''} · {(span.endX - span.startX).toFixed(2)}m
+                                </text>
+                            </g>
+                        );
+                    })}
+
                     {/* Hover indicator - crosshair */}
                     {hoverPoint && activeDiagram !== 'reactions' && (
                         <>
@@ -555,7 +1737,7 @@ export const IntegratedDiagrams: React.FC<IntegratedDiagramsProps> = ({
                                 y1={paddingY}
                                 x2={hoverPoint.x}
                                 y2={height - paddingY}
-                                stroke={activeDiagram === 'deflection' ? '#a855f7' : activeDiagram === 'sfd' ? '#f43f5e' : '#f59e0b'}
+                                stroke={accentColor}
                                 strokeWidth="1.5"
                                 strokeDasharray="4,4"
                                 opacity="0.6"
@@ -565,7 +1747,7 @@ export const IntegratedDiagrams: React.FC<IntegratedDiagramsProps> = ({
                                 cx={hoverPoint.x}
                                 cy={hoverPoint.y}
                                 r="5"
-                                fill={activeDiagram === 'deflection' ? '#a855f7' : activeDiagram === 'sfd' ? '#f43f5e' : '#f59e0b'}
+                                fill={accentColor}
                                 stroke="#fff"
                                 strokeWidth="2"
                             />
@@ -578,7 +1760,7 @@ export const IntegratedDiagrams: React.FC<IntegratedDiagramsProps> = ({
                     <div
                         className="absolute bg-slate-800/95 backdrop-blur-sm border-2 rounded-xl px-4 py-3 shadow-2xl pointer-events-none z-50"
                         style={{
-                            borderColor: activeDiagram === 'deflection' ? '#a855f7' : activeDiagram === 'sfd' ? '#f43f5e' : '#f59e0b',
+                            borderColor: accentColor,
                             left: `${(hoverPoint.x / width) * 100}%`,
                             top: `${((hoverPoint.y - 50) / height) * 100}%`,
                             transform: 'translate(-50%, -100%)',
@@ -588,14 +1770,474 @@ export const IntegratedDiagrams: React.FC<IntegratedDiagramsProps> = ({
                         <div className="text-xs text-slate-400 mb-1.5 font-semibold uppercase tracking-wider">
                             Position: {hoverPoint.position.toFixed(3)} m
                         </div>
-                        <div className="text-base font-bold" style={{ color: activeDiagram === 'deflection' ? '#a855f7' : activeDiagram === 'sfd' ? '#f43f5e' : '#f59e0b' }}>
-                            {activeDiagram === 'deflection' && `${(hoverPoint.value * 1000).toFixed(2)} mm`}
-                            {activeDiagram === 'sfd' && `${hoverPoint.value.toFixed(2)} kN`}
-                            {activeDiagram === 'bmd' && `${hoverPoint.value.toFixed(2)} kNm`}
-                        </div>
+                        {hoverPoint.envelope ? (
+                            <div className="text-sm font-bold space-y-1" style={{ color: accentColor }}>
+                                <div>max {formatDiagramValue(hoverPoint.envelope.max)} <span className="text-xs text-slate-400 font-medium">({hoverPoint.envelope.maxCase})</span></div>
+                                <div>min {formatDiagramValue(hoverPoint.envelope.min)} <span className="text-xs text-slate-400 font-medium">({hoverPoint.envelope.minCase})</span></div>
+                            </div>
+                        ) : (
+                            <div className="text-base font-bold" style={{ color: accentColor }}>
+                                {formatDiagramValue(hoverPoint.value)}
+                            </div>
+                        )}
                     </div>
                 )}
             </div>
+
+            {/* Uplift check of the elastic foundation */}
+            {activeDiagram === 'soil' && hasFoundation && (
+                <div className={`mt-6 rounded-xl p-6 border ${upliftRegions.length > 0 ? 'bg-red-950/40 border-red-500/30' : 'bg-slate-950/80 border-slate-700/30'}`}>
+                    <h4 className="text-slate-200 text-sm font-bold mb-3">
+                        Uplift Check — {upliftRegions.length > 0 ? `${upliftRegions.length} region(s) lifting off` : 'full contact'}
+                    </h4>
+                    {upliftRegions.length > 0 ? (
+                        <>
+                            <p className="text-xs text-red-300 mb-3">
+                                The Winkler model assumes the soil can pull the beam down in these regions; the results there are not reliable.
+                            </p>
+                            <table className="w-full text-xs text-slate-300">
+                                <thead>
+                                    <tr className="text-slate-500 uppercase tracking-wider text-left">
+                                        <th className="py-2">Range</th>
+                                        <th className="py-2">Min pressure</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {upliftRegions.map(region => (
+                                        <tr key={region.startX} className="border-t border-slate-800">
+                                            <td className="py-2 font-mono">{region.startX.toFixed(2)}–{region.endX.toFixed(2)}m</td>
+                                            <td className="py-2">{region.minPressure.toFixed(2)} kN/m</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </>
+                    ) : (
+                        <p className="text-xs text-slate-400">The soil is in compression along every foundation.</p>
+                    )}
+                </div>
+            )}
+
+            {/* Influence line ordinates and areas */}
+            {activeDiagram === 'influence' && (
+                <div className="mt-6 bg-slate-950/80 rounded-xl p-6 border border-slate-700/30">
+                    <h4 className="text-slate-200 text-sm font-bold mb-3">
+                        Influence Line — {influenceResponse.kind === 'reaction' ? 'Reaction' : influenceResponse.kind === 'shear' ? 'Shear' : 'Moment'} at {influenceResponse.x.toFixed(2)} m
+                    </h4>
+                    {influenceLine ? (
+                        <>
+                            <table className="w-full text-xs text-slate-300">
+                                <thead>
+                                    <tr className="text-slate-500 uppercase tracking-wider text-left">
+                                        <th className="py-2">Max ordinate</th>
+                                        <th className="py-2">Min ordinate</th>
+                                        <th className="py-2">Positive area</th>
+                                        <th className="py-2">Negative area</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    <tr className="border-t border-slate-800">
+                                        <td className="py-2">{formatDiagramValue(influenceLine.max.value)} <span className="text-slate-500">@ {influenceLine.max.x.toFixed(2)}m</span></td>
+                                        <td className="py-2">{formatDiagramValue(influenceLine.min.value)} <span className="text-slate-500">@ {influenceLine.min.x.toFixed(2)}m</span></td>
+                                        <td className="py-2">{influenceLine.positiveArea.toFixed(3)} {influenceResponse.kind === 'moment' ? 'kNm' : 'kN'}/(kN/m)</td>
+                                        <td className="py-2">{influenceLine.negativeArea.toFixed(3)} {influenceResponse.kind === 'moment' ? 'kNm' : 'kN'}/(kN/m)</td>
+                                    </tr>
+                                </tbody>
+                            </table>
+                            <p className="mt-3 text-xs text-slate-500">
+                                Ordinates times a point load, or areas times a uniform load placed over them, give the response. Hover the diagram to probe any load position.
+                            </p>
+                        </>
+                    ) : (
+                        <p className="text-xs text-red-300">{influence.error}</p>
+                    )}
+                </div>
+            )}
+
+            {/* Time history at the output point with its peaks */}
+            {activeDiagram === 'dynamic' && (
+                <div className="mt-6 bg-slate-950/80 rounded-xl p-6 border border-slate-700/30">
+                    <div className="flex items-center justify-between mb-3 flex-wrap gap-2">
+                        <h4 className="text-slate-200 text-sm font-bold">
+                            Dynamic Response at x = {dynamicOptions.outputX.toFixed(2)} m
+                        </h4>
+                        <div className="flex gap-2 text-xs">
+                            {(['displacement', 'acceleration'] as const).map(history => (
+                                <button
+                                    key={history}
+                                    onClick={() => setDynamicHistory(history)}
+                                    className={`px-4 py-2 font-semibold rounded-lg transition-all ${
+                                        dynamicHistory === history
+                                            ? 'bg-pink-600 text-white shadow-md shadow-pink-500/20'
+                                            : 'bg-slate-700/60 text-slate-400 hover:bg-slate-600/80'
+                                    }`}
+                                >
+                                    {history === 'displacement' ? 'Displacement' : 'Acceleration'}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    {dynamicResponse ? (() => {
+                        const history = dynamicHistory === 'displacement' ? dynamicResponse.displacement : dynamicResponse.acceleration;
+                        const peak = dynamicHistory === 'displacement' ? dynamicResponse.peakDisplacement : dynamicResponse.peakAcceleration;
+                        const chartWidth = 800;
+                        const chartHeight = 160;
+                        const duration = history[history.length - 1]?.x || 1;
+                        const amplitude = Math.abs(peak.value) || 1;
+                        const tx = (t: number) => paddingX + (t / duration) * (chartWidth - 2 * paddingX);
+                        const vy = (v: number) => chartHeight / 2 - (v / amplitude) * (chartHeight / 2 - 15);
+                        return (
+                            <>
+                                <svg viewBox={`0 0 ${chartWidth} ${chartHeight}`} className="w-full bg-slate-900/50 rounded-lg">
+                                    <line x1={paddingX} y1={chartHeight / 2} x2={chartWidth - paddingX} y2={chartHeight / 2} stroke="#475569" strokeWidth="1" />
+                                    <path
+                                        d={history.map((p, i) => `${i === 0 ? 'M' : 'L'} ${tx(p.x)} ${vy(p.value)}`).join(' ')}
+                                        fill="none"
+                                        stroke="#ec4899"
+                                        strokeWidth="1.5"
+                                    />
+                                    <circle cx={tx(peak.t)} cy={vy(peak.value)} r="4" fill="#f9a8d4" />
+                                    <text x={paddingX - 6} y={20} textAnchor="end" fill="#94a3b8" fontSize="10">
+                                        {dynamicHistory === 'displacement' ? `${(amplitude * 1000).toFixed(3)} mm` : `${amplitude.toFixed(3)} m/s²`}
+                                    </text>
+                                    <text x={chartWidth - paddingX} y={chartHeight - 4} textAnchor="end" fill="#94a3b8" fontSize="10">
+                                        t = {duration.toFixed(2)} s
+                                    </text>
+                                </svg>
+                                <table className="mt-4 w-full text-xs text-slate-300">
+                                    <thead>
+                                        <tr className="text-slate-500 uppercase tracking-wider text-left">
+                                            <th className="py-2">Peak displacement</th>
+                                            <th className="py-2">Peak acceleration</th>
+                                            <th className="py-2">Time step</th>
+                                            <th className="py-2">Rayleigh damping</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        <tr className="border-t border-slate-800">
+                                            <td className="py-2">
+                                                {(dynamicResponse.peakDisplacement.value * 1000).toFixed(3)} mm
+                                                <span className="text-slate-500"> @ {dynamicResponse.peakDisplacement.t.toFixed(3)} s</span>
+                                            </td>
+                                            <td className="py-2">
+                                                {dynamicResponse.peakAcceleration.value.toFixed(4)} m/s²
+                                                <span className="text-slate-500"> ({(Math.abs(dynamicResponse.peakAcceleration.value) / 9.81 * 100).toFixed(2)}% g) @ {dynamicResponse.peakAcceleration.t.toFixed(3)} s</span>
+                                            </td>
+                                            <td className="py-2">{(dynamicResponse.timeStep * 1000).toFixed(3)} ms</td>
+                                            <td className="py-2">α = {dynamicResponse.rayleigh.alpha.toFixed(4)} 1/s, β = {dynamicResponse.rayleigh.beta.toExponential(3)} s</td>
+                                        </tr>
+                                    </tbody>
+                                </table>
+                                <p className="mt-3 text-xs text-slate-500">
+                                    Newmark average acceleration from rest, about the static equilibrium (static loads are not included). Displacements are positive upward.
+                                </p>
+                            </>
+                        );
+                    })() : (
+                        <p className="text-xs text-red-300">{dynamic.error}</p>
+                    )}
+                </div>
+            )}
+
+            {/* Natural frequencies, periods and effective modal masses */}
+            {activeDiagram === 'modal' && (
+                <div className="mt-6 bg-slate-950/80 rounded-xl p-6 border border-slate-700/30">
+                    <h4 className="text-slate-200 text-sm font-bold mb-3">
+                        Modal Analysis{modalResults ? ` — total mass ${modalResults.totalMass.toFixed(0)} kg` : ''}
+                    </h4>
+                    {modalResults ? (
+                        <>
+                            <table className="w-full text-xs text-slate-300">
+                                <thead>
+                                    <tr className="text-slate-500 uppercase tracking-wider text-left">
+                                        <th className="py-2">Mode</th>
+                                        <th className="py-2">Frequency</th>
+                                        <th className="py-2">Period</th>
+                                        <th className="py-2">ω</th>
+                                        <th className="py-2">Effective mass</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {modalResults.modes.map((mode, i) => (
+                                        <tr
+                                            key={mode.index}
+                                            onClick={() => setSelectedMode(i)}
+                                            className={`border-t border-slate-800 cursor-pointer ${activeMode === mode ? 'text-teal-300' : ''}`}
+                                        >
+                                            <td className="py-2 font-semibold">{mode.index}{mode.index === 1 ? ' (fundamental)' : ''}</td>
+                                            <td className="py-2">{mode.frequency.toFixed(3)} Hz</td>
+                                            <td className="py-2">{mode.period.toFixed(4)} s</td>
+                                            <td className="py-2">{mode.omega.toFixed(2)} rad/s</td>
+                                            <td className="py-2">{(mode.effectiveMassRatio * 100).toFixed(1)}%</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            <p className="mt-3 text-xs text-slate-500">
+                                Bending modes from the consistent mass of density × area plus the added mass. Shapes are scaled to a unit peak; the animation is slowed to a common pace.
+                            </p>
+                        </>
+                    ) : (
+                        <p className="text-xs text-red-300">{modal.error}</p>
+                    )}
+                </div>
+            )}
+
+            {/* Moving load: governing effects and the first axle position producing them */}
+            {activeDiagram === 'moving' && (
+                <div className="mt-6 bg-slate-950/80 rounded-xl p-6 border border-slate-700/30">
+                    <h4 className="text-slate-200 text-sm font-bold mb-3">
+                        Moving Load — {axleGroup.name} ({axleGroup.axles.length} axles, Σ {axleGroupTotal(axleGroup).toFixed(1)} kN)
+                    </h4>
+                    {movingResults ? (
+                        <>
+                            <table className="w-full text-xs text-slate-300">
+                                <thead>
+                                    <tr className="text-slate-500 uppercase tracking-wider text-left">
+                                        <th className="py-2">Effect</th>
+                                        <th className="py-2">Value</th>
+                                        <th className="py-2">Section</th>
+                                        <th className="py-2">Axle 1 at</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {([
+                                        ['Max sagging moment', movingResults.maxMoment, 'kNm'],
+                                        ['Max hogging moment', movingResults.minMoment, 'kNm'],
+                                        ['Max shear |V|', movingResults.maxShear, 'kN']
+                                    ] as const).map(([label, extreme, unit]) => (
+                                        <tr key={label} className="border-t border-slate-800">
+                                            <td className="py-2 font-semibold">{label}</td>
+                                            <td className="py-2">{extreme.value.toFixed(2)} {unit}</td>
+                                            <td className="py-2">{extreme.x.toFixed(2)} m</td>
+                                            <td className="py-2">{extreme.position.toFixed(2)} m</td>
+                                        </tr>
+                                    ))}
+                                    {movingResults.reactions.map(r => (
+                                        <tr key={r.nodeId} className="border-t border-slate-800">
+                                            <td className="py-2 font-semibold">Reaction at {r.x.toFixed(2)} m</td>
+                                            <td className="py-2">
+                                                {r.max.toFixed(2)} kN
+                                                {r.min < -1e-6 && <span className="text-red-300"> / {r.min.toFixed(2)} kN uplift</span>}
+                                            </td>
+                                            <td className="py-2">{r.x.toFixed(2)} m</td>
+                                            <td className="py-2">
+                                                {r.maxPosition.toFixed(2)} m
+                                                {r.min < -1e-6 && <span className="text-red-300"> / {r.minPosition.toFixed(2)} m</span>}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            <p className="mt-3 text-xs text-slate-500">
+                                {movingResults.positions.length} positions from the first axle entering to the last axle leaving, refined with each axle on the governing sections. Unfactored; the beam's own loads are not included.
+                            </p>
+                        </>
+                    ) : (
+                        <p className="text-xs text-red-300">{moving.error}</p>
+                    )}
+                </div>
+            )}
+
+            {/* Serviceability: deflection of every span and overhang per load case */}
+            {activeDiagram === 'deflection' && deflectionChecks.length > 0 && (
+                <div className={`mt-6 rounded-xl p-6 border ${deflectionChecks.some(c => !c.passes) ? 'bg-red-950/40 border-red-500/30' : 'bg-slate-950/80 border-slate-700/30'}`}>
+                    <div className="flex items-center justify-between flex-wrap gap-3 mb-3">
+                        <h4 className="text-slate-200 text-sm font-bold">
+                            Deflection Checks — {deflectionChecks.filter(c => !c.passes).length > 0
+                                ? `${deflectionChecks.filter(c => !c.passes).length} failing`
+                                : 'all within limits'}
+                        </h4>
+                        <div className="flex items-center gap-3 text-xs">
+                            {([['live', 'Live'], ['total', 'Total'], ['cantilever', 'Cantilever']] as const).map(([key, label]) => (
+                                <label key={key} className="flex items-center gap-1.5 text-slate-400 font-semibold">
+                                    {label} L/
+                                    <input
+                                        type="number"
+                                        min="1"
+                                        step="10"
+                                        value={deflectionLimits[key]}
+                                        onChange={(e) => setDeflectionLimits({ ...deflectionLimits, [key]: Math.max(1, Number(e.target.value)) })}
+                                        className="w-16 px-2 py-1 bg-slate-900/50 border border-slate-600/50 rounded-md font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                                    />
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                    <table className="w-full text-xs text-slate-300">
+                        <thead>
+                            <tr className="text-slate-500 uppercase tracking-wider text-left">
+                                <th className="py-2">Span</th>
+                                <th className="py-2">Case</th>
+                                <th className="py-2">Limit</th>
+                                <th className="py-2">Max δ</th>
+                                <th className="py-2">Allowable</th>
+                                <th className="py-2">Ratio</th>
+                                <th className="py-2">Result</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {deflectionChecks.map(check => (
+                                <tr key={`${check.span.index}-${check.caseName}`} className="border-t border-slate-800">
+                                    <td className="py-2 font-mono">
+                                        S{check.span.index + 1}{check.span.kind === 'cantilever' ? ' cant.' : ''} · {check.span.startX.toFixed(2)}–{check.span.endX.toFixed(2)}m
+                                    </td>
+                                    <td className="py-2">{check.caseName}</td>
+                                    <td className="py-2 font-mono">
+                                        {check.span.kind === 'cantilever' ? '2a' : 'L'}/{deflectionLimits[check.limit]}
+                                    </td>
+                                    <td className="py-2">
+                                        {(check.deflection * 1000).toFixed(2)} mm <span className="text-slate-500">@ {check.x.toFixed(2)}m</span>
+                                    </td>
+                                    <td className="py-2">{(check.allowable * 1000).toFixed(2)} mm</td>
+                                    <td className="py-2">
+                                        {check.ratio.toFixed(3)}{' '}
+                                        <span className="text-slate-500">
+                                            ({check.deflection !== 0 ? `${check.span.kind === 'cantilever' ? '2a' : 'L'}/${Math.round(check.referenceLength / Math.abs(check.deflection))}` : '—'})
+                                        </span>
+                                    </td>
+                                    <td className={`py-2 font-bold ${check.passes ? 'text-emerald-400' : 'text-red-400'}`}>
+                                        {check.passes ? 'PASS' : 'FAIL'}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <p className="mt-3 text-xs text-slate-500">
+                        Unfactored load cases and their sum, measured from the chord between supports; cantilevers use twice the overhang.
+                    </p>
+                </div>
+            )}
+
+            {/* Stress check at the critical section */}
+            {STRESS_DIAGRAMS.includes(activeDiagram) && section && criticalStress && (
+                <div className={`mt-6 rounded-xl p-6 border ${criticalStress.ratio > 1 ? 'bg-red-950/40 border-red-500/30' : 'bg-slate-950/80 border-slate-700/30'}`}>
+                    <h4 className="text-slate-200 text-sm font-bold mb-3">
+                        Stress Check — {criticalStress.ratio > 1 ? 'overstressed' : 'OK'} (η max = {criticalStress.ratio.toFixed(3)})
+                    </h4>
+                    <table className="w-full text-xs text-slate-300">
+                        <thead>
+                            <tr className="text-slate-500 uppercase tracking-wider text-left">
+                                <th className="py-2">Critical section</th>
+                                <th className="py-2">Governs</th>
+                                <th className="py-2">Max |σ|</th>
+                                <th className="py-2">Max |τ|</th>
+                                <th className="py-2">Section</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            <tr className="border-t border-slate-800">
+                                <td className="py-2 font-mono">{criticalStress.x.toFixed(2)}m</td>
+                                <td className="py-2">{criticalStress.governs === 'bending' ? 'Normal stress σ' : 'Shear stress τ'}</td>
+                                <td className="py-2">{maxNormalStress.toFixed(2)} MPa</td>
+                                <td className="py-2">{maxShearStress.toFixed(2)} MPa</td>
+                                <td className="py-2 font-mono">
+                                    S = {(Math.min(section.Stop, section.Sbottom) * 1e6).toFixed(1)}cm³ · Q = {(section.Q * 1e6).toFixed(1)}cm³ · t = {(section.widthAtCentroid * 1000).toFixed(1)}mm
+                                </td>
+                            </tr>
+                        </tbody>
+                    </table>
+                    <p className="mt-3 text-xs text-slate-500">
+                        σ = N/A ± M/S at the extreme fibre, τ = VQ/(It) at the neutral axis, using the beam section (segments keep their own stiffness but are checked with it).
+                    </p>
+                </div>
+            )}
+
+            {/* Governing reactions over the selected combination standard (or the load cases) */}
+            {(activeCombination || (view.kind === 'envelope' && view.source !== 'patterns')) && activeDiagram === 'reactions' && (
+                <div className="mt-6 bg-slate-950/80 rounded-xl p-6 border border-slate-700/30">
+                    <h4 className="text-slate-200 text-sm font-bold mb-3">
+                        Governing Reactions — {view.kind === 'envelope' && view.source === 'cases'
+                            ? 'Load Cases'
+                            : LoadCombinationService.STANDARD_LABELS[standard]}
+                    </h4>
+                    <table className="w-full text-xs text-slate-300">
+                        <thead>
+                            <tr className="text-slate-500 uppercase tracking-wider text-left">
+                                <th className="py-2">Support</th>
+                                {hasHorizontalReactions && (
+                                    <>
+                                        <th className="py-2">Fx max</th>
+                                        <th className="py-2">Fx min</th>
+                                    </>
+                                )}
+                                <th className="py-2">Fy max</th>
+                                <th className="py-2">Fy min</th>
+                                <th className="py-2">M max</th>
+                                <th className="py-2">M min</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {Object.entries(combinationEnvelope.reactions).map(([nodeId, env]) => {
+                                const node = nodes.find(n => n.id === nodeId);
+                                if (!node) return null;
+                                return (
+                                    <tr key={nodeId} className="border-t border-slate-800">
+                                        <td className="py-2 font-mono">{node.x.toFixed(2)}m{node.isSpring ? ' (spring)' : ''}</td>
+                                        {hasHorizontalReactions && (
+                                            <>
+                                                <td className="py-2">{env.fx.max.toFixed(2)} kN <span className="text-slate-500">({env.fx.maxCombination})</span></td>
+                                                <td className="py-2">{env.fx.min.toFixed(2)} kN <span className="text-slate-500">({env.fx.minCombination})</span></td>
+                                            </>
+                                        )}
+                                        <td className="py-2">{env.fy.max.toFixed(2)} kN <span className="text-slate-500">({env.fy.maxCombination})</span></td>
+                                        <td className="py-2">{env.fy.min.toFixed(2)} kN <span className="text-slate-500">({env.fy.minCombination})</span></td>
+                                        <td className="py-2">{env.m.max.toFixed(2)} kNm <span className="text-slate-500">({env.m.maxCombination})</span></td>
+                                        <td className="py-2">{env.m.min.toFixed(2)} kNm <span className="text-slate-500">({env.m.minCombination})</span></td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {/* Worst-case live moments and reactions from pattern loading */}
+            {view.kind === 'envelope' && view.source === 'patterns' && patternLoading && (
+                <div className="mt-6 bg-slate-950/80 rounded-xl p-6 border border-slate-700/30 space-y-5">
+                    <h4 className="text-slate-200 text-sm font-bold">
+                        Pattern Live Loading — {patternLoading.patterns.length} patterns solved
+                    </h4>
+                    <table className="w-full text-xs text-slate-300">
+                        <thead>
+                            <tr className="text-slate-500 uppercase tracking-wider text-left">
+                                <th className="py-2">Span</th>
+                                <th className="py-2">Range</th>
+                                <th className="py-2">Max +M</th>
+                                <th className="py-2">Max −M</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {patternLoading.spans.map(worst => (
+                                <tr key={worst.span.index} className="border-t border-slate-800">
+                                    <td className="py-2">{worst.span.index + 1}{worst.span.kind === 'cantilever' ? ' (cantilever)' : ''}</td>
+                                    <td className="py-2 font-mono">{worst.span.startX.toFixed(2)}–{worst.span.endX.toFixed(2)}m</td>
+                                    <td className="py-2">{worst.maxPositiveMoment.toFixed(2)} kNm <span className="text-slate-500">({worst.maxPositivePattern || '—'})</span></td>
+                                    <td className="py-2">{worst.maxNegativeMoment.toFixed(2)} kNm <span className="text-slate-500">({worst.maxNegativePattern || '—'})</span></td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <table className="w-full text-xs text-slate-300">
+                        <thead>
+                            <tr className="text-slate-500 uppercase tracking-wider text-left">
+                                <th className="py-2">Support</th>
+                                <th className="py-2">Fy max</th>
+                                <th className="py-2">Fy min</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {patternLoading.reactions.map(worst => (
+                                <tr key={worst.nodeId} className="border-t border-slate-800">
+                                    <td className="py-2 font-mono">{worst.x.toFixed(2)}m</td>
+                                    <td className="py-2">{worst.max.toFixed(2)} kN <span className="text-slate-500">({worst.maxPattern})</span></td>
+                                    <td className="py-2">{worst.min.toFixed(2)} kN <span className="text-slate-500">({worst.minPattern})</span></td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
         </div>
     );
 };
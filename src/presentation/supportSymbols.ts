@@ -0,0 +1,56 @@
+// SVG paths for elastic support and load symbols, shared by the canvas and the diagrams
+
+/** Vertical zigzag spring hanging from the beam at (x, top) */
+export const springZigzagPath = (x: number, top: number, height: number, coils: number = 4, amplitude: number = 6): string => {
+    const lead = height * 0.15;
+    const pitch = (height - 2 * lead) / (coils * 2);
+    let d = `M ${x} ${top} L ${x} ${top + lead}`;
+    for (let i = 0; i < coils * 2; i++) {
+        const side = i % 2 === 0 ? amplitude : -amplitude;
+        d += ` L ${x + side} ${top + lead + pitch * (i + 0.5)}`;
+    }
+    d += ` L ${x} ${top + height - lead} L ${x} ${top + height}`;
+    return d;
+};
+
+/** Spiral for a rotational spring centred on the beam node */
+export const rotationalSpringPath = (x: number, y: number, radius: number = 12, turns: number = 1.5): string => {
+    const steps = 36;
+    let d = '';
+    for (let i = 0; i <= steps; i++) {
+        const t = i / steps;
+        const angle = t * turns * 2 * Math.PI;
+        const r = radius * (0.3 + 0.7 * t);
+        const px = x + r * Math.cos(angle);
+        const py = y - r * Math.sin(angle);
+        d += `${i === 0 ? 'M' : ' L'} ${px.toFixed(2)} ${py.toFixed(2)}`;
+    }
+    return d;
+};
+
+/** Bed of small springs between x1 and x2 for a Winkler foundation, with the ground line at the bottom */
+export const foundationBedPath = (x1: number, x2: number, top: number, height: number, spacing: number = 16): string => {
+    const count = Math.max(1, Math.round((x2 - x1) / spacing));
+    const pitch = (x2 - x1) / count;
+    const springs = Array.from({ length: count + 1 }, (_, i) => springZigzagPath(x1 + i * pitch, top, height, 2, 3));
+    return [...springs, `M ${x1} ${top + height} L ${x2} ${top + height}`].join(' ');
+};
+
+/**
+ * Force arrow whose tip touches (x, y), pointing along the force (fx to the right, fy upward).
+ * Returns the tail point and the arrowhead path, for horizontal and inclined point forces.
+ */
+export const forceArrow = (x: number, y: number, fx: number, fy: number, length: number = 50, head: number = 8) => {
+    const magnitude = Math.hypot(fx, fy) || 1;
+    // Screen coordinates grow downward
+    const dx = fx / magnitude;
+    const dy = -fy / magnitude;
+    const baseX = x - head * dx;
+    const baseY = y - head * dy;
+    const wing = head * 0.6;
+    return {
+        tailX: x - length * dx,
+        tailY: y - length * dy,
+        headPath: `M ${baseX - wing * dy} ${baseY + wing * dx} L ${x} ${y} L ${baseX + wing * dy} ${baseY - wing * dx} Z`
+    };
+};
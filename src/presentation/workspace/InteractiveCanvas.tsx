@@ -1,36 +1,65 @@
 import React, { useRef, useState } from 'react';
-import type { SupportType } from '../../core/entities/Node';
+import type { SupportType, SpringStiffness } from '../../core/entities/Node';
+import type { SectionTaper } from '../../core/entities/Section';
 import type { LoadType, LoadCategory } from '../../core/entities/Load';
+import { FORCE_LOAD_CATEGORIES, LOAD_CATEGORY_SYMBOLS } from '../../core/entities/Load';
 import type { AnalysisResults } from '../../core/logic/FemSolver';
+import { BeamAnalysisService } from '../../core/services/BeamAnalysisService';
+import { LOAD_CATEGORY_STYLES } from '../loadCategoryStyles';
+import { springZigzagPath, rotationalSpringPath, foundationBedPath, forceArrow } from '../supportSymbols';
 
 interface InteractiveCanvasProps {
     length: number;
-    supports: { id: string, x: number, type: SupportType }[];
+    supports: { id: string, x: number, type: SupportType, spring?: SpringStiffness }[];
+    hinges?: { id: string, x: number }[];
+    foundations?: { id: string, startX: number, endX: number, modulus: number }[];
+    segments?: { id: string, startX: number, endX: number, E: number, I: number, taper?: SectionTaper }[];
+    springStiffness?: SpringStiffness;
+    foundationModulus?: number;
     loads: any[];
     activeTool: string;
-    loadMode: 'point' | 'distributed';
+    loadMode: 'point' | 'inclined' | 'distributed' | 'linear';
     loadMag: number;
+    loadEndMag?: number;
+    loadAngle?: number; // Inclined point and distributed loads: degrees from the vertical, positive toward +x
     loadDirection: 'up' | 'down';
     loadCategory: LoadCategory;
     gridSnap: number;
     showGrid: boolean;
     distributedStartPos: number | null;
     setDistributedStartPos: (pos: number | null) => void;
-    onAddSupport: (x: number, type: SupportType) => void;
+    onAddSupport: (x: number, type: SupportType, spring?: SpringStiffness) => void;
     onRemoveSupport: (id: string) => void;
-    onAddLoad: (type: LoadType, mag: number, x?: number, startX?: number, endX?: number, direction?: 'up' | 'down', category?: LoadCategory) => void;
+    onAddHinge?: (x: number) => void;
+    onRemoveHinge?: (id: string) => void;
+    onAddFoundation?: (startX: number, endX: number, modulus: number) => void;
+    onRemoveFoundation?: (id: string) => void;
+    onAddLoad: (type: LoadType, mag: number, x?: number, startX?: number, endX?: number, direction?: 'up' | 'down', category?: LoadCategory, endMag?: number, horizontal?: number, endHorizontal?: number) => void;
+    onAddSupportDisplacement?: (x: number) => void;
+    onAddThermalLoad?: (startX: number, endX: number) => void;
     onRemoveLoad: (id: string) => void;
     onUpdateLoadCategory?: (id: string, category: LoadCategory) => void;
     results: AnalysisResults | null;
 }
 
+// Clicking a load's category badge cycles through every category
+const nextCategory = (category: LoadCategory): LoadCategory =>
+    FORCE_LOAD_CATEGORIES[(FORCE_LOAD_CATEGORIES.indexOf(category) + 1) % FORCE_LOAD_CATEGORIES.length];
+
 export const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
     length,
     supports,
+    hinges = [],
+    foundations = [],
+    segments = [],
+    springStiffness = { ky: 10000, kTheta: 0 },
+    foundationModulus = 50000,
     loads,
     activeTool,
     loadMode,
     loadMag,
+    loadEndMag = loadMag,
+    loadAngle = 0,
     loadDirection,
     loadCategory,
     gridSnap,
@@ -39,7 +68,13 @@ export const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
     setDistributedStartPos,
     onAddSupport,
     onRemoveSupport,
+    onAddHinge,
+    onRemoveHinge,
+    onAddFoundation,
+    onRemoveFoundation,
     onAddLoad,
+    onAddSupportDisplacement,
+    onAddThermalLoad,
     onRemoveLoad,
     onUpdateLoadCategory,
     results
@@ -56,6 +91,7 @@ export const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
     const beamY = 150;
 
     const metersToPx = (m: number) => (m / length) * (width - paddingX * 2) + paddingX;
+    const spans = BeamAnalysisService.getSpans({ length, supports });
     const pxToMeters = (px: number) => {
         const raw = ((px - paddingX) / (width - paddingX * 2)) * length;
         const snapped = Math.round(raw / gridSnap) * gridSnap;
@@ -80,18 +116,69 @@ export const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
             onAddSupport(xM, 'Fixed');
             return;
         }
+        if (activeTool === 'spring') {
+            onAddSupport(xM, 'Spring', springStiffness);
+            return;
+        }
+        if (activeTool === 'settlement') {
+            // Only supports can be moved
+            if (supports.some(s => Math.abs(s.x - xM) < 1e-3)) onAddSupportDisplacement?.(xM);
+            return;
+        }
+        if (activeTool === 'hinge') {
+            onAddHinge?.(xM);
+            return;
+        }
+        if (activeTool === 'foundation') {
+            // Two clicks, like distributed loads: start and end of the foundation
+            if (distributedStartPos === null) {
+                setDistributedStartPos(xM);
+            } else {
+                onAddFoundation?.(distributedStartPos, xM, foundationModulus);
+                setDistributedStartPos(null);
+            }
+            return;
+        }
+        if (activeTool === 'thermal') {
+            // Heated range, picked like a foundation
+            if (distributedStartPos === null) {
+                setDistributedStartPos(xM);
+            } else {
+                onAddThermalLoad?.(distributedStartPos, xM);
+                setDistributedStartPos(null);
+            }
+            return;
+        }
         
         if (activeTool === 'load') {
             if (loadMode === 'point') {
                 onAddLoad('PointForce', loadMag, xM, undefined, undefined, loadDirection, loadCategory);
+            } else if (loadMode === 'inclined') {
+                // The direction sets the sense of the vertical component, the angle leans it toward ±x
+                const angle = (loadAngle * Math.PI) / 180;
+                const round = (value: number) => Math.abs(value) < 1e-9 ? 0 : value;
+                const vertical = round(loadMag * Math.cos(angle));
+                const horizontal = round(loadMag * Math.sin(angle));
+                onAddLoad('PointForce', vertical, xM, undefined, undefined, loadDirection, loadCategory, undefined, horizontal);
             } else {
                 if (distributedStartPos === null) {
                     setDistributedStartPos(xM);
                 } else {
                     const startX = Math.min(distributedStartPos, xM);
                     const endX = Math.max(distributedStartPos, xM);
-                    if (endX > startX) {
-                        onAddLoad('DistributedForce', loadMag, undefined, startX, endX, loadDirection, loadCategory);
+                    // Inclined distributed loads keep one angle, so both components vary together
+                    const angle = (loadAngle * Math.PI) / 180;
+                    const round = (value: number) => Math.abs(value) < 1e-9 ? 0 : value;
+                    const vertical = (value: number) => round(value * Math.cos(angle));
+                    const horizontal = (value: number) => round(value * Math.sin(angle));
+                    if (endX > startX && loadMode === 'linear') {
+                        // Start magnitude belongs to the first click, so swap when placed right to left
+                        const reversed = xM < distributedStartPos;
+                        const startMag = reversed ? loadEndMag : loadMag;
+                        const endMag = reversed ? loadMag : loadEndMag;
+                        onAddLoad('DistributedForce', vertical(startMag), undefined, startX, endX, loadDirection, loadCategory, vertical(endMag), horizontal(startMag), horizontal(endMag));
+                    } else if (endX > startX) {
+                        onAddLoad('DistributedForce', vertical(loadMag), undefined, startX, endX, loadDirection, loadCategory, undefined, horizontal(loadMag));
                     }
                     setDistributedStartPos(null);
                 }
@@ -158,6 +245,57 @@ export const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
                         strokeLinecap="round"
                     />
 
+                    {/* Span labels: dimension line under the supports, numbered like the span wizard */}
+                    {spans.length > 1 && spans.map(span => {
+                        const x1 = metersToPx(span.startX);
+                        const x2 = metersToPx(span.endX);
+                        return (
+                            <g key={`span-${span.index}`} className="pointer-events-none">
+                                <line x1={x1} y1={beamY + 90} x2={x2} y2={beamY + 90} stroke="#64748b" strokeWidth="1" />
+                                <line x1={x1} y1={beamY + 85} x2={x1} y2={beamY + 95} stroke="#64748b" strokeWidth="1" />
+                                <line x1={x2} y1={beamY + 85} x2={x2} y2={beamY + 95} stroke="#64748b" strokeWidth="1" />
+                                <text x={(x1 + x2) / 2} y={beamY + 106} textAnchor="middle" fill="#94a3b8" fontSize="10" fontFamily="monospace" fontWeight="bold">
+                                    S{span.index + 1}{span.kind === 'cantilever' ? ' cant.' : ''} · {(span.endX - span.startX).toFixed(2)}m
+                                </text>
+                            </g>
+                        );
+                    })}
+
+                    {/* Section segments: tinted band over the beam with boundary ticks */}
+                    {segments.map(seg => {
+                        const x1 = metersToPx(seg.startX);
+                        const x2 = metersToPx(seg.endX);
+                        // Tapered segments are drawn with their depth ratio, I ∝ dⁿ
+                        const depthRatio = seg.taper ? Math.pow(seg.taper.IEnd / seg.I, 1 / seg.taper.exponent) : 1;
+                        const h1 = 6 * Math.min(1, 1 / depthRatio);
+                        const h2 = 6 * Math.min(1, depthRatio);
+                        return (
+                            <g key={seg.id} className="group/segment">
+                                <path d={`M ${x1} ${beamY - h1} L ${x2} ${beamY - h2} L ${x2} ${beamY + h2} L ${x1} ${beamY + h1} Z`} fill="#6366f1" opacity="0.35" />
+                                <line x1={x1} y1={beamY - 12} x2={x1} y2={beamY + 12} stroke="#818cf8" strokeWidth="2" />
+                                <line x1={x2} y1={beamY - 12} x2={x2} y2={beamY + 12} stroke="#818cf8" strokeWidth="2" />
+                                <text x={(x1 + x2) / 2} y={beamY - 16} textAnchor="middle" fill="#a5b4fc" fontSize="10" fontFamily="monospace" fontWeight="bold" className="opacity-0 group-hover/segment:opacity-100 transition-opacity">
+                                    E={(seg.E / 1e9).toFixed(0)}GPa · I={seg.I}{seg.taper ? `→${seg.taper.IEnd}` : ''}m⁴
+                                </text>
+                            </g>
+                        );
+                    })}
+
+                    {/* Winkler foundations: bed of springs under the beam, click to remove */}
+                    {foundations.map(f => {
+                        const x1 = metersToPx(f.startX);
+                        const x2 = metersToPx(f.endX);
+                        return (
+                            <g key={f.id} onClick={(e) => { e.stopPropagation(); onRemoveFoundation?.(f.id); }} className="cursor-pointer hover:opacity-90 transition-opacity group/foundation">
+                                <rect x={x1} y={beamY + 3} width={x2 - x1} height="20" fill="#a16207" opacity="0.15" />
+                                <path d={foundationBedPath(x1, x2, beamY + 3, 20)} fill="none" stroke="#ca8a04" strokeWidth="1.5" strokeLinejoin="round" />
+                                <text x={(x1 + x2) / 2} y={beamY + 38} textAnchor="middle" fill="#ca8a04" fontSize="10" fontFamily="monospace" fontWeight="bold" className="opacity-0 group-hover/foundation:opacity-100 transition-opacity">
+                                    k = {f.modulus} kN/m²
+                                </text>
+                            </g>
+                        );
+                    })}
+
                     {/* Supports - SAP2000 Style: Black with Yellow highlights */}
                     {supports.map(s => {
                         const x = metersToPx(s.x);
@@ -181,9 +319,30 @@ export const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
                                         <line x1={x - 6} y1={beamY + 5} x2={x - 2} y2={beamY + 15} stroke="#fbbf24" strokeWidth="2" />
                                         <line x1={x + 2} y1={beamY + 5} x2={x + 6} y2={beamY + 15} stroke="#fbbf24" strokeWidth="2" />
                                     </>
+                                ) : s.type === 'Spring' ? (
+                                    <>
+                                        <path d={springZigzagPath(x, beamY, 28)} fill="none" stroke="#2dd4bf" strokeWidth="2.5" strokeLinejoin="round" />
+                                        <line x1={x - 12} y1={beamY + 28} x2={x + 12} y2={beamY + 28} stroke="#fbbf24" strokeWidth="2.5" />
+                                        {(s.spring?.kTheta ?? 0) > 0 && (
+                                            <path d={rotationalSpringPath(x, beamY)} fill="none" stroke="#2dd4bf" strokeWidth="1.5" />
+                                        )}
+                                    </>
                                 ) : null}
                                 <text x={x} y={beamY - 18} textAnchor="middle" fill="#fbbf24" fontSize="10" fontFamily="monospace" fontWeight="bold" className="opacity-0 group-hover/support:opacity-100 transition-opacity">
-                                    {s.x.toFixed(2)}m
+                                    {s.x.toFixed(2)}m{s.spring ? ` · k_y=${s.spring.ky}` : ''}
+                                </text>
+                            </g>
+                        );
+                    })}
+
+                    {/* Internal hinges: open circle on the beam axis, click to remove */}
+                    {hinges.map(h => {
+                        const x = metersToPx(h.x);
+                        return (
+                            <g key={h.id} onClick={(e) => { e.stopPropagation(); onRemoveHinge?.(h.id); }} className="cursor-pointer hover:opacity-90 transition-opacity group/hinge">
+                                <circle cx={x} cy={beamY} r="7" fill="#0f172a" stroke="#fbbf24" strokeWidth="2.5" />
+                                <text x={x} y={beamY - 14} textAnchor="middle" fill="#fbbf24" fontSize="10" fontFamily="monospace" fontWeight="bold" className="opacity-0 group-hover/hinge:opacity-100 transition-opacity">
+                                    {h.x.toFixed(2)}m
                                 </text>
                             </g>
                         );
@@ -191,7 +350,8 @@ export const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
 
                     {/* Loads - SAP2000 Style: Red (downward), Yellow (upward) */}
                     {loads.map(l => {
-                        const isDownward = l.magnitude < 0;
+                        // Triangular loads may start at zero, so the direction comes from the end intensity
+                        const isDownward = (l.magnitude !== 0 ? l.magnitude : (l.endMagnitude ?? 0)) < 0;
                         const loadColor = isDownward ? "#dc2626" : "#fbbf24"; // Red for down, Yellow for up (SAP2000 style)
                         const loadStroke = isDownward ? "#991b1b" : "#d97706"; // Darker outline
                         const arrowY1 = isDownward ? beamY - 50 : beamY + 50;
@@ -199,29 +359,77 @@ export const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
                         const arrowTipY = isDownward ? beamY - 10 : beamY + 10;
                         const labelY = isDownward ? beamY - 65 : beamY + 75;
                         
+                        if (l.type === 'SupportDisplacement' && typeof l.x === 'number') {
+                            // Imposed movement: dashed arrow under the support, click to remove
+                            const x = metersToPx(l.x);
+                            const settlementMm = -l.magnitude * 1000;
+                            const arrowDown = settlementMm >= 0;
+                            return (
+                                <g key={l.id} onClick={(e) => { e.stopPropagation(); onRemoveLoad(l.id); }} className="cursor-pointer hover:opacity-80">
+                                    <line x1={x + 18} y1={beamY + 8} x2={x + 18} y2={beamY + 36} stroke="#f97316" strokeWidth="2" strokeDasharray="3,2" />
+                                    <path
+                                        d={arrowDown
+                                            ? `M ${x + 13} ${beamY + 30} L ${x + 18} ${beamY + 38} L ${x + 23} ${beamY + 30}`
+                                            : `M ${x + 13} ${beamY + 14} L ${x + 18} ${beamY + 6} L ${x + 23} ${beamY + 14}`}
+                                        fill="#f97316"
+                                    />
+                                    <text x={x + 26} y={beamY + 30} fill="#f97316" fontSize="10" fontFamily="monospace" fontWeight="bold">
+                                        Δ{Math.abs(settlementMm).toFixed(1)}mm{l.rotation ? ` θ${(l.rotation * 1000).toFixed(1)}mrad` : ''}
+                                    </text>
+                                </g>
+                            );
+                        }
+
+                        if (l.type === 'Temperature' && typeof l.startX === 'number' && typeof l.endX === 'number') {
+                            // Heated range: red band just above the beam, click to remove
+                            const x1 = metersToPx(l.startX);
+                            const x2 = metersToPx(l.endX);
+                            return (
+                                <g key={l.id} onClick={(e) => { e.stopPropagation(); onRemoveLoad(l.id); }} className="cursor-pointer hover:opacity-80">
+                                    <rect x={x1} y={beamY - 16} width={x2 - x1} height="8" fill="#ef4444" opacity="0.25" stroke="#ef4444" strokeWidth="1" strokeDasharray="3,2" />
+                                    <text x={(x1 + x2) / 2} y={beamY - 22} textAnchor="middle" fill="#f87171" fontSize="10" fontFamily="monospace" fontWeight="bold">
+                                        ΔT {l.magnitude}°C{l.gradient ? ` / ${l.gradient}°C top−bottom` : ''}
+                                    </text>
+                                </g>
+                            );
+                        }
+
                         if (l.type === 'PointForce' && typeof l.x === 'number') {
                             const x = metersToPx(l.x);
-                            const category = l.category || 'Live';
-                            const categoryColor = category === 'Dead' ? '#64748b' : '#3b82f6';
+                            const category: LoadCategory = l.category || 'Live';
+                            const categoryColor = LOAD_CATEGORY_STYLES[category].hex;
+                            // Horizontal and inclined forces are drawn along their line of action
+                            const arrow = l.horizontal ? forceArrow(x, beamY, l.horizontal, l.magnitude, 60, 12) : null;
+                            const labelX = arrow ? arrow.tailX : x;
+                            const labelCenterY = arrow ? arrow.tailY + (arrow.tailY <= beamY ? -14 : 14) : labelY;
                             return (
                                 <g key={l.id} className="cursor-pointer hover:opacity-90 group/load">
-                                    <line x1={x} y1={arrowY1} x2={x} y2={arrowY2} stroke={loadColor} strokeWidth="4" />
-                                    <line x1={x} y1={arrowY1} x2={x} y2={arrowY2} stroke={loadStroke} strokeWidth="2" opacity="0.5" />
-                                    <path d={`M ${x-7} ${arrowTipY} L ${x} ${beamY} L ${x+7} ${arrowTipY}`} fill={loadColor} stroke={loadStroke} strokeWidth="1" />
-                                    <rect x={x - 32} y={labelY - 11} width="64" height="22" rx="4" fill={loadColor} opacity="0.95" stroke={loadStroke} strokeWidth="1.5" />
-                                    <text x={x} y={labelY + 3} textAnchor="middle" fill={isDownward ? "white" : "#000000"} fontSize="11" fontWeight="bold">
-                                        {Math.abs(l.magnitude)}kN
+                                    {arrow ? (
+                                        <>
+                                            <line x1={arrow.tailX} y1={arrow.tailY} x2={x} y2={beamY} stroke={loadColor} strokeWidth="4" />
+                                            <path d={arrow.headPath} fill={loadColor} stroke={loadStroke} strokeWidth="1" />
+                                        </>
+                                    ) : (
+                                        <>
+                                            <line x1={x} y1={arrowY1} x2={x} y2={arrowY2} stroke={loadColor} strokeWidth="4" />
+                                            <line x1={x} y1={arrowY1} x2={x} y2={arrowY2} stroke={loadStroke} strokeWidth="2" opacity="0.5" />
+                                            <path d={`M ${x-7} ${arrowTipY} L ${x} ${beamY} L ${x+7} ${arrowTipY}`} fill={loadColor} stroke={loadStroke} strokeWidth="1" />
+                                        </>
+                                    )}
+                                    <rect x={labelX - 32} y={labelCenterY - 11} width="64" height="22" rx="4" fill={loadColor} opacity="0.95" stroke={loadStroke} strokeWidth="1.5" />
+                                    <text x={labelX} y={labelCenterY + 3} textAnchor="middle" fill={isDownward ? "white" : "#000000"} fontSize="11" fontWeight="bold">
+                                        {Number(Math.hypot(l.magnitude, l.horizontal ?? 0).toFixed(2))}kN
                                     </text>
                                     {/* Category badge */}
-                                    <rect x={x - 10} y={labelY - 25} width="20" height="12" rx="2" fill={categoryColor} opacity="0.9" className="opacity-0 group-hover/load:opacity-100 transition-opacity" />
-                                    <text x={x} y={labelY - 17} textAnchor="middle" fill="white" fontSize="9" fontWeight="bold" className="opacity-0 group-hover/load:opacity-100 transition-opacity">
-                                        {category === 'Dead' ? 'D' : category === 'Live' ? 'L' : category[0]}
+                                    <rect x={labelX - 10} y={labelCenterY - 25} width="20" height="12" rx="2" fill={categoryColor} opacity="0.9" className="opacity-0 group-hover/load:opacity-100 transition-opacity" />
+                                    <text x={labelX} y={labelCenterY - 17} textAnchor="middle" fill="white" fontSize="9" fontWeight="bold" className="opacity-0 group-hover/load:opacity-100 transition-opacity">
+                                        {LOAD_CATEGORY_SYMBOLS[category]}
                                     </text>
                                     {/* Category toggle on click */}
                                     {onUpdateLoadCategory && (
                                         <rect 
-                                            x={x - 10} 
-                                            y={labelY - 25} 
+                                            x={labelX - 10} 
+                                            y={labelCenterY - 25} 
                                             width="20" 
                                             height="12" 
                                             rx="2" 
@@ -229,7 +437,7 @@ export const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
                                             className="opacity-0 group-hover/load:opacity-100 cursor-pointer"
                                             onClick={(e) => {
                                                 e.stopPropagation();
-                                                onUpdateLoadCategory(l.id, category === 'Dead' ? 'Live' : 'Dead');
+                                                onUpdateLoadCategory(l.id, nextCategory(category));
                                             }}
                                         />
                                     )}
@@ -238,33 +446,58 @@ export const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
                         } else if (l.type === 'DistributedForce' && typeof l.startX === 'number' && typeof l.endX === 'number') {
                             const startX = metersToPx(l.startX);
                             const endX = metersToPx(l.endX);
-                            const category = l.category || 'Live';
-                            const categoryColor = category === 'Dead' ? '#64748b' : '#3b82f6';
+                            const category: LoadCategory = l.category || 'Live';
+                            const categoryColor = LOAD_CATEGORY_STYLES[category].hex;
+                            const endMagnitude: number = typeof l.endMagnitude === 'number' ? l.endMagnitude : l.magnitude;
+                            const isUniform = endMagnitude === l.magnitude;
+                            // Inclined distributed loads label their axial intensity too
+                            const axialLabel = l.horizontal ? ` · H ${Number(Math.abs(l.horizontal).toFixed(2))}${l.endHorizontal !== undefined && l.endHorizontal !== l.horizontal ? `→${Number(Math.abs(l.endHorizontal).toFixed(2))}` : ''}` : '';
+                            const labelWidth = (isUniform ? 70 : 100) + (axialLabel ? 50 : 0);
                             const arrowSpacing = 40;
                             const arrows = [];
                             for (let x = startX; x <= endX; x += arrowSpacing) {
                                 arrows.push(x);
                             }
                             if (arrows[arrows.length - 1] !== endX) arrows.push(endX);
+                            // Linearly varying loads: arrow length follows the local intensity (sloped block)
+                            const peak = Math.max(Math.abs(l.magnitude), Math.abs(endMagnitude)) || 1;
+                            const tailY = (x: number) => {
+                                if (isUniform) return arrowY1;
+                                const t = endX > startX ? (x - startX) / (endX - startX) : 0;
+                                const intensity = Math.abs(l.magnitude + (endMagnitude - l.magnitude) * t);
+                                const arrowLength = 45 * intensity / peak;
+                                return isDownward ? arrowY2 - arrowLength : arrowY2 + arrowLength;
+                            };
                             return (
                                 <g key={l.id} className="cursor-pointer hover:opacity-90 group/load">
                                     {arrows.map((x, i) => (
                                         <g key={i}>
-                                            <line x1={x} y1={arrowY1} x2={x} y2={arrowY2} stroke={loadColor} strokeWidth="3" />
-                                            <line x1={x} y1={arrowY1} x2={x} y2={arrowY2} stroke={loadStroke} strokeWidth="1.5" opacity="0.5" />
+                                            <line x1={x} y1={tailY(x)} x2={x} y2={arrowY2} stroke={loadColor} strokeWidth="3" />
+                                            <line x1={x} y1={tailY(x)} x2={x} y2={arrowY2} stroke={loadStroke} strokeWidth="1.5" opacity="0.5" />
                                             <path d={`M ${x-5} ${arrowTipY} L ${x} ${beamY} L ${x+5} ${arrowTipY}`} fill={loadColor} stroke={loadStroke} strokeWidth="1" />
                                         </g>
                                     ))}
+                                    {!isUniform && (
+                                        <path
+                                            d={`M ${startX} ${arrowY2} L ${startX} ${tailY(startX)} L ${endX} ${tailY(endX)} L ${endX} ${arrowY2} Z`}
+                                            fill={loadColor}
+                                            opacity="0.15"
+                                        />
+                                    )}
+                                    <line x1={startX} y1={tailY(startX)} x2={endX} y2={tailY(endX)} stroke={loadColor} strokeWidth="3" />
+                                    <line x1={startX} y1={tailY(startX)} x2={endX} y2={tailY(endX)} stroke={loadStroke} strokeWidth="1.5" opacity="0.5" />
                                     <line x1={startX} y1={arrowY2} x2={endX} y2={arrowY2} stroke={loadColor} strokeWidth="3" />
                                     <line x1={startX} y1={arrowY2} x2={endX} y2={arrowY2} stroke={loadStroke} strokeWidth="1.5" opacity="0.5" />
-                                    <rect x={(startX + endX) / 2 - 35} y={labelY - 9} width="70" height="18" rx="3" fill={loadColor} opacity="0.95" stroke={loadStroke} strokeWidth="1" />
+                                    <rect x={(startX + endX) / 2 - labelWidth / 2} y={labelY - 9} width={labelWidth} height="18" rx="3" fill={loadColor} opacity="0.95" stroke={loadStroke} strokeWidth="1" />
                                     <text x={(startX + endX) / 2} y={labelY + 2} textAnchor="middle" fill={isDownward ? "white" : "#000000"} fontSize="10" fontWeight="bold">
-                                        {Math.abs(l.magnitude)} kN/m
+                                        {isUniform
+                                            ? `${Math.abs(l.magnitude)} kN/m`
+                                            : `${Math.abs(l.magnitude)}→${Math.abs(endMagnitude)} kN/m`}{axialLabel}
                                     </text>
                                     {/* Category badge */}
                                     <rect x={(startX + endX) / 2 - 10} y={labelY - 23} width="20" height="12" rx="2" fill={categoryColor} opacity="0.9" className="opacity-0 group-hover/load:opacity-100 transition-opacity" />
                                     <text x={(startX + endX) / 2} y={labelY - 15} textAnchor="middle" fill="white" fontSize="9" fontWeight="bold" className="opacity-0 group-hover/load:opacity-100 transition-opacity">
-                                        {category === 'Dead' ? 'D' : category === 'Live' ? 'L' : category[0]}
+                                        {LOAD_CATEGORY_SYMBOLS[category]}
                                     </text>
                                     {/* Category toggle on click */}
                                     {onUpdateLoadCategory && (
@@ -278,7 +511,7 @@ export const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
                                             className="opacity-0 group-hover/load:opacity-100 cursor-pointer"
                                             onClick={(e) => {
                                                 e.stopPropagation();
-                                                onUpdateLoadCategory(l.id, category === 'Dead' ? 'Live' : 'Dead');
+                                                onUpdateLoadCategory(l.id, nextCategory(category));
                                             }}
                                         />
                                     )}
@@ -310,7 +543,7 @@ export const InteractiveCanvas: React.FC<InteractiveCanvasProps> = ({
                     )}
 
                     {/* Distributed Load Placement Indicator */}
-                    {activeTool === 'load' && loadMode === 'distributed' && distributedStartPos !== null && hoverPosition && (
+                    {(activeTool === 'foundation' || activeTool === 'thermal' || (activeTool === 'load' && (loadMode === 'distributed' || loadMode === 'linear'))) && distributedStartPos !== null && hoverPosition && (
                         <g>
                             <line
                                 x1={metersToPx(distributedStartPos)}
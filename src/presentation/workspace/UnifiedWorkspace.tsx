@@ -2,49 +2,106 @@ import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { 
     Ruler, Weight, Play, Grid3x3, Lock, MousePointer2, 
     ArrowDown, ArrowUp, GripVertical, Settings, X, CheckCircle2, AlertCircle,
-    ZoomIn, ZoomOut, Maximize2, Move, Gauge, Box, ChevronRight, ChevronLeft, ChevronDown, ChevronUp, PanelRightClose, PanelRightOpen
+    ZoomIn, ZoomOut, Maximize2, Move, Gauge, Box, ChevronRight, ChevronLeft, ChevronDown, ChevronUp, PanelRightClose, PanelRightOpen, Columns3, Shapes
 } from 'lucide-react';
-import type { SupportType } from '../../core/entities/Node';
+import type { SupportType, SpringStiffness } from '../../core/entities/Node';
+import { selfWeightPerLength, type SectionTaper } from '../../core/entities/Section';
+import type { SpanLayout } from '../../core/entities/SpanLayout';
+import type { SteelSection, SteelSectionFamily } from '../../core/entities/SteelSection';
+import { SectionLibraryService } from '../../core/services/SectionLibraryService';
+import type { CrossSectionShape, CrossSectionKind, SectionPolygon } from '../../core/entities/CrossSection';
+import { SectionProperties } from '../../core/logic/SectionProperties';
 import type { LoadType, LoadCategory } from '../../core/entities/Load';
+import { FORCE_LOAD_CATEGORIES, LOAD_CATEGORY_SYMBOLS } from '../../core/entities/Load';
 import type { AnalysisResults } from '../../core/logic/FemSolver';
+import type { BeamInput, BeamTheory, LoadCaseResults } from '../../core/services/BeamAnalysisService';
 import { IntegratedDiagrams } from '../results/IntegratedDiagrams';
 import { InteractiveCanvas } from './InteractiveCanvas';
 import { DiagramCalculator } from '../../core/services/DiagramCalculator';
+import { LOAD_CATEGORY_STYLES } from '../loadCategoryStyles';
 import type { Node } from '../../core/entities/Node';
 import type { Load } from '../../core/entities/Load';
 
 interface UnifiedWorkspaceProps {
     length: number;
     setLength: (l: number) => void;
-    supports: { id: string, x: number, type: SupportType }[];
-    addSupport: (x: number, type: SupportType) => void;
+    spanLayout: SpanLayout | null;
+    applySpanLayout: (layout: SpanLayout) => void;
+    resizeSpan: (index: number, length: number) => void;
+    supports: { id: string, x: number, type: SupportType, spring?: SpringStiffness }[];
+    addSupport: (x: number, type: SupportType, spring?: SpringStiffness) => void;
     removeSupport: (id: string) => void;
+    hinges: { id: string, x: number }[];
+    addHinge: (x: number) => void;
+    removeHinge: (id: string) => void;
+    foundations: { id: string, startX: number, endX: number, modulus: number }[];
+    addFoundation: (startX: number, endX: number, modulus: number) => void;
+    removeFoundation: (id: string) => void;
+    segments: { id: string, startX: number, endX: number, E: number, I: number, taper?: SectionTaper, A?: number }[];
+    addSegment: (startX: number, endX: number, E: number, I: number, taper?: SectionTaper, A?: number) => void;
+    removeSegment: (id: string) => void;
     loads: any[];
-    addLoad: (type: LoadType, mag: number, x?: number, startX?: number, endX?: number, direction?: 'up' | 'down', category?: LoadCategory) => void;
+    addLoad: (type: LoadType, mag: number, x?: number, startX?: number, endX?: number, direction?: 'up' | 'down', category?: LoadCategory, endMag?: number, horizontal?: number, endHorizontal?: number) => void;
+    addSupportDisplacement: (x: number, settlement: number, rotation?: number) => void;
+    addThermalLoad: (startX: number, endX: number, uniform: number, gradient: number, alpha: number, depth: number) => void;
     removeLoad: (id: string) => void;
     updateLoadCategory: (id: string, category: LoadCategory) => void;
     solve: () => void;
     results: AnalysisResults | null;
+    loadCases: LoadCaseResults | null;
+    solvedInput: BeamInput | null;
     error: string | null;
     nodes: Node[];
     processedLoads: Load[];
-    material: { E: number, I: number };
-    setMaterial: (m: { E: number, I: number }) => void;
+    material: { E: number, I: number, A: number, density: number, selfWeight: boolean, section: SteelSection | null, shape: CrossSectionShape | null };
+    setMaterial: (m: { E: number, I: number, A: number, density: number, selfWeight: boolean, section: SteelSection | null, shape: CrossSectionShape | null }) => void;
+    applySection: (section: SteelSection) => void;
+    applyShape: (shape: CrossSectionShape) => void;
+    shearModel: { theory: BeamTheory, G: number, As: number };
+    setShearModel: (m: { theory: BeamTheory, G: number, As: number }) => void;
 }
 
-type Tool = 'select' | 'pin' | 'roller' | 'fixed' | 'load';
-type LoadMode = 'point' | 'distributed';
+type Tool = 'select' | 'pin' | 'roller' | 'fixed' | 'spring' | 'hinge' | 'settlement' | 'foundation' | 'thermal' | 'load';
+type LoadMode = 'point' | 'inclined' | 'distributed' | 'linear';
 
 export const UnifiedWorkspace: React.FC<UnifiedWorkspaceProps> = (props) => {
     const [activeTool, setActiveTool] = useState<Tool>('select');
     const [loadMode, setLoadMode] = useState<LoadMode>('point');
     const [loadMag, setLoadMag] = useState(10);
+    const [loadEndMag, setLoadEndMag] = useState(20);
+    // Inclined point loads: angle from the vertical in degrees, positive leaning to +x
+    const [loadAngle, setLoadAngle] = useState(30);
+    // Distributed loads stay vertical unless tilted on purpose (e.g. a load along a sloping roof)
+    const [distributedAngle, setDistributedAngle] = useState(0);
     const [loadDirection, setLoadDirection] = useState<'up' | 'down'>('down');
     const [loadCategory, setLoadCategory] = useState<LoadCategory>('Live');
+    const [springStiffness, setSpringStiffness] = useState<SpringStiffness>({ ky: 10000, kTheta: 0 });
+    // Imposed support movement in UI units: mm (downward positive) and mrad
+    const [settlementInput, setSettlementInput] = useState({ settlement: 10, rotation: 0 });
+    // Winkler modulus per metre of beam (subgrade modulus × contact width)
+    const [foundationModulus, setFoundationModulus] = useState(50000);
+    // Temperature load in UI units: °C for both ΔT, α in 10⁻⁶/°C and the section depth in m
+    const [thermalInput, setThermalInput] = useState({ uniform: 20, gradient: 0, alpha: 12, depth: 0.4 });
+    // New section segment being defined in the material panel (A = 0 keeps the beam's area)
+    const [segmentInput, setSegmentInput] = useState({ startX: 0, endX: 2, E: 200e9, I: 0.0002, A: 0, tapered: false, IEnd: 0.0001, exponent: 3 });
     const [gridSnap, setGridSnap] = useState(0.25);
     const [showGrid, setShowGrid] = useState(true);
     const [showSettings, setShowSettings] = useState(false);
     const [showMaterial, setShowMaterial] = useState(false);
+    const [showSpans, setShowSpans] = useState(false);
+    const [showSectionEditor, setShowSectionEditor] = useState(false);
+    // Section library search in the material panel
+    const [sectionQuery, setSectionQuery] = useState('');
+    const [sectionFamily, setSectionFamily] = useState<SteelSectionFamily>('IPE');
+    // Section editor dimensions in mm; polygons are one outline per line as "x,y x,y ...", a leading "-" marks a hole
+    const [shapeInput, setShapeInput] = useState({
+        kind: 'I' as CrossSectionKind, b: 200, h: 300, bf: 150, tf: 10.7, tw: 7.1, t: 10, d: 200, hollow: false,
+        polygons: '0,0 200,0 200,20 110,20 110,300 90,300 90,20 0,20'
+    });
+    // Span wizard: comma-separated span lengths and the support types on the boundaries
+    const [spanInput, setSpanInput] = useState<{ lengths: string, leftEnd: SupportType, rightEnd: SupportType, interior: SupportType }>({
+        lengths: '5, 5, 5', leftEnd: 'Pin', rightEnd: 'Roller', interior: 'Roller'
+    });
     const [distributedStartPos, setDistributedStartPos] = useState<number | null>(null);
     const [canvasZoom, setCanvasZoom] = useState(1);
     const [canvasPan, setCanvasPan] = useState({ x: 0, y: 0 });
@@ -64,13 +121,55 @@ export const UnifiedWorkspace: React.FC<UnifiedWorkspaceProps> = (props) => {
                 props.processedLoads,
                 props.results.reactions,
                 props.results.displacements,
-                200
+                200,
+                undefined,
+                undefined,
+                undefined,
+                props.solvedInput?.foundations
             );
         } catch (err) {
             console.error('Error calculating diagrams:', err);
             return null;
         }
-    }, [props.results, props.length, props.nodes, props.processedLoads]);
+    }, [props.results, props.length, props.nodes, props.processedLoads, props.solvedInput]);
+
+    // Section editor: shape in metres, its properties and outline, or the reason it is invalid
+    const sectionPreview = useMemo(() => {
+        const mm = (v: number) => v / 1000;
+        const parsePolygons = (text: string): SectionPolygon[] => text.split('\n').map(line => line.trim()).filter(Boolean).map(line => ({
+            hole: line.startsWith('-'),
+            points: line.replace(/^-/, '').trim().split(/\s+/).map(pair => {
+                const [x, y] = pair.split(',').map(Number);
+                return [mm(x), mm(y)] as [number, number];
+            })
+        }));
+        const { kind, b, h, bf, tf, tw, t, d, hollow } = shapeInput;
+        const shape: CrossSectionShape =
+            kind === 'rectangle' ? { kind, b: mm(b), h: mm(h) }
+            : kind === 'I' || kind === 'T' ? { kind, h: mm(h), bf: mm(bf), tf: mm(tf), tw: mm(tw) }
+            : kind === 'box' ? { kind, h: mm(h), b: mm(b), t: mm(t) }
+            : kind === 'circular' ? { kind, d: mm(d), ...(hollow && { t: mm(t) }) }
+            : { kind, polygons: parsePolygons(shapeInput.polygons) };
+        try {
+            if (shape.kind === 'polygon' && shape.polygons.some(p => p.points.some(([x, y]) => !isFinite(x) || !isFinite(y)))) {
+                throw new Error('Points must be written as x,y pairs in mm.');
+            }
+            return { shape, properties: SectionProperties.compute(shape), outline: SectionProperties.outline(shape), error: null };
+        } catch (err) {
+            return { shape, properties: null, outline: [], error: err instanceof Error ? err.message : String(err) };
+        }
+    }, [shapeInput]);
+
+    // Section properties of the beam for the stress diagrams, when it comes from the library or the editor
+    const sectionProperties = useMemo(() => {
+        if (props.material.section) return SectionProperties.fromSteelSection(props.material.section);
+        if (!props.material.shape) return null;
+        try {
+            return SectionProperties.compute(props.material.shape);
+        } catch {
+            return null;
+        }
+    }, [props.material.section, props.material.shape]);
 
     const handleZoom = (delta: number, target: 'canvas' | 'diagram') => {
         if (target === 'canvas') {
@@ -152,6 +251,120 @@ export const UnifiedWorkspace: React.FC<UnifiedWorkspaceProps> = (props) => {
                                 </div>
                             </div>
 
+                            {/* Spring Stiffness Section (only while placing springs) */}
+                            {activeTool === 'spring' && (
+                                <div className="flex items-center gap-4 px-4 py-2.5 bg-slate-800/60 rounded-xl border border-slate-700/50 backdrop-blur-sm">
+                                    <div className="flex flex-col gap-1.5">
+                                        <label className="text-[10px] text-slate-500 uppercase tracking-wider font-semibold">k<sub>y</sub></label>
+                                        <div className="flex items-baseline gap-1.5">
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                step="100"
+                                                value={springStiffness.ky}
+                                                onChange={e => setSpringStiffness({ ...springStiffness, ky: Math.max(0, Number(e.target.value)) })}
+                                                className="w-24 px-3 py-1.5 bg-slate-900/50 border border-slate-600/50 rounded-lg text-sm font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-teal-500/50 focus:border-teal-500/50 transition-all"
+                                            />
+                                            <span className="text-xs text-slate-500 font-medium">kN/m</span>
+                                        </div>
+                                    </div>
+                                    <div className="flex flex-col gap-1.5">
+                                        <label className="text-[10px] text-slate-500 uppercase tracking-wider font-semibold">k<sub>θ</sub></label>
+                                        <div className="flex items-baseline gap-1.5">
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                step="100"
+                                                value={springStiffness.kTheta}
+                                                onChange={e => setSpringStiffness({ ...springStiffness, kTheta: Math.max(0, Number(e.target.value)) })}
+                                                className="w-24 px-3 py-1.5 bg-slate-900/50 border border-slate-600/50 rounded-lg text-sm font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-teal-500/50 focus:border-teal-500/50 transition-all"
+                                            />
+                                            <span className="text-xs text-slate-500 font-medium">kNm/rad</span>
+                                        </div>
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* Support Settlement Section (only while placing settlements) */}
+                            {activeTool === 'settlement' && (
+                                <div className="flex items-center gap-4 px-4 py-2.5 bg-slate-800/60 rounded-xl border border-slate-700/50 backdrop-blur-sm">
+                                    <div className="flex flex-col gap-1.5">
+                                        <label className="text-[10px] text-slate-500 uppercase tracking-wider font-semibold">Settlement ↓</label>
+                                        <div className="flex items-baseline gap-1.5">
+                                            <input
+                                                type="number"
+                                                step="1"
+                                                value={settlementInput.settlement}
+                                                onChange={e => setSettlementInput({ ...settlementInput, settlement: Number(e.target.value) })}
+                                                className="w-24 px-3 py-1.5 bg-slate-900/50 border border-slate-600/50 rounded-lg text-sm font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-orange-500/50 focus:border-orange-500/50 transition-all"
+                                            />
+                                            <span className="text-xs text-slate-500 font-medium">mm</span>
+                                        </div>
+                                    </div>
+                                    <div className="flex flex-col gap-1.5">
+                                        <label className="text-[10px] text-slate-500 uppercase tracking-wider font-semibold">Rotation</label>
+                                        <div className="flex items-baseline gap-1.5">
+                                            <input
+                                                type="number"
+                                                step="0.1"
+                                                value={settlementInput.rotation}
+                                                onChange={e => setSettlementInput({ ...settlementInput, rotation: Number(e.target.value) })}
+                                                className="w-24 px-3 py-1.5 bg-slate-900/50 border border-slate-600/50 rounded-lg text-sm font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-orange-500/50 focus:border-orange-500/50 transition-all"
+                                            />
+                                            <span className="text-xs text-slate-500 font-medium">mrad</span>
+                                        </div>
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* Foundation Modulus Section (only while placing foundations) */}
+                            {activeTool === 'foundation' && (
+                                <div className="flex items-center gap-4 px-4 py-2.5 bg-slate-800/60 rounded-xl border border-slate-700/50 backdrop-blur-sm">
+                                    <div className="flex flex-col gap-1.5">
+                                        <label className="text-[10px] text-slate-500 uppercase tracking-wider font-semibold">Foundation k</label>
+                                        <div className="flex items-baseline gap-1.5">
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                step="1000"
+                                                value={foundationModulus}
+                                                onChange={e => setFoundationModulus(Math.max(0, Number(e.target.value)))}
+                                                className="w-28 px-3 py-1.5 bg-slate-900/50 border border-slate-600/50 rounded-lg text-sm font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-yellow-500/50 focus:border-yellow-500/50 transition-all"
+                                                title="Subgrade modulus times contact width"
+                                            />
+                                            <span className="text-xs text-slate-500 font-medium">kN/m²</span>
+                                        </div>
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* Temperature Load Section (only while placing thermal loads) */}
+                            {activeTool === 'thermal' && (
+                                <div className="flex items-center gap-4 px-4 py-2.5 bg-slate-800/60 rounded-xl border border-slate-700/50 backdrop-blur-sm">
+                                    {([
+                                        ['uniform', 'ΔT uniform', '°C', 1, 'Uniform temperature change at the centroid'],
+                                        ['gradient', 'ΔT top−bottom', '°C', 1, 'Top face minus bottom face temperature'],
+                                        ['alpha', 'α', '×10⁻⁶/°C', 0.5, 'Thermal expansion coefficient'],
+                                        ['depth', 'Depth h', 'm', 0.05, 'Section depth the gradient acts across']
+                                    ] as const).map(([key, label, unit, step, title]) => (
+                                        <div key={key} className="flex flex-col gap-1.5">
+                                            <label className="text-[10px] text-slate-500 uppercase tracking-wider font-semibold">{label}</label>
+                                            <div className="flex items-baseline gap-1.5">
+                                                <input
+                                                    type="number"
+                                                    step={step}
+                                                    value={thermalInput[key]}
+                                                    onChange={e => setThermalInput({ ...thermalInput, [key]: Number(e.target.value) })}
+                                                    className="w-20 px-3 py-1.5 bg-slate-900/50 border border-slate-600/50 rounded-lg text-sm font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-red-500/50 focus:border-red-500/50 transition-all"
+                                                    title={title}
+                                                />
+                                                <span className="text-xs text-slate-500 font-medium">{unit}</span>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
                             {/* Load Controls Section */}
                             <div className="flex items-center gap-4 px-4 py-2.5 bg-slate-800/60 rounded-xl border border-slate-700/50 backdrop-blur-sm">
                                 <div className="p-2 bg-emerald-500/10 rounded-lg">
@@ -175,6 +388,21 @@ export const UnifiedWorkspace: React.FC<UnifiedWorkspaceProps> = (props) => {
                                             >
                                                 Point
                                             </button>
+                                            <button
+                                                onClick={() => {
+                                                    setActiveTool('load');
+                                                    setLoadMode('inclined');
+                                                    setDistributedStartPos(null);
+                                                }}
+                                                className={`px-3 py-1.5 text-xs font-semibold rounded-md transition-all ${
+                                                    loadMode === 'inclined' && activeTool === 'load'
+                                                        ? 'bg-emerald-600 text-white shadow-md shadow-emerald-500/20'
+                                                        : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'
+                                                }`}
+                                                title="Point force at an angle from the vertical (±90° = horizontal)"
+                                            >
+                                                Inclined
+                                            </button>
                                             <button
                                                 onClick={() => {
                                                     setActiveTool('load');
@@ -189,10 +417,25 @@ export const UnifiedWorkspace: React.FC<UnifiedWorkspaceProps> = (props) => {
                                             >
                                                 Distributed
                                             </button>
+                                            <button
+                                                onClick={() => {
+                                                    setActiveTool('load');
+                                                    setLoadMode('linear');
+                                                    setDistributedStartPos(null);
+                                                }}
+                                                className={`px-3 py-1.5 text-xs font-semibold rounded-md transition-all ${
+                                                    loadMode === 'linear' && activeTool === 'load'
+                                                        ? 'bg-emerald-600 text-white shadow-md shadow-emerald-500/20'
+                                                        : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'
+                                                }`}
+                                                title="Linearly varying (trapezoidal / triangular) load"
+                                            >
+                                                Linear
+                                            </button>
                                         </div>
                                     </div>
                                     <div className="flex flex-col gap-1.5">
-                                        <label className="text-[10px] text-slate-500 uppercase tracking-wider font-semibold">Magnitude</label>
+                                        <label className="text-[10px] text-slate-500 uppercase tracking-wider font-semibold">{loadMode === 'linear' ? 'Start' : 'Magnitude'}</label>
                                         <div className="flex items-baseline gap-1.5">
                                             <input
                                                 type="number"
@@ -202,9 +445,61 @@ export const UnifiedWorkspace: React.FC<UnifiedWorkspaceProps> = (props) => {
                                                 onChange={e => setLoadMag(Number(e.target.value))}
                                                 className="w-24 px-3 py-1.5 bg-slate-900/50 border border-slate-600/50 rounded-lg text-sm font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 focus:border-emerald-500/50 transition-all"
                                             />
-                                            <span className="text-xs text-slate-500 font-medium">kN{loadMode === 'distributed' ? '/m' : ''}</span>
+                                            <span className="text-xs text-slate-500 font-medium">kN{loadMode === 'distributed' || loadMode === 'linear' ? '/m' : ''}</span>
                                         </div>
                                     </div>
+                                    {loadMode === 'inclined' && (
+                                        <div className="flex flex-col gap-1.5">
+                                            <label className="text-[10px] text-slate-500 uppercase tracking-wider font-semibold">Angle</label>
+                                            <div className="flex items-baseline gap-1.5">
+                                                <input
+                                                    type="number"
+                                                    min="-90"
+                                                    max="90"
+                                                    step="5"
+                                                    value={loadAngle}
+                                                    onChange={e => setLoadAngle(Math.max(-90, Math.min(90, Number(e.target.value))))}
+                                                    className="w-20 px-3 py-1.5 bg-slate-900/50 border border-slate-600/50 rounded-lg text-sm font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 focus:border-emerald-500/50 transition-all"
+                                                    title="From the vertical; positive leans toward +x"
+                                                />
+                                                <span className="text-xs text-slate-500 font-medium">°</span>
+                                            </div>
+                                        </div>
+                                    )}
+                                    {(loadMode === 'distributed' || loadMode === 'linear') && (
+                                        <div className="flex flex-col gap-1.5">
+                                            <label className="text-[10px] text-slate-500 uppercase tracking-wider font-semibold">Angle</label>
+                                            <div className="flex items-baseline gap-1.5">
+                                                <input
+                                                    type="number"
+                                                    min="-90"
+                                                    max="90"
+                                                    step="5"
+                                                    value={distributedAngle}
+                                                    onChange={e => setDistributedAngle(Math.max(-90, Math.min(90, Number(e.target.value))))}
+                                                    className="w-20 px-3 py-1.5 bg-slate-900/50 border border-slate-600/50 rounded-lg text-sm font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 focus:border-emerald-500/50 transition-all"
+                                                    title="From the vertical; positive leans toward +x and adds an axial component"
+                                                />
+                                                <span className="text-xs text-slate-500 font-medium">°</span>
+                                            </div>
+                                        </div>
+                                    )}
+                                    {loadMode === 'linear' && (
+                                        <div className="flex flex-col gap-1.5">
+                                            <label className="text-[10px] text-slate-500 uppercase tracking-wider font-semibold">End</label>
+                                            <div className="flex items-baseline gap-1.5">
+                                                <input
+                                                    type="number"
+                                                    min="0"
+                                                    step="0.1"
+                                                    value={loadEndMag}
+                                                    onChange={e => setLoadEndMag(Number(e.target.value))}
+                                                    className="w-24 px-3 py-1.5 bg-slate-900/50 border border-slate-600/50 rounded-lg text-sm font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 focus:border-emerald-500/50 transition-all"
+                                                />
+                                                <span className="text-xs text-slate-500 font-medium">kN/m</span>
+                                            </div>
+                                        </div>
+                                    )}
                                     <div className="flex flex-col gap-1.5">
                                         <label className="text-[10px] text-slate-500 uppercase tracking-wider font-semibold">Direction</label>
                                         <div className="flex gap-1 bg-slate-900/50 rounded-lg p-1">
@@ -241,34 +536,23 @@ export const UnifiedWorkspace: React.FC<UnifiedWorkspaceProps> = (props) => {
                                     <div className="flex flex-col gap-1.5">
                                         <label className="text-[10px] text-slate-500 uppercase tracking-wider font-semibold">Category</label>
                                         <div className="flex gap-1 bg-slate-900/50 rounded-lg p-1">
-                                            <button
-                                                onClick={() => {
-                                                    setActiveTool('load');
-                                                    setLoadCategory('Dead');
-                                                }}
-                                                className={`px-3 py-1.5 text-xs font-semibold rounded-md transition-all ${
-                                                    loadCategory === 'Dead'
-                                                        ? 'bg-slate-600 text-white shadow-md'
-                                                        : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'
-                                                }`}
-                                                title="Dead Load (D)"
-                                            >
-                                                D
-                                            </button>
-                                            <button
-                                                onClick={() => {
-                                                    setActiveTool('load');
-                                                    setLoadCategory('Live');
-                                                }}
-                                                className={`px-3 py-1.5 text-xs font-semibold rounded-md transition-all ${
-                                                    loadCategory === 'Live'
-                                                        ? 'bg-blue-600 text-white shadow-md shadow-blue-500/20'
-                                                        : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'
-                                                }`}
-                                                title="Live Load (L)"
-                                            >
-                                                L
-                                            </button>
+                                            {FORCE_LOAD_CATEGORIES.map(category => (
+                                                <button
+                                                    key={category}
+                                                    onClick={() => {
+                                                        setActiveTool('load');
+                                                        setLoadCategory(category);
+                                                    }}
+                                                    className={`px-3 py-1.5 text-xs font-semibold rounded-md transition-all ${
+                                                        loadCategory === category
+                                                            ? LOAD_CATEGORY_STYLES[category].activeClass
+                                                            : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'
+                                                    }`}
+                                                    title={`${LOAD_CATEGORY_STYLES[category].label} Load (${LOAD_CATEGORY_SYMBOLS[category]})`}
+                                                >
+                                                    {LOAD_CATEGORY_SYMBOLS[category]}
+                                                </button>
+                                            ))}
                                         </div>
                                     </div>
                                 </div>
@@ -287,6 +571,28 @@ export const UnifiedWorkspace: React.FC<UnifiedWorkspaceProps> = (props) => {
                                 >
                                     <Gauge size={18} />
                                 </button>
+                                <button
+                                    onClick={() => setShowSectionEditor(!showSectionEditor)}
+                                    className={`p-2.5 rounded-lg transition-all ${
+                                        showSectionEditor 
+                                            ? 'bg-teal-500/20 text-teal-400 shadow-md shadow-teal-500/10' 
+                                            : 'text-slate-400 hover:bg-slate-800 hover:text-slate-200'
+                                    }`}
+                                    title="Section Editor"
+                                >
+                                    <Shapes size={18} />
+                                </button>
+                                <button
+                                    onClick={() => setShowSpans(!showSpans)}
+                                    className={`p-2.5 rounded-lg transition-all ${
+                                        showSpans 
+                                            ? 'bg-amber-500/20 text-amber-400 shadow-md shadow-amber-500/10' 
+                                            : 'text-slate-400 hover:bg-slate-800 hover:text-slate-200'
+                                    }`}
+                                    title="Span Wizard"
+                                >
+                                    <Columns3 size={18} />
+                                </button>
                                 <button
                                     onClick={() => setShowGrid(!showGrid)}
                                     className={`p-2.5 rounded-lg transition-all ${
@@ -403,6 +709,74 @@ export const UnifiedWorkspace: React.FC<UnifiedWorkspaceProps> = (props) => {
                         </div>
                     )}
 
+                    {/* Span Wizard Panel */}
+                    {showSpans && (
+                        <div className="mt-5 pt-5 border-t border-slate-700/50 animate-in slide-in-from-top-2 duration-200">
+                            <div className="flex items-center gap-6 flex-wrap">
+                                <div className="flex items-center gap-3 px-4 py-2.5 bg-slate-800/40 rounded-lg border border-slate-700/30">
+                                    <Columns3 size={16} className="text-amber-400" />
+                                    <span className="text-sm font-semibold text-slate-300">Spans:</span>
+                                    <input
+                                        type="text"
+                                        value={spanInput.lengths}
+                                        onChange={(e) => setSpanInput({ ...spanInput, lengths: e.target.value })}
+                                        className="w-48 px-3 py-1.5 bg-slate-900/50 border border-slate-600/50 rounded-lg text-sm font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-amber-500/50 focus:border-amber-500/50 transition-all"
+                                        title="Span lengths from left to right, separated by commas"
+                                    />
+                                    <span className="text-xs text-slate-500 font-medium">m</span>
+                                </div>
+                                <div className="flex items-center gap-3 px-4 py-2.5 bg-slate-800/40 rounded-lg border border-slate-700/30">
+                                    {([['leftEnd', 'Left'], ['interior', 'Interior'], ['rightEnd', 'Right']] as const).map(([key, label]) => (
+                                        <label key={key} className="flex items-center gap-2 text-sm font-semibold text-slate-300">
+                                            {label}:
+                                            <select
+                                                value={spanInput[key]}
+                                                onChange={(e) => setSpanInput({ ...spanInput, [key]: e.target.value as SupportType })}
+                                                className="px-2 py-1.5 bg-slate-900/50 border border-slate-600/50 rounded-lg text-sm font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+                                            >
+                                                {(key === 'interior' ? ['Roller', 'Pin'] : ['Pin', 'Roller', 'Fixed', 'Free']).map(type => (
+                                                    <option key={type} value={type}>{type}</option>
+                                                ))}
+                                            </select>
+                                        </label>
+                                    ))}
+                                </div>
+                                <button
+                                    onClick={() => props.applySpanLayout({
+                                        lengths: spanInput.lengths.split(',').map(v => Number(v.trim())).filter(v => v > 0),
+                                        leftEnd: spanInput.leftEnd,
+                                        rightEnd: spanInput.rightEnd,
+                                        interior: spanInput.interior
+                                    })}
+                                    className="px-4 py-2 text-xs font-semibold rounded-lg bg-amber-500 text-white shadow-md shadow-amber-500/20 hover:bg-amber-400 transition-all"
+                                >
+                                    Generate Supports
+                                </button>
+                                {props.spanLayout && (
+                                    <div className="flex items-center gap-2 px-4 py-2.5 bg-slate-800/40 rounded-lg border border-slate-700/30">
+                                        {props.spanLayout.lengths.map((l, i) => (
+                                            <label key={i} className="flex items-center gap-1.5 text-xs font-semibold text-slate-400">
+                                                S{i + 1}
+                                                <input
+                                                    type="number"
+                                                    min="0.1"
+                                                    step="0.1"
+                                                    value={l}
+                                                    onChange={(e) => props.resizeSpan(i, Number(e.target.value))}
+                                                    className="w-16 px-2 py-1 bg-slate-900/50 border border-slate-600/50 rounded-lg text-sm font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+                                                />
+                                            </label>
+                                        ))}
+                                        <span className="text-xs text-slate-500 font-medium">m</span>
+                                    </div>
+                                )}
+                            </div>
+                            <p className="mt-3 text-xs text-slate-500">
+                                Supports are placed on the span boundaries; a Free end leaves a cantilever. Resizing a span moves the loads downstream of it with their span.
+                            </p>
+                        </div>
+                    )}
+
                     {/* Material Properties Panel */}
                     {showMaterial && (
                         <div className="mt-5 pt-5 border-t border-slate-700/50 animate-in slide-in-from-top-2 duration-200">
@@ -429,20 +803,56 @@ export const UnifiedWorkspace: React.FC<UnifiedWorkspaceProps> = (props) => {
                                         min="1e-6"
                                         step="0.0001"
                                         value={props.material.I}
-                                        onChange={(e) => props.setMaterial({ ...props.material, I: Number(e.target.value) })}
+                                        onChange={(e) => props.setMaterial({ ...props.material, I: Number(e.target.value), section: null, shape: null })}
                                         className="w-36 px-3 py-1.5 bg-slate-900/50 border border-slate-600/50 rounded-lg text-sm font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/50 focus:border-indigo-500/50 transition-all"
                                     />
                                     <span className="text-xs text-slate-500 font-medium">m⁴</span>
                                 </div>
+                                <div className="flex items-center gap-3 px-4 py-2.5 bg-slate-800/40 rounded-lg border border-slate-700/30">
+                                    <Box size={16} className="text-indigo-400" />
+                                    <span className="text-sm font-semibold text-slate-300">A:</span>
+                                    <input
+                                        type="number"
+                                        min="1e-6"
+                                        step="0.001"
+                                        value={props.material.A}
+                                        onChange={(e) => props.setMaterial({ ...props.material, A: Number(e.target.value), section: null, shape: null })}
+                                        className="w-28 px-3 py-1.5 bg-slate-900/50 border border-slate-600/50 rounded-lg text-sm font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/50 focus:border-indigo-500/50 transition-all"
+                                        title="Cross-section area for the axial stiffness EA"
+                                    />
+                                    <span className="text-xs text-slate-500 font-medium">m²</span>
+                                </div>
+                                <div className="flex items-center gap-3 px-4 py-2.5 bg-slate-800/40 rounded-lg border border-slate-700/30">
+                                    <label className="flex items-center gap-1.5 text-sm font-semibold text-slate-300 cursor-pointer" title="Add ρ·g·A as an automatic Dead load">
+                                        <input
+                                            type="checkbox"
+                                            checked={props.material.selfWeight}
+                                            onChange={(e) => props.setMaterial({ ...props.material, selfWeight: e.target.checked })}
+                                            className="accent-indigo-500"
+                                        />
+                                        Self-weight
+                                    </label>
+                                    <span className="text-sm font-semibold text-slate-300">ρ:</span>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step="50"
+                                        value={props.material.density}
+                                        onChange={(e) => props.setMaterial({ ...props.material, density: Math.max(0, Number(e.target.value)) })}
+                                        className="w-24 px-3 py-1.5 bg-slate-900/50 border border-slate-600/50 rounded-lg text-sm font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/50 focus:border-indigo-500/50 transition-all"
+                                    />
+                                    <span className="text-xs text-slate-500 font-medium">kg/m³</span>
+                                    <span className="text-xs text-slate-600 font-medium">({selfWeightPerLength(props.material.A, props.material.density).toFixed(2)} kN/m)</span>
+                                </div>
                                 <div className="flex gap-2">
                                     {[
-                                        { label: 'Steel', E: 200e9, I: 0.0001 },
-                                        { label: 'Concrete', E: 30e9, I: 0.0001 },
-                                        { label: 'Wood', E: 12e9, I: 0.0001 }
+                                        { label: 'Steel', E: 200e9, density: 7850 },
+                                        { label: 'Concrete', E: 30e9, density: 2500 },
+                                        { label: 'Wood', E: 12e9, density: 500 }
                                     ].map(mat => (
                                         <button
                                             key={mat.label}
-                                            onClick={() => props.setMaterial({ E: mat.E, I: mat.I })}
+                                            onClick={() => props.setMaterial({ ...props.material, E: mat.E, density: mat.density })}
                                             className="px-4 py-2 text-xs font-semibold rounded-lg transition-all bg-slate-800/60 text-slate-400 hover:bg-slate-700 hover:text-slate-200 border border-slate-700/50"
                                         >
                                             {mat.label}
@@ -450,6 +860,334 @@ export const UnifiedWorkspace: React.FC<UnifiedWorkspaceProps> = (props) => {
                                     ))}
                                 </div>
                             </div>
+
+                            {/* Steel section library: fills I and A (and the self-weight) from the tables */}
+                            <div className="mt-4 flex items-center gap-3 flex-wrap">
+                                <span className="text-xs text-slate-500 uppercase tracking-wider font-semibold">Section:</span>
+                                <div className="flex gap-1">
+                                    {SectionLibraryService.FAMILIES.map(family => (
+                                        <button
+                                            key={family}
+                                            onClick={() => setSectionFamily(family)}
+                                            className={`px-3 py-1.5 text-xs font-semibold rounded-lg transition-all border ${
+                                                sectionFamily === family
+                                                    ? 'bg-indigo-600 text-white border-indigo-500'
+                                                    : 'bg-slate-800/60 text-slate-400 hover:bg-slate-700 hover:text-slate-200 border-slate-700/50'
+                                            }`}
+                                        >
+                                            {family}
+                                        </button>
+                                    ))}
+                                </div>
+                                <input
+                                    type="text"
+                                    value={sectionQuery}
+                                    onChange={(e) => setSectionQuery(e.target.value)}
+                                    placeholder="Search, e.g. 300"
+                                    className="w-36 px-3 py-1.5 bg-slate-900/50 border border-slate-600/50 rounded-lg text-xs font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+                                />
+                                <div className="flex gap-1 flex-wrap max-w-3xl">
+                                    {SectionLibraryService.search(sectionQuery, sectionFamily).slice(0, 10).map(section => (
+                                        <button
+                                            key={section.name}
+                                            onClick={() => props.applySection(section)}
+                                            className={`px-2.5 py-1 text-xs font-mono rounded-md transition-all border ${
+                                                props.material.section?.name === section.name
+                                                    ? 'bg-indigo-500/20 text-indigo-200 border-indigo-500/50'
+                                                    : 'bg-slate-800/60 text-slate-400 hover:bg-slate-700 hover:text-slate-200 border-slate-700/50'
+                                            }`}
+                                            title={`I = ${(section.I * 1e8).toFixed(0)} cm⁴, A = ${(section.A * 1e4).toFixed(1)} cm², ${section.weight.toFixed(1)} kg/m`}
+                                        >
+                                            {section.name}
+                                        </button>
+                                    ))}
+                                </div>
+                                {props.material.section && (
+                                    <span className="text-xs text-slate-400 font-mono">
+                                        {props.material.section.name}: h={(props.material.section.depth * 1000).toFixed(0)}mm · S={(props.material.section.S * 1e6).toFixed(0)}cm³ · Z={(props.material.section.Z * 1e6).toFixed(0)}cm³ · {props.material.section.weight.toFixed(1)}kg/m
+                                    </span>
+                                )}
+                            </div>
+
+                            {/* Beam theory: Timoshenko adds shear deformation for deep or short members */}
+                            <div className="mt-4 flex items-center gap-3 flex-wrap">
+                                <span className="text-xs text-slate-500 uppercase tracking-wider font-semibold">Theory:</span>
+                                <div className="flex gap-2">
+                                    {(['Bernoulli', 'Timoshenko'] as BeamTheory[]).map(theory => (
+                                        <button
+                                            key={theory}
+                                            onClick={() => props.setShearModel({ ...props.shearModel, theory })}
+                                            className={`px-4 py-2 text-xs font-semibold rounded-lg transition-all border ${
+                                                props.shearModel.theory === theory
+                                                    ? 'bg-indigo-600 text-white border-indigo-500'
+                                                    : 'bg-slate-800/60 text-slate-400 hover:bg-slate-700 hover:text-slate-200 border-slate-700/50'
+                                            }`}
+                                        >
+                                            {theory === 'Bernoulli' ? 'Euler-Bernoulli' : 'Timoshenko'}
+                                        </button>
+                                    ))}
+                                </div>
+                                {props.shearModel.theory === 'Timoshenko' && (
+                                    <div className="flex items-center gap-2 px-3 py-1.5 bg-slate-800/40 rounded-lg border border-slate-700/30">
+                                        <span className="text-xs font-semibold text-slate-300">G:</span>
+                                        <input
+                                            type="number"
+                                            min="1e6"
+                                            step="1e9"
+                                            value={props.shearModel.G}
+                                            onChange={(e) => props.setShearModel({ ...props.shearModel, G: Number(e.target.value) })}
+                                            className="w-28 px-2 py-1 bg-slate-900/50 border border-slate-600/50 rounded-md text-xs font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+                                        />
+                                        <span className="text-xs text-slate-500 font-medium">Pa</span>
+                                        <span className="text-xs font-semibold text-slate-300 ml-2">As:</span>
+                                        <input
+                                            type="number"
+                                            min="1e-6"
+                                            step="0.001"
+                                            value={props.shearModel.As}
+                                            onChange={(e) => props.setShearModel({ ...props.shearModel, As: Number(e.target.value) })}
+                                            className="w-24 px-2 py-1 bg-slate-900/50 border border-slate-600/50 rounded-md text-xs font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+                                            title="Shear area (web area for I-sections, 5/6·A for rectangles)"
+                                        />
+                                        <span className="text-xs text-slate-500 font-medium">m²</span>
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* Section segments: stepped E and I along part of the beam */}
+                            <div className="mt-4 flex items-center gap-3 flex-wrap">
+                                <span className="text-xs text-slate-500 uppercase tracking-wider font-semibold">Segments:</span>
+                                {props.segments.map(seg => (
+                                    <div key={seg.id} className="flex items-center gap-2 px-3 py-1.5 bg-indigo-500/10 rounded-lg border border-indigo-500/30 text-xs text-indigo-200 font-mono">
+                                        <span>{seg.startX.toFixed(2)}–{seg.endX.toFixed(2)}m · E={(seg.E / 1e9).toFixed(0)}GPa · I={seg.I}{seg.taper ? `→${seg.taper.IEnd} (n=${seg.taper.exponent})` : ''}{seg.A !== undefined ? ` · A=${seg.A}` : ''}</span>
+                                        <button onClick={() => props.removeSegment(seg.id)} className="text-indigo-300 hover:text-red-400 transition-colors" title="Remove segment">
+                                            <X size={12} />
+                                        </button>
+                                    </div>
+                                ))}
+                                <div className="flex items-center gap-2 px-3 py-1.5 bg-slate-800/40 rounded-lg border border-slate-700/30">
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step="0.1"
+                                        value={segmentInput.startX}
+                                        onChange={(e) => setSegmentInput({ ...segmentInput, startX: Number(e.target.value) })}
+                                        className="w-16 px-2 py-1 bg-slate-900/50 border border-slate-600/50 rounded-md text-xs font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+                                        title="Start (m)"
+                                    />
+                                    <span className="text-xs text-slate-500">→</span>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step="0.1"
+                                        value={segmentInput.endX}
+                                        onChange={(e) => setSegmentInput({ ...segmentInput, endX: Number(e.target.value) })}
+                                        className="w-16 px-2 py-1 bg-slate-900/50 border border-slate-600/50 rounded-md text-xs font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+                                        title="End (m)"
+                                    />
+                                    <span className="text-xs text-slate-500 font-medium">m</span>
+                                    <span className="text-xs font-semibold text-slate-300 ml-2">E:</span>
+                                    <input
+                                        type="number"
+                                        min="1e6"
+                                        step="1e9"
+                                        value={segmentInput.E}
+                                        onChange={(e) => setSegmentInput({ ...segmentInput, E: Number(e.target.value) })}
+                                        className="w-28 px-2 py-1 bg-slate-900/50 border border-slate-600/50 rounded-md text-xs font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+                                    />
+                                    <span className="text-xs text-slate-500 font-medium">Pa</span>
+                                    <span className="text-xs font-semibold text-slate-300 ml-2">I:</span>
+                                    <input
+                                        type="number"
+                                        min="1e-6"
+                                        step="0.0001"
+                                        value={segmentInput.I}
+                                        onChange={(e) => setSegmentInput({ ...segmentInput, I: Number(e.target.value) })}
+                                        className="w-24 px-2 py-1 bg-slate-900/50 border border-slate-600/50 rounded-md text-xs font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+                                    />
+                                    <span className="text-xs text-slate-500 font-medium">m⁴</span>
+                                    <span className="text-xs font-semibold text-slate-300 ml-2">A:</span>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step="0.001"
+                                        value={segmentInput.A}
+                                        onChange={(e) => setSegmentInput({ ...segmentInput, A: Math.max(0, Number(e.target.value)) })}
+                                        className="w-20 px-2 py-1 bg-slate-900/50 border border-slate-600/50 rounded-md text-xs font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+                                        title="Segment area for EA and the self-weight (0 keeps the beam's A)"
+                                    />
+                                    <span className="text-xs text-slate-500 font-medium">m²</span>
+                                    <label className="flex items-center gap-1.5 ml-2 text-xs font-semibold text-slate-300 cursor-pointer" title="Depth varies linearly along the segment">
+                                        <input
+                                            type="checkbox"
+                                            checked={segmentInput.tapered}
+                                            onChange={(e) => setSegmentInput({ ...segmentInput, tapered: e.target.checked })}
+                                            className="accent-indigo-500"
+                                        />
+                                        Tapered
+                                    </label>
+                                    {segmentInput.tapered && (
+                                        <>
+                                            <span className="text-xs font-semibold text-slate-300">I end:</span>
+                                            <input
+                                                type="number"
+                                                min="1e-6"
+                                                step="0.0001"
+                                                value={segmentInput.IEnd}
+                                                onChange={(e) => setSegmentInput({ ...segmentInput, IEnd: Number(e.target.value) })}
+                                                className="w-24 px-2 py-1 bg-slate-900/50 border border-slate-600/50 rounded-md text-xs font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+                                            />
+                                            <select
+                                                value={segmentInput.exponent}
+                                                onChange={(e) => setSegmentInput({ ...segmentInput, exponent: Number(e.target.value) })}
+                                                className="px-2 py-1 bg-slate-900/50 border border-slate-600/50 rounded-md text-xs font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+                                                title="Inertia law I ∝ depthⁿ"
+                                            >
+                                                <option value={1}>n=1 (linear I)</option>
+                                                <option value={2}>n=2 (I-section)</option>
+                                                <option value={3}>n=3 (rectangle)</option>
+                                            </select>
+                                        </>
+                                    )}
+                                    <button
+                                        onClick={() => props.addSegment(
+                                            segmentInput.startX, segmentInput.endX, segmentInput.E, segmentInput.I,
+                                            segmentInput.tapered ? { IEnd: segmentInput.IEnd, exponent: segmentInput.exponent } : undefined,
+                                            segmentInput.A > 0 ? segmentInput.A : undefined
+                                        )}
+                                        className="ml-2 px-3 py-1 text-xs font-semibold rounded-md bg-indigo-600 text-white hover:bg-indigo-500 transition-all"
+                                    >
+                                        Add Segment
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Section Editor Panel */}
+                    {showSectionEditor && (
+                        <div className="mt-5 pt-5 border-t border-slate-700/50 animate-in slide-in-from-top-2 duration-200">
+                            <div className="flex items-start gap-6 flex-wrap">
+                                <div className="flex flex-col gap-3">
+                                    <div className="flex gap-1">
+                                        {([['rectangle', 'Rect'], ['I', 'I'], ['T', 'T'], ['box', 'Box'], ['circular', 'Circle'], ['polygon', 'Polygon']] as [CrossSectionKind, string][]).map(([kind, label]) => (
+                                            <button
+                                                key={kind}
+                                                onClick={() => setShapeInput({ ...shapeInput, kind })}
+                                                className={`px-3 py-1.5 text-xs font-semibold rounded-lg transition-all border ${
+                                                    shapeInput.kind === kind
+                                                        ? 'bg-teal-600 text-white border-teal-500'
+                                                        : 'bg-slate-800/60 text-slate-400 hover:bg-slate-700 hover:text-slate-200 border-slate-700/50'
+                                                }`}
+                                            >
+                                                {label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    {shapeInput.kind === 'polygon' ? (
+                                        <textarea
+                                            value={shapeInput.polygons}
+                                            onChange={(e) => setShapeInput({ ...shapeInput, polygons: e.target.value })}
+                                            rows={4}
+                                            className="w-96 px-3 py-2 bg-slate-900/50 border border-slate-600/50 rounded-lg text-xs font-mono text-slate-100 focus:outline-none focus:ring-2 focus:ring-teal-500/50"
+                                            title="One outline per line as x,y points in mm; start a line with - to subtract it as a hole"
+                                        />
+                                    ) : (
+                                        <div className="flex items-center gap-3 px-4 py-2.5 bg-slate-800/40 rounded-lg border border-slate-700/30 flex-wrap">
+                                            {(({
+                                                rectangle: [['b', 'b'], ['h', 'h']],
+                                                I: [['h', 'h'], ['bf', 'bf'], ['tf', 'tf'], ['tw', 'tw']],
+                                                T: [['h', 'h'], ['bf', 'bf'], ['tf', 'tf'], ['tw', 'tw']],
+                                                box: [['h', 'h'], ['b', 'b'], ['t', 't']],
+                                                circular: shapeInput.hollow ? [['d', 'd'], ['t', 't']] : [['d', 'd']]
+                                            } as Record<Exclude<CrossSectionKind, 'polygon'>, [keyof typeof shapeInput, string][]>)[shapeInput.kind]).map(([key, label]) => (
+                                                <label key={key} className="flex items-center gap-1.5 text-sm font-semibold text-slate-300">
+                                                    {label}:
+                                                    <input
+                                                        type="number"
+                                                        min="0"
+                                                        step="1"
+                                                        value={shapeInput[key] as number}
+                                                        onChange={(e) => setShapeInput({ ...shapeInput, [key]: Math.max(0, Number(e.target.value)) })}
+                                                        className="w-20 px-2 py-1 bg-slate-900/50 border border-slate-600/50 rounded-md text-xs font-semibold text-slate-100 focus:outline-none focus:ring-2 focus:ring-teal-500/50"
+                                                    />
+                                                </label>
+                                            ))}
+                                            {shapeInput.kind === 'circular' && (
+                                                <label className="flex items-center gap-1.5 text-xs font-semibold text-slate-300 cursor-pointer">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={shapeInput.hollow}
+                                                        onChange={(e) => setShapeInput({ ...shapeInput, hollow: e.target.checked })}
+                                                        className="accent-teal-500"
+                                                    />
+                                                    Hollow
+                                                </label>
+                                            )}
+                                            <span className="text-xs text-slate-500 font-medium">mm</span>
+                                        </div>
+                                    )}
+                                    {sectionPreview.properties ? (
+                                        <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-xs font-mono text-slate-300">
+                                            <span>A = {(sectionPreview.properties.A * 1e4).toFixed(2)} cm²</span>
+                                            <span>I = {(sectionPreview.properties.I * 1e8).toFixed(0)} cm⁴</span>
+                                            <span>ȳ = {(sectionPreview.properties.centroid * 1000).toFixed(1)} mm</span>
+                                            <span>h = {(sectionPreview.properties.depth * 1000).toFixed(1)} mm</span>
+                                            <span>S top = {(sectionPreview.properties.Stop * 1e6).toFixed(1)} cm³</span>
+                                            <span>S bot = {(sectionPreview.properties.Sbottom * 1e6).toFixed(1)} cm³</span>
+                                            <span>Z = {(sectionPreview.properties.Z * 1e6).toFixed(1)} cm³</span>
+                                            <span>Z/S = {(sectionPreview.properties.Z / Math.min(sectionPreview.properties.Stop, sectionPreview.properties.Sbottom)).toFixed(2)}</span>
+                                        </div>
+                                    ) : (
+                                        <div className="flex items-center gap-2 text-xs text-red-400">
+                                            <AlertCircle size={14} />
+                                            {sectionPreview.error}
+                                        </div>
+                                    )}
+                                    <button
+                                        onClick={() => props.applyShape(sectionPreview.shape)}
+                                        disabled={!sectionPreview.properties}
+                                        className="self-start px-4 py-2 text-xs font-semibold rounded-lg bg-teal-600 text-white shadow-md shadow-teal-500/20 hover:bg-teal-500 disabled:opacity-40 disabled:cursor-not-allowed transition-all"
+                                    >
+                                        Apply to Beam
+                                    </button>
+                                </div>
+
+                                {/* Scaled preview: centroidal axis dashed, plastic axis dotted */}
+                                {sectionPreview.properties && (() => {
+                                    const size = 180;
+                                    const points = sectionPreview.outline.flatMap(p => p.points);
+                                    const xMin = Math.min(...points.map(([x]) => x));
+                                    const xMax = Math.max(...points.map(([x]) => x));
+                                    const yMin = Math.min(...points.map(([, y]) => y));
+                                    const yMax = Math.max(...points.map(([, y]) => y));
+                                    const scale = (size - 30) / Math.max(xMax - xMin, yMax - yMin);
+                                    const toX = (x: number) => size / 2 + (x - (xMin + xMax) / 2) * scale;
+                                    const toY = (y: number) => size / 2 - (y - (yMin + yMax) / 2) * scale;
+                                    const axis = (y: number, dash: string, color: string) => (
+                                        <line x1={4} x2={size - 4} y1={toY(yMin + y)} y2={toY(yMin + y)} stroke={color} strokeWidth={1} strokeDasharray={dash} />
+                                    );
+                                    return (
+                                        <svg width={size} height={size} className="bg-slate-900/50 rounded-lg border border-slate-700/50">
+                                            {sectionPreview.outline.map((polygon, i) => (
+                                                <polygon
+                                                    key={i}
+                                                    points={polygon.points.map(([x, y]) => `${toX(x)},${toY(y)}`).join(' ')}
+                                                    fill={polygon.hole ? '#0f172a' : '#14b8a6'}
+                                                    fillOpacity={polygon.hole ? 1 : 0.35}
+                                                    stroke="#2dd4bf"
+                                                    strokeWidth={1.5}
+                                                />
+                                            ))}
+                                            {axis(sectionPreview.properties.centroid, '6 3', '#f8fafc')}
+                                            {axis(sectionPreview.properties.plasticAxis, '2 3', '#f59e0b')}
+                                        </svg>
+                                    );
+                                })()}
+                            </div>
+                            <p className="mt-3 text-xs text-slate-500">
+                                Applying the section sets the beam's I and A; E and the density stay with the chosen material. Dashed line: centroid, dotted: plastic neutral axis.
+                            </p>
                         </div>
                     )}
                 </div>
@@ -502,6 +1240,45 @@ export const UnifiedWorkspace: React.FC<UnifiedWorkspaceProps> = (props) => {
                             label="Fixed Support"
                             color="text-indigo-400"
                         />
+                        <ToolButton
+                            active={activeTool === 'spring'}
+                            onClick={() => setActiveTool('spring')}
+                            icon={<div className="text-[11px] font-extrabold tracking-tight">SPR</div>}
+                            label="Spring Support"
+                            color="text-teal-400"
+                        />
+                        <ToolButton
+                            active={activeTool === 'settlement'}
+                            onClick={() => setActiveTool('settlement')}
+                            icon={<div className="text-[13px] font-extrabold tracking-tight">Δ</div>}
+                            label="Support Settlement"
+                            color="text-orange-400"
+                        />
+                        <ToolButton
+                            active={activeTool === 'foundation'}
+                            onClick={() => {
+                                setActiveTool('foundation');
+                                setDistributedStartPos(null);
+                            }}
+                            icon={<div className="text-[11px] font-extrabold tracking-tight">SOIL</div>}
+                            label="Elastic Foundation"
+                            color="text-yellow-500"
+                        />
+                    </div>
+                    
+                    {/* Divider */}
+                    <div className="w-12 h-[1px] bg-gradient-to-r from-transparent via-slate-700 to-transparent my-1" />
+                    
+                    {/* Release Tools */}
+                    <div className="w-full flex flex-col items-center">
+                        <div className="text-[9px] text-slate-600 uppercase tracking-widest font-bold mb-1 px-2">Releases</div>
+                        <ToolButton
+                            active={activeTool === 'hinge'}
+                            onClick={() => setActiveTool('hinge')}
+                            icon={<div className="w-4 h-4 rounded-full border-2 border-current" />}
+                            label="Internal Hinge"
+                            color="text-amber-400"
+                        />
                     </div>
                     
                     {/* Divider */}
@@ -520,10 +1297,20 @@ export const UnifiedWorkspace: React.FC<UnifiedWorkspaceProps> = (props) => {
                                     setDistributedStartPos(null);
                                 }
                             }}
-                            icon={loadMode === 'point' ? (loadDirection === 'down' ? <ArrowDown size={22} /> : <ArrowUp size={22} />) : <GripVertical size={22} />}
-                            label={loadMode === 'point' ? 'Point Load' : 'Distributed Load'}
+                            icon={loadMode === 'point' || loadMode === 'inclined' ? (loadDirection === 'down' ? <ArrowDown size={22} /> : <ArrowUp size={22} />) : <GripVertical size={22} />}
+                            label={loadMode === 'point' ? 'Point Load' : loadMode === 'inclined' ? 'Inclined Load' : loadMode === 'linear' ? 'Linear Load' : 'Distributed Load'}
                             color={loadDirection === 'down' ? "text-red-500" : "text-yellow-400"}
                         />
+                        <ToolButton
+                            active={activeTool === 'thermal'}
+                            onClick={() => {
+                                setActiveTool('thermal');
+                                setDistributedStartPos(null);
+                            }}
+                            icon={<div className="text-[12px] font-extrabold tracking-tight">ΔT</div>}
+                            label="Temperature Load"
+                            color="text-red-400"
+                        />
                     </div>
                 </div>
 
@@ -570,10 +1357,17 @@ export const UnifiedWorkspace: React.FC<UnifiedWorkspaceProps> = (props) => {
                                     <InteractiveCanvas
                                         length={props.length}
                                         supports={props.supports}
+                                        hinges={props.hinges}
+                                        foundations={props.foundations}
+                                        segments={props.segments}
+                                        springStiffness={springStiffness}
+                                        foundationModulus={foundationModulus}
                                         loads={props.loads}
                                         activeTool={activeTool}
                                         loadMode={loadMode}
                                         loadMag={loadMag}
+                                        loadEndMag={loadEndMag}
+                                        loadAngle={loadMode === 'inclined' ? loadAngle : distributedAngle}
                                         loadDirection={loadDirection}
                                         loadCategory={loadCategory}
                                         gridSnap={gridSnap}
@@ -582,7 +1376,13 @@ export const UnifiedWorkspace: React.FC<UnifiedWorkspaceProps> = (props) => {
                                         setDistributedStartPos={setDistributedStartPos}
                                         onAddSupport={props.addSupport}
                                         onRemoveSupport={props.removeSupport}
+                                        onAddHinge={props.addHinge}
+                                        onRemoveHinge={props.removeHinge}
+                                        onAddFoundation={props.addFoundation}
+                                        onRemoveFoundation={props.removeFoundation}
                                         onAddLoad={props.addLoad}
+                                        onAddSupportDisplacement={(x) => props.addSupportDisplacement(x, settlementInput.settlement / 1000, settlementInput.rotation / 1000)}
+                                        onAddThermalLoad={(startX, endX) => props.addThermalLoad(startX, endX, thermalInput.uniform, thermalInput.gradient, thermalInput.alpha * 1e-6, thermalInput.depth)}
                                         onRemoveLoad={props.removeLoad}
                                         onUpdateLoadCategory={props.updateLoadCategory}
                                         results={props.results}
@@ -604,9 +1404,19 @@ export const UnifiedWorkspace: React.FC<UnifiedWorkspaceProps> = (props) => {
                                                     {activeTool === 'pin' && 'Click to add Pin Support'}
                                                     {activeTool === 'roller' && 'Click to add Roller Support'}
                                                     {activeTool === 'fixed' && 'Click to add Fixed Support'}
+                                                    {activeTool === 'spring' && `Click to add Spring Support (k_y = ${springStiffness.ky}, k_θ = ${springStiffness.kTheta})`}
+                                                    {activeTool === 'hinge' && 'Click to add Internal Hinge'}
+                                                    {activeTool === 'foundation' && distributedStartPos === null && `Click to set foundation start (k = ${foundationModulus} kN/m²)`}
+                                                    {activeTool === 'foundation' && distributedStartPos !== null && 'Click to set foundation end'}
+                                                    {activeTool === 'thermal' && distributedStartPos === null && `Click to set heated range start (ΔT = ${thermalInput.uniform} °C, ΔT top−bottom = ${thermalInput.gradient} °C)`}
+                                                    {activeTool === 'thermal' && distributedStartPos !== null && 'Click to set heated range end'}
+                                                    {activeTool === 'settlement' && `Click a support to impose ${settlementInput.settlement} mm / ${settlementInput.rotation} mrad`}
                                                     {activeTool === 'load' && loadMode === 'point' && `Click to add ${loadMag}kN Point Load`}
-                                                    {activeTool === 'load' && loadMode === 'distributed' && distributedStartPos === null && `Click to set start position (${loadMag}kN/m)`}
+                                                    {activeTool === 'load' && loadMode === 'inclined' && `Click to add ${loadMag}kN Load at ${loadAngle}°`}
+                                                    {activeTool === 'load' && loadMode === 'distributed' && distributedStartPos === null && `Click to set start position (${loadMag}kN/m${distributedAngle ? ` at ${distributedAngle}°` : ''})`}
                                                     {activeTool === 'load' && loadMode === 'distributed' && distributedStartPos !== null && 'Click to set end position'}
+                                                    {activeTool === 'load' && loadMode === 'linear' && distributedStartPos === null && `Click to set start position (${loadMag}kN/m)`}
+                                                    {activeTool === 'load' && loadMode === 'linear' && distributedStartPos !== null && `Click to set end position (${loadEndMag}kN/m)`}
                                                 </span>
                                             </>
                                         )}
@@ -619,7 +1429,7 @@ export const UnifiedWorkspace: React.FC<UnifiedWorkspaceProps> = (props) => {
                 </div>
 
                 {/* Results Panel - Below Editor */}
-                {props.results && diagramData && (
+                {props.results && props.solvedInput && diagramData && (
                     <>
                         {/* Resize Handle - Horizontal */}
                         {showResultsPanel && (
@@ -711,11 +1521,13 @@ export const UnifiedWorkspace: React.FC<UnifiedWorkspaceProps> = (props) => {
                                     }}>
                                         <IntegratedDiagrams
                                             results={props.results}
+                                            loadCases={props.loadCases ?? {}}
+                                            input={props.solvedInput}
                                             length={props.length}
                                             nodes={props.nodes}
                                             supports={props.supports}
                                             loads={props.processedLoads}
-                                            material={props.material}
+                                            section={sectionProperties}
                                         />
                                     </div>
                                 </div>